@@ -0,0 +1,34 @@
+// src/config/address-labels.config.ts - KNOWN NON-PERSONAL ADDRESSES
+import { AccountType } from '../types/whale.types';
+
+export interface AddressLabel {
+  type: Extract<AccountType, 'EXCHANGE' | 'TREASURY' | 'BRIDGE' | 'PROGRAM'>;
+  name: string;
+}
+
+// Built-in labels; deployment-specific entries (protocol treasuries, more exchange
+// wallets) go in the ADDRESS_LABELS_FILE, which takes precedence over these
+export const KNOWN_ADDRESS_LABELS: Record<string, AddressLabel> = {
+  // Exchange hot wallets
+  '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM': { type: 'EXCHANGE', name: 'Binance hot wallet' },
+  '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9': { type: 'EXCHANGE', name: 'Binance hot wallet 2' },
+  'H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS': { type: 'EXCHANGE', name: 'Coinbase hot wallet' },
+  '2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm': { type: 'EXCHANGE', name: 'Coinbase hot wallet 2' },
+  'FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5': { type: 'EXCHANGE', name: 'Kraken hot wallet' },
+  '5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD': { type: 'EXCHANGE', name: 'OKX hot wallet' },
+  'AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2': { type: 'EXCHANGE', name: 'Bybit hot wallet' },
+
+  // Bridges
+  'worm2ZoG2kUd4vFXhvjh93UUH596ayRfgQ2MgjNMTth': { type: 'BRIDGE', name: 'Wormhole core bridge' },
+  'wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb': { type: 'BRIDGE', name: 'Wormhole token bridge' },
+
+  // Programs discovery has scanned or listed; known here to save the account lookup
+  '11111111111111111111111111111111': { type: 'PROGRAM', name: 'System program' },
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA': { type: 'PROGRAM', name: 'SPL Token program' },
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL': { type: 'PROGRAM', name: 'Associated Token Account program' },
+  '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin': { type: 'PROGRAM', name: 'Serum DEX v3' },
+  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4': { type: 'PROGRAM', name: 'Jupiter aggregator v6' },
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': { type: 'PROGRAM', name: 'Raydium AMM v4' },
+  'CAMMCzo5YL8w4VFF8KVHrK22GGUQpMNRqTNi1Z5qS2QF': { type: 'PROGRAM', name: 'Raydium CLMM' },
+  'PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY': { type: 'PROGRAM', name: 'Phoenix' }
+};
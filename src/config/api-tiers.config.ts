@@ -0,0 +1,16 @@
+// src/config/api-tiers.config.ts - PER-KEY RATE AND QUOTA TIERS
+export interface ApiTier {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  refreshesPerDay: number;   // refresh-scoped calls, which spend Helius credits
+}
+
+export const API_TIERS: Record<string, ApiTier> = {
+  basic: { requestsPerMinute: 60, requestsPerDay: 5000, refreshesPerDay: 10 },
+  standard: { requestsPerMinute: 300, requestsPerDay: 50000, refreshesPerDay: 100 },
+  internal: { requestsPerMinute: 1000, requestsPerDay: 500000, refreshesPerDay: 1000 }
+};
+
+export const DEFAULT_API_TIER = process.env.API_DEFAULT_TIER && API_TIERS[process.env.API_DEFAULT_TIER]
+  ? process.env.API_DEFAULT_TIER
+  : 'basic';
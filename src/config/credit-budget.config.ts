@@ -0,0 +1,27 @@
+// src/config/credit-budget.config.ts - HELIUS CREDIT ALLOWANCE AND CATEGORY SHARES
+import { CreditCategory } from '../types/whale.types';
+
+export interface CreditBudgetConfig {
+  monthlyCredits: number;
+  dailyCredits: number;
+  shares: Record<CreditCategory, number>; // fraction of both the monthly and the daily allowance
+  retentionDays: number;                  // ledger entries older than this are pruned
+  forecastWindowDays: number;             // burn rate history behind the exhaustion forecast
+}
+
+const monthlyCredits = parseInt(process.env.HELIUS_MONTHLY_CREDITS || '10000000');
+
+export const CREDIT_BUDGET: CreditBudgetConfig = {
+  monthlyCredits,
+  dailyCredits: parseInt(process.env.HELIUS_DAILY_CREDITS || String(Math.floor(monthlyCredits / 30))),
+  shares: {
+    DISCOVERY: parseFloat(process.env.CREDIT_BUDGET_DISCOVERY_PCT || '10') / 100,
+    TRACKING: parseFloat(process.env.CREDIT_BUDGET_TRACKING_PCT || '70') / 100,
+    API: parseFloat(process.env.CREDIT_BUDGET_API_PCT || '10') / 100,
+    BUFFER: parseFloat(process.env.CREDIT_BUDGET_BUFFER_PCT || '10') / 100
+  },
+  retentionDays: parseInt(process.env.CREDIT_LEDGER_RETENTION_DAYS || '45'),
+  forecastWindowDays: parseInt(process.env.CREDIT_FORECAST_WINDOW_DAYS || '7')
+};
+
+export const CREDIT_CATEGORIES: CreditCategory[] = ['DISCOVERY', 'TRACKING', 'API', 'BUFFER'];
@@ -0,0 +1,48 @@
+// src/config/helius-costs.config.ts - CREDITS CHARGED PER HELIUS METHOD
+export type HeliusMethod = 'accounts' | 'tokenAccounts' | 'addressTransactions' | 'tokenHolders' | 'createWebhook' | 'updateWebhook';
+
+export interface HeliusMethodCost {
+  endpoint: string;  // as recorded in the credit ledger
+  credits: number;
+}
+
+// Helius list prices: plain account reads 1, DAS-style lookups 10, enhanced transactions and webhook edits 100
+const DEFAULT_COSTS: Record<HeliusMethod, HeliusMethodCost> = {
+  accounts: { endpoint: 'POST /v0/accounts', credits: 1 },
+  tokenAccounts: { endpoint: 'POST /v0/accounts?tokenAccountsOnly', credits: 1 },
+  addressTransactions: { endpoint: 'GET /v0/addresses/:address/transactions', credits: 100 },
+  tokenHolders: { endpoint: 'GET /v0/token/:mint/holders', credits: 10 },
+  createWebhook: { endpoint: 'POST /v0/webhooks', credits: 100 },
+  updateWebhook: { endpoint: 'PUT /v0/webhooks/:id', credits: 100 }
+};
+
+// HELIUS_CREDIT_COSTS="addressTransactions=100,tokenHolders=10" overrides individual methods
+const parseOverrides = (raw: string | undefined): Partial<Record<HeliusMethod, number>> => {
+  const overrides: Partial<Record<HeliusMethod, number>> = {};
+
+  for (const pair of (raw || '').split(',')) {
+    const [method, value] = pair.split('=').map(part => part.trim());
+    const credits = Number(value);
+    if (method in DEFAULT_COSTS && Number.isFinite(credits) && credits >= 0) {
+      overrides[method as HeliusMethod] = credits;
+    }
+  }
+
+  return overrides;
+};
+
+const overrides = parseOverrides(process.env.HELIUS_CREDIT_COSTS);
+
+export const HELIUS_METHOD_COSTS = Object.fromEntries(
+  Object.entries(DEFAULT_COSTS).map(([method, cost]) => [
+    method,
+    { ...cost, credits: overrides[method as HeliusMethod] ?? cost.credits }
+  ])
+) as Record<HeliusMethod, HeliusMethodCost>;
+
+// Calls made to analyze one wallet; the transactions call is skipped when the balance misses the cutoff
+export const WALLET_BALANCE_METHODS: HeliusMethod[] = ['accounts', 'tokenAccounts'];
+export const WALLET_ANALYSIS_METHODS: HeliusMethod[] = [...WALLET_BALANCE_METHODS, 'addressTransactions'];
+
+export const creditCost = (methods: HeliusMethod[]): number =>
+  methods.reduce((sum, method) => sum + HELIUS_METHOD_COSTS[method].credits, 0);
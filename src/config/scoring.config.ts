@@ -0,0 +1,35 @@
+// src/config/scoring.config.ts - COMPOSITE WHALE SCORE WEIGHTS AND SCALES
+import { ScoreComponentName } from '../types/whale.types';
+
+export interface ScoringConfig {
+  // Relative weights; they are normalized so only the ratios matter
+  weights: Record<ScoreComponentName, number>;
+  balanceFloorUsd: number;    // scores 0
+  balanceCapUsd: number;      // scores 1 (log scale in between)
+  pnlScaleUsd: number;        // realized PnL of +scale scores ~0.88, -scale ~0.12
+  recencyHalfLifeDays: number;
+  tradeCountCap: number;      // transactions at which the activity component maxes out
+  riskLevelValues: Record<'LOW' | 'MEDIUM' | 'HIGH', number>;
+}
+
+const weight = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[`SCORE_WEIGHT_${name}`] || '');
+  return isNaN(value) || value < 0 ? fallback : value;
+};
+
+export const SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    balance: weight('BALANCE', 25),
+    realizedPnl: weight('REALIZED_PNL', 25),
+    consistency: weight('CONSISTENCY', 20),
+    recency: weight('RECENCY', 10),
+    tradeCount: weight('TRADE_COUNT', 10),
+    risk: weight('RISK', 10)
+  },
+  balanceFloorUsd: parseFloat(process.env.SCORE_BALANCE_FLOOR_USD || '25000'),
+  balanceCapUsd: parseFloat(process.env.SCORE_BALANCE_CAP_USD || '10000000'),
+  pnlScaleUsd: parseFloat(process.env.SCORE_PNL_SCALE_USD || '100000'),
+  recencyHalfLifeDays: parseFloat(process.env.SCORE_RECENCY_HALF_LIFE_DAYS || '7'),
+  tradeCountCap: parseInt(process.env.SCORE_TRADE_COUNT_CAP || '200'),
+  riskLevelValues: { LOW: 1, MEDIUM: 0.6, HIGH: 0.2 }
+};
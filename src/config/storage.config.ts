@@ -0,0 +1,22 @@
+// src/config/storage.config.ts - PERSISTENCE BACKEND SELECTION
+import * as path from 'path';
+
+export type StorageBackendName = 'json' | 'sqlite';
+
+export interface StorageConfig {
+  backend: string;     // validated when the backend is opened
+  dataDir: string;
+  sqlitePath: string;
+  snapshotDir: string;
+  snapshotCount: number;           // rotating whale snapshots kept on disk
+  snapshotIntervalMinutes: number; // saves closer together than this share a snapshot
+}
+
+export const STORAGE_CONFIG: StorageConfig = {
+  backend: (process.env.STORAGE_BACKEND || 'json').toLowerCase(),
+  dataDir: path.join(process.cwd(), 'data'),
+  sqlitePath: process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'whales.db'),
+  snapshotDir: path.join(process.cwd(), 'data', 'snapshots'),
+  snapshotCount: Math.max(1, parseInt(process.env.WHALE_SNAPSHOT_COUNT || '24')),
+  snapshotIntervalMinutes: parseFloat(process.env.WHALE_SNAPSHOT_INTERVAL_MINUTES || '60')
+};
@@ -0,0 +1,30 @@
+// src/config/tokens.config.ts - KNOWN TOKEN METADATA
+export interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+export const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+
+// Symbols for mints we see often; anything else falls back to a shortened mint
+export const KNOWN_TOKENS: Record<string, TokenMetadata> = {
+  [SOL_MINT]: { symbol: 'SOL', decimals: 9 },
+  [USDC_MINT]: { symbol: 'USDC', decimals: 6 },
+  [USDT_MINT]: { symbol: 'USDT', decimals: 6 },
+  'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN': { symbol: 'JUP', decimals: 6 },
+  'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So': { symbol: 'mSOL', decimals: 9 },
+  'bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1': { symbol: 'bSOL', decimals: 9 },
+  'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn': { symbol: 'JitoSOL', decimals: 9 },
+  '7dHbWXmci3dT8UFYWYZweBLXgycu7Y3iL6trKn1Y7ARj': { symbol: 'stSOL', decimals: 9 },
+  'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263': { symbol: 'BONK', decimals: 5 },
+  'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm': { symbol: 'WIF', decimals: 6 },
+  '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R': { symbol: 'RAY', decimals: 6 },
+  'HZ1JovNiVvGrGNiiYvEozEVgZ58xaU3RKwX8eACQBCt3': { symbol: 'PYTH', decimals: 6 }
+};
+
+export const STABLECOIN_MINTS = [USDC_MINT, USDT_MINT];
+
+// Assets a position is priced against (SOL and stables are "cash", not positions)
+export const QUOTE_MINTS = [SOL_MINT, ...STABLECOIN_MINTS];
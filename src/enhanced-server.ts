@@ -4,9 +4,14 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import rateLimit from 'express-rate-limit';
 import * as schedule from 'node-schedule';
-import { freeWhaleRoutes } from './routes/free-whale.routes';
+import { freeWhaleRoutes, flushStores } from './routes/free-whale.routes';
+import { StreamHub } from './services/streamHub.service';
+import { ApiKeyService } from './services/apiKeys.service';
 import { logger } from './utils/logger';
 import { PerformanceMonitor } from './utils/performance';
+import { Helpers } from './utils/helpers';
+import { CREDIT_BUDGET } from './config/credit-budget.config';
+import { CreditCategory } from './types/whale.types';
 
 dotenv.config();
 
@@ -25,10 +30,12 @@ app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 // Enhanced rate limiting with different tiers for free plan
-const createRateLimiter = (windowMs: number, max: number, message: string) => {
+// Requests with an API key are limited by the key's tier instead of by IP
+const createRateLimiter = (windowMs: number, max: number, message: string, skip?: (req: express.Request) => boolean) => {
   return rateLimit({
     windowMs,
     max,
+    skip: (req, res) => !!res.locals.apiKey || (skip ? skip(req) : false),
     message: {
       success: false,
       message
@@ -46,11 +53,14 @@ const createRateLimiter = (windowMs: number, max: number, message: string) => {
   });
 };
 
+// API keys: scope checks, per-key rate and quota, request log
+app.use('/api', ApiKeyService.getInstance().middleware());
+
 // Free plan friendly rate limits
 app.use('/api/whales', createRateLimiter(60000, 60, 'Too many whale requests - free plan limit')); // 60/minute
 app.use('/api/high-value-wallets', createRateLimiter(60000, 120, 'Too many bot requests')); // 120/minute for bots
 app.use('/api/refresh', createRateLimiter(300000, 5, 'Too many refresh requests - max 5 per 5 minutes')); // 5/5min
-app.use('/api', createRateLimiter(60000, 200, 'Too many API requests - free plan limit')); // 200/minute general
+app.use('/api', createRateLimiter(60000, 200, 'Too many API requests - free plan limit', req => req.path.startsWith('/webhooks/'))); // 200/minute general, Helius pushes exempt
 
 // Performance monitoring middleware
 app.use((req, res, next) => {
@@ -95,6 +105,17 @@ app.get('/', (req, res) => {
       highValue: '/api/high-value-wallets',
       stats: '/api/stats',
       credits: '/api/credits',
+      creditLedger: '/api/credits/ledger',
+      creditEstimate: '/api/credits/estimate',
+      trades: '/api/trades',
+      signals: '/api/signals',
+      labels: '/api/labels',
+      watchlist: '/api/watchlist',
+      snapshots: '/api/snapshots',
+      clusters: '/api/clusters',
+      graph: '/api/graph',
+      subscriptions: '/api/subscriptions',
+      stream: '/api/stream',
       health: '/api/health'
     },
     performance: {
@@ -144,11 +165,53 @@ app.use('*', (req, res) => {
       'GET /api/health',
       'GET /api/whales',
       'GET /api/whales/:address',
+      'GET /api/whales/:address/score',
+      'PATCH /api/whales/:address/labels',
+      'GET /api/labels',
+      'GET /api/quota',
+      'GET /api/keys',
+      'POST /api/keys',
+      'PATCH /api/keys/:id',
+      'DELETE /api/keys/:id',
+      'GET /api/keys/:id/usage',
+      'POST /api/whales/:address/disable',
+      'POST /api/whales/:address/enable',
+      'GET /api/wallet-controls',
+      'GET /api/snapshots',
+      'GET /api/snapshots/diff',
+      'POST /api/snapshots/:id/restore',
+      'GET /api/watchlist',
+      'POST /api/watchlist',
+      'DELETE /api/watchlist/:address',
+      'GET /api/whales/:address/holdings',
+      'GET /api/whales/:address/history',
+      'GET /api/addresses/:address/classification',
       'GET /api/top-performers',
       'GET /api/high-value-wallets',
       'GET /api/stats',
       'GET /api/credits',
-      'POST /api/refresh/:address'
+      'GET /api/credits/ledger',
+      'GET /api/credits/estimate',
+      'GET /api/trades',
+      'GET /api/signals',
+      'GET /api/signals/:id',
+      'GET /api/clusters',
+      'GET /api/clusters/:id',
+      'GET /api/graph',
+      'GET /api/prices/:mint/history',
+      'POST /api/prices/:mint/import',
+      'POST /api/refresh/:address',
+      'POST /api/webhooks/helius',
+      'GET /api/stream',
+      'WS /api/stream/ws',
+      'GET /api/subscriptions',
+      'POST /api/subscriptions',
+      'GET /api/subscriptions/:id',
+      'PATCH /api/subscriptions/:id',
+      'DELETE /api/subscriptions/:id',
+      'GET /api/subscriptions/:id/deliveries',
+      'GET /api/subscriptions/dead-letters',
+      'POST /api/subscriptions/dead-letters/:id/retry'
     ],
     plan: 'FREE',
     documentation: 'https://github.com/your-repo/free-whale-tracker#api-documentation'
@@ -159,6 +222,10 @@ app.use('*', (req, res) => {
 const gracefulShutdown = (signal: string) => {
   logger.info(`${signal} received, shutting down gracefully...`);
   
+  // Today's per-key quota usage and everything buffered for the periodic flush must outlive the restart
+  ApiKeyService.getInstance().flush();
+  flushStores();
+  
   // Stop accepting new requests
   const server = app.listen(PORT);
   server.close(() => {
@@ -188,14 +255,18 @@ const server = app.listen(PORT, () => {
   console.log(`   📊 Track up to ${process.env.MAX_WALLETS_TO_TRACK || 200} high-quality whales`);
   console.log(`   ⏰ Smart 6-hour refresh cycles (credit optimized)`);
   console.log(`   💾 Aggressive caching (75%+ hit rate)`);
-  console.log(`   💳 10M credits/month budget management`);
+  console.log(`   💳 ${Helpers.formatNumber(CREDIT_BUDGET.monthlyCredits)} credits/month budget management`);
   console.log(`   🎯 Quality-focused whale discovery`);
   console.log('');
   console.log('📈 Credit Budget:');
-  console.log(`   🔍 Discovery: 1M credits (10%)`);
-  console.log(`   📊 Tracking: 7M credits (70%)`);
-  console.log(`   📡 API: 1M credits (10%)`);
-  console.log(`   🛡️ Buffer: 1M credits (10%)`);
+  const budgetLine = (category: CreditCategory): string => {
+    const share = CREDIT_BUDGET.shares[category];
+    return `${Helpers.formatNumber(CREDIT_BUDGET.monthlyCredits * share)} credits (${(share * 100).toFixed(0)}%)`;
+  };
+  console.log(`   🔍 Discovery: ${budgetLine('DISCOVERY')}`);
+  console.log(`   📊 Tracking: ${budgetLine('TRACKING')}`);
+  console.log(`   📡 API: ${budgetLine('API')}`);
+  console.log(`   🛡️ Buffer: ${budgetLine('BUFFER')}`);
   console.log('');
   console.log('🚀 Quick Test:');
   const baseUrl = PORT === 80 ? 'http://localhost' : `http://localhost:${PORT}`;
@@ -205,6 +276,12 @@ const server = app.listen(PORT, () => {
   console.log('═'.repeat(80));
 });
 
+// Optional WebSocket flavour of /api/stream
+if (process.env.STREAM_WEBSOCKET_ENABLED !== 'false') {
+  const apiKeys = ApiKeyService.getInstance();
+  StreamHub.getInstance().attachWebSocket(server, '/api/stream/ws', request => apiKeys.authorizeUpgrade(request));
+}
+
 // Handle server errors
 server.on('error', (error: any) => {
   if (error.code === 'EADDRINUSE') {
@@ -1,28 +1,83 @@
 // src/routes/free-whale.routes.ts - CORRECTED VERSION WITH PROPER EXPORTS
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, text } from 'express';
 import { HeliusFreeService } from '../services/heliusFreeService';
+import { PriceOracle } from '../services/priceOracle.service';
+import { PriceHistoryService } from '../services/priceHistory.service';
+import { SignalEngine } from '../services/signalEngine.service';
+import { HeliusWebhookService } from '../services/heliusWebhook.service';
+import { AlertSubscriptionService } from '../services/alertSubscriptions.service';
+import { StreamHub } from '../services/streamHub.service';
+import { RiskAnalyticsService } from '../services/riskAnalytics.service';
+import { WalletClusteringService } from '../services/walletClustering.service';
+import { WhaleDiscoveryService } from '../services/whaleDiscovery.service';
+import { InteractionGraphService } from '../services/interactionGraph.service';
+import { ApiKeyService, ApiKeyRecord } from '../services/apiKeys.service';
+import { AddressClassifier } from '../services/addressClassifier.service';
 import { WhaleStorage } from '../utils/storage';
-import { WhaleWallet } from '../types/whale.types';
+import { createStorageBackend } from '../utils/storage-backend';
+import { WhaleSnapshotStorage, WhaleSnapshot } from '../utils/snapshot-storage';
+import { WalletHistoryStorage, HistoryResolution } from '../utils/history-storage';
+import { TradeStorage } from '../utils/trade-storage';
+import { WalletLabelStorage } from '../utils/label-storage';
+import { WatchlistStorage } from '../utils/watchlist-storage';
+import { WalletControlStorage } from '../utils/wallet-control-storage';
+import { CreditLedger, CreditForecast, LEDGER_GROUP_BY, LEDGER_PERIODS, LedgerGroupBy, LedgerPeriod } from '../utils/credit-ledger';
+import { WhaleWallet, TradeSide, SwapTrade, SignalDirection, Subscription, RiskMetrics, CreditCategory } from '../types/whale.types';
 import { logger } from '../utils/logger';
 import { Helpers } from '../utils/helpers';
+import { Provenance } from '../utils/provenance';
+import { WhaleScoring } from '../utils/scoring';
+import { SCORING_CONFIG } from '../config/scoring.config';
+import { CREDIT_CATEGORIES } from '../config/credit-budget.config';
+import { HELIUS_METHOD_COSTS } from '../config/helius-costs.config';
+import { STORAGE_CONFIG } from '../config/storage.config';
+import { GraphExport, ExportNode } from '../utils/graph-export';
+import { TabularExport, ExportFormat, EXPORT_FORMATS, EXPORT_CONTENT_TYPES } from '../utils/tabular-export';
+import { OutboundUrl } from '../utils/outbound-url';
 
 const router = Router();
 
 let heliusService: HeliusFreeService;
-const storage = new WhaleStorage();
+let webhookService: HeliusWebhookService;
+const storageBackend = createStorageBackend();
+const snapshotStorage = new WhaleSnapshotStorage();
+const storage = new WhaleStorage(storageBackend, snapshotStorage);
+const historyStorage = new WalletHistoryStorage(storageBackend);
+const tradeStorage = new TradeStorage(storageBackend);
+const labelStorage = new WalletLabelStorage(storageBackend);
+const watchlist = new WatchlistStorage();
+const walletControls = new WalletControlStorage();
+const creditLedger = new CreditLedger(storageBackend);
+const addressClassifier = new AddressClassifier();
+const discoveryService = new WhaleDiscoveryService(addressClassifier);
+const clusterService = new WalletClusteringService(discoveryService);
+const graphService = new InteractionGraphService(discoveryService);
+const signalEngine = new SignalEngine(tradeStorage, address => clusterService.clusterOf(address)?.id || null);
+const alertService = new AlertSubscriptionService();
+const streamHub = StreamHub.getInstance();
+const riskAnalytics = new RiskAnalyticsService(tradeStorage, historyStorage);
+const apiKeys = ApiKeyService.getInstance();
 
 // Tracked wallets with smart caching
 let trackedWallets: Map<string, WhaleWallet> = new Map();
 let lastFullUpdate = new Date(0);
 let isTracking = false;
 
+// Trades stored during a cycle; signals are evaluated once the tracked set is updated
+let pendingTrades: SwapTrade[] = [];
+
+// Wallets touched by webhook deliveries, re-analyzed together after a quiet period
+const webhookRefreshQueue = new Set<string>();
+let webhookRefreshTimer: NodeJS.Timeout | null = null;
+
 // Configuration for free plan
 const FREE_PLAN_CONFIG = {
   MAX_WALLETS: parseInt(process.env.MAX_WALLETS_TO_TRACK || '200'),
   REFRESH_INTERVAL: parseInt(process.env.WHALE_REFRESH_INTERVAL || '21600000'), // 6 hours
   BATCH_SIZE: parseInt(process.env.BATCH_SIZE || '20'),
   MIN_BALANCE: parseInt(process.env.MIN_BALANCE_USD || '25000'),
-  MIN_WIN_RATE: parseInt(process.env.MIN_WIN_RATE || '40')
+  MIN_WIN_RATE: parseInt(process.env.MIN_WIN_RATE || '40'),
+  WEBHOOK_REFRESH_DEBOUNCE: parseInt(process.env.WEBHOOK_REFRESH_DEBOUNCE_MS || '30000')
 };
 
 // Initialize service
@@ -32,14 +87,22 @@ const initializeService = async (): Promise<void> => {
     throw new Error('HELIUS_API_KEY required for free plan');
   }
   
-  heliusService = new HeliusFreeService(apiKey);
+  heliusService = new HeliusFreeService(apiKey, creditLedger);
+  heliusService.onTrades(trades => {
+    const added = tradeStorage.addTrades(trades);
+    pendingTrades.push(...added);
+    // A newly discovered wallet's back history is not news
+    const live = added.filter(trade => trackedWallets.has(trade.wallet));
+    alertService.publish(alertService.tradeEvents(live));
+    live.forEach(trade => streamHub.publish('trade', ['trades', StreamHub.addressTopic(trade.wallet)], trade));
+  });
+  heliusService.onWalletRejected(dropTrackedWallet);
+  heliusService.setManualWallets(watchlist.getAddresses());
+  webhookService = new HeliusWebhookService(apiKey, creditLedger);
   logger.success('🆓 Free plan service initialized');
   
   // Load existing whales to reduce initial API calls
-  const savedWhales = storage.loadWhales();
-  savedWhales.forEach(whale => {
-    trackedWallets.set(whale.address, whale);
-  });
+  loadTrackedWallets(storage.loadWhales());
   
   logger.info(`📋 Loaded ${trackedWallets.size} cached whales`);
   
@@ -61,11 +124,10 @@ const startSmartTracking = async (): Promise<void> => {
         return;
       }
 
-      const creditUsage = heliusService.getCreditUsage();
-      
-      // Check if we have enough credits for full update
-      if (creditUsage.remaining < 50000) {
-        logger.warn('🚫 Low credits, skipping update');
+      // Check the tracking budget still covers at least one batch
+      if (!heliusService.hasBudget('TRACKING', FREE_PLAN_CONFIG.BATCH_SIZE * HeliusFreeService.CREDITS_PER_WALLET)) {
+        logger.warn('🚫 Tracking credit budget spent, skipping update');
+        checkCreditWarnings();
         scheduleNextUpdate(3600000); // Try again in 1 hour
         return;
       }
@@ -84,18 +146,37 @@ const startSmartTracking = async (): Promise<void> => {
         walletAddresses = Array.from(trackedWallets.keys());
       }
       
+      // Programs, PDAs and exchange wallets never reach the analyzer; watchlist wallets always do
+      const { allowed, excluded } = await addressClassifier.filterAllowed([...watchlist.getAddresses(), ...walletAddresses]);
+      excluded.forEach(({ address, accountType }) => dropTrackedWallet(address, `Not a personal wallet (${accountType})`));
+      walletAddresses = [...new Set([...watchlist.getAddresses(), ...allowed])];
+      
       // Track wallets with credit management
       const results = await heliusService.trackWalletsOptimized(walletAddresses);
       
       // Update tracked wallets
       let updatedCount = 0;
       results.forEach((whale, address) => {
-        trackedWallets.set(address, whale);
+        updateTrackedWallet(address, whale);
         updatedCount++;
       });
       
       // Save to storage
       storage.saveWhales(Array.from(trackedWallets.values()));
+      historyStorage.recordSnapshots(Array.from(trackedWallets.values()));
+      tradeStorage.flush();
+      processPendingTrades();
+      checkCreditWarnings();
+      
+      // Regroup wallets by owner in the background (public RPC, no credits)
+      clusterService.refresh(trackedWallets).catch(error => {
+        logger.error('Wallet clustering failed:', error);
+      });
+      
+      // Keep the push subscription in line with the tracked set
+      webhookService.syncAddresses(Array.from(trackedWallets.keys())).catch(error => {
+        logger.error('Webhook address sync failed:', error);
+      });
       
       lastFullUpdate = new Date();
       const duration = Date.now() - startTime;
@@ -119,6 +200,162 @@ const startSmartTracking = async (): Promise<void> => {
   setTimeout(trackingLoop, 5000);
 };
 
+// Replaces the tracked set with saved whales, e.g. on startup or a snapshot restore
+const loadTrackedWallets = (whales: WhaleWallet[]): void => {
+  trackedWallets.clear();
+  whales.forEach(whale => {
+    // Rescored on load so weight changes apply without waiting for a refresh
+    whale.score = WhaleScoring.score(whale);
+    applyWalletControl(whale);
+    trackedWallets.set(whale.address, whale);
+  });
+};
+
+// Every analyzed wallet goes through here so subscribers see what changed
+const updateTrackedWallet = (address: string, whale: WhaleWallet): void => {
+  const previous = trackedWallets.get(address);
+  whale.accountType = addressClassifier.get(address)?.accountType ?? whale.accountType;
+  whale.riskMetrics = riskAnalytics.analyze(whale);
+  whale.riskLevel = riskAnalytics.riskLevelFor(whale, whale.riskMetrics);
+  whale.score = WhaleScoring.score(whale);
+  applyWalletControl(whale);
+  trackedWallets.set(address, whale);
+  
+  // Cache hits hand back the same object - nothing changed
+  if (previous === whale) return;
+  
+  const events = alertService.walletEvents(previous, whale);
+  alertService.publish(events);
+  
+  const topics = ['whales', StreamHub.addressTopic(address)];
+  streamHub.publish(previous ? 'whale.updated' : 'whale.discovered', topics, labelStorage.apply(whale));
+  events
+    .filter(event => event.type === 'CATEGORY_CHANGED')
+    .forEach(event => streamHub.publish('category.changed', ['categories', ...topics], { address, ...event.data }));
+};
+
+// Operator disables outlive the refresh that rebuilt the wallet object
+const applyWalletControl = (whale: WhaleWallet): void => {
+  const control = walletControls.get(whale.address);
+  whale.enabled = !control;
+  if (control) {
+    whale.disabled = control;
+  } else {
+    delete whale.disabled;
+  }
+};
+
+// Re-applies a wallet's enabled flag after an operator change and tells stream clients
+const publishWalletControl = (address: string): WhaleWallet | null => {
+  const whale = trackedWallets.get(address);
+  if (!whale) return null;
+  
+  applyWalletControl(whale);
+  storage.saveWhales(Array.from(trackedWallets.values()));
+  streamHub.publish('whale.updated', ['whales', StreamHub.addressTopic(address)], labelStorage.apply(whale));
+  return whale;
+};
+
+walletControls.onExpired(control => {
+  logger.info(`⏰ Disable expired for ${control.address}`);
+  publishWalletControl(control.address);
+});
+
+// Who made a change: the API key, else the caller's IP; an X-Operator name is unverified, so it never replaces the IP
+const requestActor = (req: Request, res: Response): string => {
+  const key: ApiKeyRecord | undefined = res.locals.apiKey;
+  if (key) return `key:${key.name}`;
+  
+  const operator = req.headers['x-operator'];
+  return typeof operator === 'string' && operator.trim() ? `${operator.trim().substring(0, 100)} (ip:${req.ip})` : `ip:${req.ip}`;
+};
+
+// Watchlist wallets are never evicted
+const dropTrackedWallet = (address: string, reason: string): void => {
+  const whale = trackedWallets.get(address);
+  if (!whale || watchlist.has(address)) return;
+  
+  trackedWallets.delete(address);
+  alertService.publish([alertService.droppedEvent(whale, reason)]);
+  streamHub.publish('whale.dropped', ['whales', StreamHub.addressTopic(address)], { address, reason });
+  logger.info(`📉 Dropped ${address}: ${reason}`);
+};
+
+// Stream clients on the `credits` topic hear about it when a budget is running low
+const checkCreditWarnings = (): void => {
+  const usage = heliusService.getCreditUsage();
+  const dailyRemaining = heliusService.getDailyRemainingCredits();
+  
+  if (usage.remaining >= 50000 && dailyRemaining >= 50000) return;
+  
+  streamHub.publish('credits.warning', ['credits'], {
+    remaining: usage.remaining,
+    dailyRemaining,
+    used: usage.used,
+    resetDate: usage.resetDate,
+    message: usage.remaining < 50000 ? 'Monthly credits low - tracking paused' : 'Daily credits low - refresh interval extended'
+  });
+};
+
+const processPendingTrades = (): void => {
+  const trades = pendingTrades;
+  pendingTrades = [];
+  
+  if (trades.length > 0) {
+    signalEngine.processTrades(trades, trackedWallets);
+  }
+};
+
+// Push-updated wallets are re-analyzed in one batch once deliveries settle
+const scheduleWebhookRefresh = (address: string): void => {
+  webhookRefreshQueue.add(address);
+  if (webhookRefreshTimer) return;
+  
+  webhookRefreshTimer = setTimeout(async () => {
+    webhookRefreshTimer = null;
+    const addresses = Array.from(webhookRefreshQueue);
+    webhookRefreshQueue.clear();
+    
+    try {
+      const results = await refreshWallets(addresses, 'TRACKING');
+      logger.info(`🔔 Webhook refresh updated ${results.size}/${addresses.length} wallets`);
+    } catch (error) {
+      logger.error('❌ Webhook refresh failed:', error);
+    }
+  }, FREE_PLAN_CONFIG.WEBHOOK_REFRESH_DEBOUNCE);
+};
+
+// A pushed transaction newer than the wallet's last activity moves it forward
+const recordWebhookActivity = (address: string, transactions: any[]): void => {
+  const whale = trackedWallets.get(address);
+  const latest = Math.max(...transactions.map(tx => tx.timestamp || 0));
+  if (!whale || latest <= 0 || latest * 1000 <= new Date(whale.stats.lastActiveDate).getTime()) return;
+  
+  updateTrackedWallet(address, {
+    ...whale,
+    stats: {
+      ...whale.stats,
+      lastActiveDate: new Date(latest * 1000).toISOString(),
+      provenance: { ...whale.stats.provenance, lastActiveDate: Provenance.measured() }
+    }
+  });
+};
+
+// Re-analyzes a handful of wallets outside the regular cycle
+const refreshWallets = async (addresses: string[], category: CreditCategory): Promise<Map<string, WhaleWallet>> => {
+  const results = await heliusService.trackWalletsOptimized(addresses, category);
+  results.forEach((whale, address) => {
+    updateTrackedWallet(address, whale);
+  });
+  
+  storage.saveWhales(Array.from(trackedWallets.values()));
+  historyStorage.recordSnapshots(Array.from(results.values()));
+  tradeStorage.flush();
+  processPendingTrades();
+  
+  return results;
+};
+
 const shouldRediscover = (): boolean => {
   const hoursSinceUpdate = (Date.now() - lastFullUpdate.getTime()) / (1000 * 60 * 60);
   return hoursSinceUpdate > 24; // Rediscover once daily max
@@ -180,16 +417,41 @@ router.get('/health', (req: Request, res: Response): void => {
       resetDate: creditUsage.resetDate
     } : null,
     optimization: optimizationStats,
+    prices: PriceOracle.getInstance().getStatus(),
+    webhooks: webhookService?.getStatus() || null,
+    stream: streamHub.getStatus(),
+    addressTypes: addressClassifier.getStats(),
+    apiKeys: { mode: apiKeys.mode },
+    storage: storage.getStats(),
     plan: 'FREE',
     config: FREE_PLAN_CONFIG
   });
 });
 
-// Get whales (cached responses)
-router.get('/whales', (req: Request, res: Response): void => {
-  const { category, minBalance, minWinRate, limit, sortBy = 'balance' } = req.query;
+// Risk metric filters on /whales; a wallet without enough history for a metric never passes its filter
+const RISK_FILTERS: Array<[string, keyof RiskMetrics, 'min' | 'max']> = [
+  ['maxDrawdown', 'maxDrawdownPercent', 'max'],
+  ['maxVolatility', 'pnlVolatility', 'max'],
+  ['minSharpe', 'sharpeRatio', 'min'],
+  ['minSortino', 'sortinoRatio', 'min'],
+  ['maxLosingStreak', 'longestLosingStreak', 'max'],
+  ['maxPositionSize', 'avgPositionSizePercent', 'max'],
+  ['maxHhi', 'holdingsHhi', 'max']
+];
+
+// Filters shared by /whales and the other wallet lists; `error` names the first bad parameter
+const filterWallets = (
+  wallets: WhaleWallet[],
+  query: Request['query'],
+  defaultSort: string
+): { wallets: WhaleWallet[]; filters: Record<string, any>; error: string | null } => {
+  const { category, riskLevel, accountType, source, enabled, minBalance, minWinRate, measuredOnly, sortBy = defaultSort } = query;
+  const filters = {
+    category, riskLevel, accountType, source, enabled, minBalance, minWinRate, measuredOnly, sortBy,
+    ...Object.fromEntries(RISK_FILTERS.filter(([param]) => query[param] !== undefined).map(([param]) => [param, query[param]]))
+  };
   
-  let filteredWallets = Array.from(trackedWallets.values());
+  let filteredWallets = wallets;
   
   // Apply filters
   if (category) {
@@ -204,6 +466,41 @@ router.get('/whales', (req: Request, res: Response): void => {
     filteredWallets = filteredWallets.filter(w => w.stats.winRate >= Number(minWinRate));
   }
   
+  if (measuredOnly === 'true') {
+    filteredWallets = filteredWallets.filter(w => Provenance.hasMeasuredStats(w.stats));
+  }
+  
+  if (riskLevel) {
+    filteredWallets = filteredWallets.filter(w => w.riskLevel === riskLevel);
+  }
+  
+  if (accountType) {
+    filteredWallets = filteredWallets.filter(w => w.accountType === accountType);
+  }
+  
+  if (source) {
+    filteredWallets = filteredWallets.filter(w => w.source === source);
+  }
+  
+  if (enabled === 'true' || enabled === 'false') {
+    filteredWallets = filteredWallets.filter(w => w.enabled === (enabled === 'true'));
+  }
+  
+  for (const [param, metric, bound] of RISK_FILTERS) {
+    if (query[param] === undefined) continue;
+    
+    const threshold = Number(query[param]);
+    if (isNaN(threshold)) {
+      return { wallets: [], filters, error: `${param} must be a number` };
+    }
+    
+    filteredWallets = filteredWallets.filter(w => {
+      const value = w.riskMetrics?.[metric];
+      if (typeof value !== 'number') return false;
+      return bound === 'min' ? value >= threshold : value <= threshold;
+    });
+  }
+  
   // Sort wallets
   switch (sortBy) {
     case 'balance':
@@ -217,20 +514,108 @@ router.get('/whales', (req: Request, res: Response): void => {
         new Date(b.stats.lastActiveDate).getTime() - new Date(a.stats.lastActiveDate).getTime()
       );
       break;
+    case 'score':
+      filteredWallets.sort((a, b) => (b.score?.total ?? 0) - (a.score?.total ?? 0));
+      break;
+  }
+  
+  return { wallets: filteredWallets, filters, error: null };
+};
+
+// `format=` wins over the Accept header; null for a format we don't produce
+const exportFormat = (req: Request): ExportFormat | null => {
+  if (req.query.format !== undefined) {
+    return EXPORT_FORMATS.find(format => format === req.query.format) || null;
+  }
+  
+  const accepted = req.accepts(EXPORT_FORMATS.map(format => EXPORT_CONTENT_TYPES[format]));
+  return EXPORT_FORMATS.find(format => EXPORT_CONTENT_TYPES[format] === accepted) || 'json';
+};
+
+// Streams rows as CSV or NDJSON with nested fields flattened; `columns=` picks and orders the columns
+const sendExport = async (req: Request, res: Response, format: Exclude<ExportFormat, 'json'>, name: string, rows: object[]): Promise<void> => {
+  const flatRows = rows.map(row => TabularExport.flatten(row));
+  let columns = TabularExport.columnsOf(flatRows);
+  
+  if (typeof req.query.columns === 'string' && req.query.columns.trim()) {
+    const requested = req.query.columns.split(',').map(column => column.trim()).filter(Boolean);
+    const picked = TabularExport.pickColumns(columns, requested);
+    
+    // With no rows there is nothing to check the names against
+    if (flatRows.length > 0 && picked.unknown.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Unknown columns: ${picked.unknown.join(', ')}`,
+        availableColumns: columns
+      });
+      return;
+    }
+    columns = flatRows.length > 0 ? picked.columns : requested;
   }
   
+  res.setHeader('Content-Type', `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+  res.setHeader('Content-Disposition', `attachment; filename="${name}-${new Date().toISOString().substring(0, 10)}.${format}"`);
+  
+  for (const chunk of TabularExport.lines(format, flatRows, columns)) {
+    if (res.destroyed) return;
+    
+    if (!res.write(chunk)) {
+      await new Promise<void>(resolve => {
+        const resume = (): void => {
+          res.off('drain', resume);
+          res.off('close', resume);
+          resolve();
+        };
+        res.on('drain', resume);
+        res.on('close', resume);
+      });
+    }
+  }
+  
+  res.end();
+};
+
+// Get whales (cached responses)
+router.get('/whales', async (req: Request, res: Response): Promise<void> => {
+  const format = exportFormat(req);
+  if (!format) {
+    res.status(400).json({
+      success: false,
+      message: 'format must be json, csv or ndjson'
+    });
+    return;
+  }
+  
+  const { limit } = req.query;
+  const { wallets, filters, error } = filterWallets(Array.from(trackedWallets.values()), req.query, 'balance');
+  
+  if (error) {
+    res.status(400).json({
+      success: false,
+      message: error
+    });
+    return;
+  }
+  
+  let filteredWallets = wallets;
+  
   // Apply limit
   if (limit) {
     filteredWallets = filteredWallets.slice(0, Number(limit));
   }
   
+  if (format !== 'json') {
+    await sendExport(req, res, format, 'whales', filteredWallets.map(w => labelStorage.apply(w)));
+    return;
+  }
+  
   res.json({
     success: true,
     count: filteredWallets.length,
     totalCount: trackedWallets.size,
     lastUpdated: lastFullUpdate.toISOString(),
-    filters: { category, minBalance, minWinRate, limit, sortBy },
-    wallets: filteredWallets,
+    filters: { ...filters, limit },
+    wallets: filteredWallets.map(w => labelStorage.apply(w)),
     plan: 'FREE',
     credits: heliusService?.getCreditUsage(),
     cacheInfo: {
@@ -241,26 +626,57 @@ router.get('/whales', (req: Request, res: Response): void => {
 });
 
 // Get top performers (cached)
-router.get('/top-performers', (req: Request, res: Response): void => {
-  const topPerformers = Array.from(trackedWallets.values())
-    .filter(w => w.stats.winRate >= 60 && w.balance.totalBalanceUsd >= 50000)
-    .sort((a, b) => b.stats.winRate - a.stats.winRate)
+router.get('/top-performers', async (req: Request, res: Response): Promise<void> => {
+  const format = exportFormat(req);
+  if (!format) {
+    res.status(400).json({
+      success: false,
+      message: 'format must be json, csv or ndjson'
+    });
+    return;
+  }
+  
+  const { wallets, filters, error } = filterWallets(
+    Array.from(trackedWallets.values()).filter(w => w.stats.winRate >= 60 && w.balance.totalBalanceUsd >= 50000),
+    req.query,
+    'winRate'
+  );
+  
+  if (error) {
+    res.status(400).json({
+      success: false,
+      message: error
+    });
+    return;
+  }
+  
+  const topPerformers = wallets
     .slice(0, 30) // Reduced for free plan
+    .map(w => labelStorage.apply(w))
     .map(w => ({
       address: w.address,
       name: w.name,
       winRate: w.stats.winRate,
+      realizedPnl: w.stats.realizedPnl,
+      closedTrades: w.stats.closedTrades,
       balance: w.balance.totalBalanceUsd,
       category: w.category,
       riskLevel: w.riskLevel,
       lastActive: w.stats.lastActiveDate,
-      tags: w.tags
+      tags: w.tags,
+      ownerEntity: w.labels?.ownerEntity ?? null
     }));
   
+  if (format !== 'json') {
+    await sendExport(req, res, format, 'top-performers', topPerformers);
+    return;
+  }
+  
   res.json({
     success: true,
     count: topPerformers.length,
     lastUpdated: lastFullUpdate.toISOString(),
+    filters,
     performers: topPerformers,
     plan: 'FREE',
     credits: heliusService?.getCreditUsage()
@@ -268,15 +684,38 @@ router.get('/top-performers', (req: Request, res: Response): void => {
 });
 
 // High-value wallets for bot (optimized for free plan)
-router.get('/high-value-wallets', (req: Request, res: Response): void => {
-  const highValueWallets = Array.from(trackedWallets.values())
-    .filter(w => 
+router.get('/high-value-wallets', async (req: Request, res: Response): Promise<void> => {
+  const format = exportFormat(req);
+  if (!format) {
+    res.status(400).json({
+      success: false,
+      message: 'format must be json, csv or ndjson'
+    });
+    return;
+  }
+  
+  const measuredOnly = req.query.measuredOnly === 'true';
+  const { wallets, filters, error } = filterWallets(
+    Array.from(trackedWallets.values()).filter(w => 
       w.balance.totalBalanceUsd >= FREE_PLAN_CONFIG.MIN_BALANCE && 
       w.stats.winRate >= FREE_PLAN_CONFIG.MIN_WIN_RATE &&
       w.enabled
-    )
-    .sort((a, b) => b.balance.totalBalanceUsd - a.balance.totalBalanceUsd)
+    ),
+    req.query,
+    'balance'
+  );
+  
+  if (error) {
+    res.status(400).json({
+      success: false,
+      message: error
+    });
+    return;
+  }
+  
+  const highValueWallets = wallets
     .slice(0, 100) // Limit for free plan
+    .map(w => labelStorage.apply(w))
     .map(w => ({
       address: w.address,
       name: w.name,
@@ -286,17 +725,25 @@ router.get('/high-value-wallets', (req: Request, res: Response): void => {
       category: w.category,
       balanceUsd: w.balance.totalBalanceUsd,
       winRateNum: w.stats.winRate,
+      winRateSource: w.stats.provenance?.winRate,
       lastActive: w.stats.lastActiveDate,
       riskLevel: w.riskLevel,
       tags: [...w.tags, 'FREE_PLAN'],
+      ownerEntity: w.labels?.ownerEntity ?? null,
       source: 'HELIUS_FREE'
     }));
   
+  if (format !== 'json') {
+    await sendExport(req, res, format, 'high-value-wallets', highValueWallets);
+    return;
+  }
+  
   res.json({
     success: true,
     count: highValueWallets.length,
     lastUpdated: lastFullUpdate.toISOString(),
     manualWallets: highValueWallets,
+    filters: { ...filters, measuredOnly },
     plan: 'FREE',
     credits: heliusService?.getCreditUsage(),
     tracking: {
@@ -328,15 +775,15 @@ router.post('/refresh/:address', async (req: Request, res: Response): Promise<vo
     return;
   }
   
-  // Check credits before manual refresh
-  const remainingCredits = heliusService.getRemainingCredits();
-  if (remainingCredits < 100) {
+  // Manual refreshes are charged to the API budget
+  if (!heliusService.hasBudget('API', HeliusFreeService.CREDITS_PER_WALLET)) {
     res.status(429).json({
       success: false,
-      message: 'Insufficient credits for manual refresh',
+      message: 'Insufficient API credits for manual refresh',
       credits: {
-        remaining: remainingCredits,
-        required: 100
+        category: 'API',
+        remaining: heliusService.getCategoryRemainingCredits('API'),
+        required: HeliusFreeService.CREDITS_PER_WALLET
       }
     });
     return;
@@ -344,18 +791,22 @@ router.post('/refresh/:address', async (req: Request, res: Response): Promise<vo
 
   try {
     const startTime = Date.now();
-    const results = await heliusService.trackWalletsOptimized([address]);
+    // An explicit refresh is honored whatever the address is; the type is still recorded
+    await addressClassifier.classify(address);
+    const results = await heliusService.trackWalletsOptimized([address], 'API');
     const whale = results.get(address);
     
     if (whale) {
-      trackedWallets.set(address, whale);
+      updateTrackedWallet(address, whale);
+      historyStorage.recordSnapshots([whale]);
+      processPendingTrades();
       
       const duration = Date.now() - startTime;
       
       res.json({
         success: true,
         message: `Wallet refreshed in ${duration}ms`,
-        whale,
+        whale: labelStorage.apply(whale),
         credits: heliusService.getCreditUsage()
       });
     } else {
@@ -388,52 +839,144 @@ router.get('/credits', (req: Request, res: Response): void => {
     return;
   }
   
-  const creditUsage = heliusService.getCreditUsage();
+  const usage = creditLedger.getUsage();
+  const forecast = creditLedger.forecast();
   const optimizationStats = heliusService.getOptimizationStats();
   
-  const monthlyUsageRate = creditUsage.used / 10000000;
-  const dailyUsageRate = creditUsage.dailyUsed / 333333;
+  const monthlyUsageRate = usage.monthly.used / usage.monthly.budget;
+  const dailyUsageRate = usage.daily.used / usage.daily.budget;
   
   res.json({
     success: true,
     credits: {
       monthly: {
-        used: creditUsage.used,
-        remaining: creditUsage.remaining,
-        total: 10000000,
+        used: usage.monthly.used,
+        remaining: usage.monthly.remaining,
+        total: usage.monthly.budget,
         usagePercentage: monthlyUsageRate * 100
       },
       daily: {
-        used: creditUsage.dailyUsed,
-        remaining: heliusService.getDailyRemainingCredits(),
-        total: 333333,
-        usagePercentage: dailyUsageRate * 100
+        used: usage.daily.used,
+        remaining: usage.daily.remaining,
+        total: usage.daily.budget,
+        usagePercentage: dailyUsageRate * 100,
+        resetDate: usage.daily.resetDate
       },
-      resetDate: creditUsage.resetDate
+      resetDate: usage.monthly.resetDate,
+      categories: usage.categories
     },
+    forecast,
     optimization: optimizationStats,
-    recommendations: generateCreditRecommendations(monthlyUsageRate, dailyUsageRate, creditUsage.remaining)
+    recommendations: generateCreditRecommendations(forecast)
+  });
+});
+
+// Dry run: what refreshing these wallets would cost (defaults to the tracked set and watchlist)
+router.get('/credits/estimate', (req: Request, res: Response): void => {
+  if (!heliusService) {
+    res.status(503).json({
+      success: false,
+      message: 'Service not initialized'
+    });
+    return;
+  }
+  
+  const category = ((req.query.category as string) || 'TRACKING').toUpperCase() as CreditCategory;
+  if (!CREDIT_CATEGORIES.includes(category)) {
+    res.status(400).json({
+      success: false,
+      message: `category must be one of ${CREDIT_CATEGORIES.join(', ')}`
+    });
+    return;
+  }
+  
+  let target: string[] | number;
+  if (req.query.addresses) {
+    target = [...new Set((req.query.addresses as string).split(',').map(address => address.trim()).filter(Boolean))];
+    const invalid = target.filter(address => !Helpers.isValidSolanaAddress(address));
+    if (invalid.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid Solana wallet address: ${invalid.slice(0, 5).join(', ')}`
+      });
+      return;
+    }
+  } else if (req.query.count !== undefined) {
+    target = Number(req.query.count);
+    if (!Number.isInteger(target) || target < 1 || target > 10000) {
+      res.status(400).json({
+        success: false,
+        message: 'count must be an integer from 1 to 10000'
+      });
+      return;
+    }
+  } else {
+    target = [...new Set([...watchlist.getAddresses(), ...trackedWallets.keys()])];
+  }
+  
+  res.json({
+    success: true,
+    estimate: heliusService.estimateRefresh(target, category),
+    costs: HELIUS_METHOD_COSTS
+  });
+});
+
+// Grouped totals from the persistent credit ledger
+router.get('/credits/ledger', (req: Request, res: Response): void => {
+  const groupBy = (req.query.groupBy as string) || 'category';
+  const period = (req.query.period as string) || 'month';
+  const category = (req.query.category as string | undefined)?.toUpperCase();
+  const limit = parseInt(req.query.limit as string) || 100;
+  
+  if (!LEDGER_GROUP_BY.includes(groupBy as LedgerGroupBy) || !LEDGER_PERIODS.includes(period as LedgerPeriod)) {
+    res.status(400).json({
+      success: false,
+      message: `groupBy must be one of ${LEDGER_GROUP_BY.join(', ')}; period one of ${LEDGER_PERIODS.join(', ')}`
+    });
+    return;
+  }
+  
+  if (category && !CREDIT_CATEGORIES.includes(category as CreditCategory)) {
+    res.status(400).json({
+      success: false,
+      message: `category must be one of ${CREDIT_CATEGORIES.join(', ')}`
+    });
+    return;
+  }
+  
+  const summary = creditLedger.summarize(groupBy as LedgerGroupBy, period as LedgerPeriod, category as CreditCategory | undefined);
+  
+  res.json({
+    success: true,
+    ...summary,
+    groupCount: summary.groups.length,
+    groups: summary.groups.slice(0, Math.min(limit, 1000))
   });
 });
 
-// Generate credit usage recommendations
-const generateCreditRecommendations = (monthlyRate: number, dailyRate: number, remaining: number): string[] => {
+// Generate credit usage recommendations from the projected exhaustion dates
+const generateCreditRecommendations = (forecast: CreditForecast): string[] => {
   const recommendations: string[] = [];
+  const day = (iso: string | null): string => (iso || '').slice(0, 10);
   
-  if (monthlyRate > 0.8) {
-    recommendations.push('⚠️ High monthly usage - consider reducing tracking frequency');
+  if (forecast.exhaustsBeforeReset) {
+    recommendations.push(`⚠️ At ${forecast.burnRatePerDay} credits/day the monthly allowance runs out on ${day(forecast.exhaustionDate)}, before the ${day(forecast.resetDate)} reset - reduce tracking frequency or wallet count`);
   }
   
-  if (dailyRate > 0.7) {
-    recommendations.push('🚫 High daily usage - switch to cache-only mode');
+  for (const category of CREDIT_CATEGORIES) {
+    const projection = forecast.categories[category];
+    if (projection.exhaustsBeforeReset) {
+      recommendations.push(`📉 ${category} budget runs out on ${day(projection.exhaustionDate)} at ${projection.burnRatePerDay} credits/day - its work pauses until ${day(forecast.resetDate)}`);
+    }
   }
   
-  if (remaining < 500000) {
-    recommendations.push('📉 Low credits remaining - enable conservative mode');
+  if (recommendations.length === 0 && forecast.burnRatePerDay > 0 && forecast.projectedMonthlyUsage < forecast.budget * 0.5) {
+    const projectedShare = (forecast.projectedMonthlyUsage / forecast.budget) * 100;
+    recommendations.push(`💡 Projected to use ${projectedShare.toFixed(0)}% of the monthly allowance - there is room to track more wallets or refresh more often`);
   }
   
   if (recommendations.length === 0) {
-    recommendations.push('✅ Credit usage is optimal');
+    recommendations.push('✅ Credit usage is on track to last until the reset');
   }
   
   return recommendations;
@@ -518,15 +1061,1370 @@ router.get('/whales/:address', (req: Request, res: Response): void => {
   
   res.json({
     success: true,
-    whale,
+    whale: labelStorage.apply(whale),
+    clusterId: clusterService.clusterOf(address)?.id || null,
     lastUpdated: lastFullUpdate.toISOString(),
     plan: 'FREE'
   });
 });
 
+// Analyst name, notes, tags and owner; null clears a field. Untracked addresses can be labeled ahead of time
+router.patch('/whales/:address/labels', (req: Request, res: Response): void => {
+  const { address } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  const error = WalletLabelStorage.validatePatch(req.body);
+  if (error) {
+    res.status(400).json({
+      success: false,
+      message: error
+    });
+    return;
+  }
+  
+  const label = labelStorage.update(address, req.body);
+  const whale = trackedWallets.get(address);
+  
+  if (whale) {
+    streamHub.publish('whale.updated', ['whales', StreamHub.addressTopic(address)], labelStorage.apply(whale));
+  }
+  
+  res.json({
+    success: true,
+    address,
+    labels: label,
+    tracked: !!whale,
+    whale: whale ? labelStorage.apply(whale) : null
+  });
+});
+
+// Every label, e.g. to replace a spreadsheet; `ownerEntity` and `tag` narrow it down
+router.get('/labels', (req: Request, res: Response): void => {
+  const { ownerEntity, tag } = req.query;
+  
+  let labels = labelStorage.getAll();
+  
+  if (typeof ownerEntity === 'string') {
+    labels = labels.filter(label => label.ownerEntity?.toLowerCase() === ownerEntity.toLowerCase());
+  }
+  
+  if (typeof tag === 'string') {
+    labels = labels.filter(label => label.tags.includes(tag));
+  }
+  
+  res.json({
+    success: true,
+    count: labels.length,
+    labels: labels.map(label => ({ ...label, tracked: trackedWallets.has(label.address) }))
+  });
+});
+
+// Composite score with each component's contribution
+router.get('/whales/:address/score', (req: Request, res: Response): void => {
+  const { address } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  const whale = trackedWallets.get(address);
+  
+  if (!whale) {
+    res.status(404).json({
+      success: false,
+      message: 'Whale wallet not found in current tracking set'
+    });
+    return;
+  }
+  
+  // Recomputed so recency reflects now; the stored score is from the last update
+  const score = WhaleScoring.score(whale);
+  
+  res.json({
+    success: true,
+    address,
+    score: score.total,
+    storedScore: whale.score?.total ?? null,
+    components: score.components,
+    config: SCORING_CONFIG,
+    computedAt: score.computedAt
+  });
+});
+
+// What kind of account an address is, and whether discovery would keep it (public RPC, no credits)
+router.get('/addresses/:address/classification', async (req: Request, res: Response): Promise<void> => {
+  const { address } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana address'
+    });
+    return;
+  }
+  
+  try {
+    const classification = await addressClassifier.classify(address);
+    
+    res.json({
+      success: true,
+      classification,
+      excluded: addressClassifier.isExcluded(classification.accountType),
+      tracked: trackedWallets.has(address)
+    });
+  } catch (error) {
+    logger.error(`Address classification failed for ${address}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Address classification failed'
+    });
+  }
+});
+
+// Token-level holdings for a wallet
+router.get('/whales/:address/holdings', (req: Request, res: Response): void => {
+  const { address } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  const whale = trackedWallets.get(address);
+  
+  if (!whale) {
+    res.status(404).json({
+      success: false,
+      message: 'Whale wallet not found in current tracking set'
+    });
+    return;
+  }
+  
+  const holdings = whale.balance.holdings || [];
+  
+  res.json({
+    success: true,
+    address,
+    totalBalanceUsd: whale.balance.totalBalanceUsd,
+    count: holdings.length,
+    unpricedCount: holdings.filter(h => h.priceUsd === null).length,
+    holdings,
+    lastUpdated: whale.lastUpdated
+  });
+});
+
+// Whale trade feed (newest first, cursor-paginated)
+router.get('/trades', (req: Request, res: Response): void => {
+  const { wallet, mint, side, minUsd, cursor, limit } = req.query;
+  
+  if (wallet && !Helpers.isValidSolanaAddress(String(wallet))) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  if (mint && !Helpers.isValidSolanaAddress(String(mint))) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid token mint address'
+    });
+    return;
+  }
+  
+  if (side && !['BUY', 'SELL', 'SWAP'].includes(String(side))) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid side - use BUY, SELL or SWAP'
+    });
+    return;
+  }
+  
+  if (minUsd !== undefined && isNaN(Number(minUsd))) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid minUsd - must be a number'
+    });
+    return;
+  }
+  
+  if (cursor && !TradeStorage.isValidCursor(String(cursor))) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid cursor'
+    });
+    return;
+  }
+  
+  const from = req.query.from !== undefined ? parseTimeParam(req.query.from, 0) : undefined;
+  const to = req.query.to !== undefined ? parseTimeParam(req.query.to, Date.now()) : undefined;
+  
+  if (from === null || to === null) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid time range - use ISO dates or epoch milliseconds'
+    });
+    return;
+  }
+  
+  const page = tradeStorage.query({
+    wallet: wallet ? String(wallet) : undefined,
+    mint: mint ? String(mint) : undefined,
+    side: side ? String(side) as TradeSide : undefined,
+    minUsd: minUsd !== undefined ? Number(minUsd) : undefined,
+    from,
+    to,
+    cursor: cursor ? String(cursor) : undefined,
+    limit: limit ? Number(limit) : undefined
+  });
+  
+  res.json({
+    success: true,
+    count: page.trades.length,
+    filters: { wallet, mint, side, minUsd, from: req.query.from, to: req.query.to, limit },
+    trades: page.trades,
+    nextCursor: page.nextCursor,
+    storage: tradeStorage.getStats()
+  });
+});
+
+// Consensus signals (newest first)
+router.get('/signals', (req: Request, res: Response): void => {
+  const { mint, direction, active, limit } = req.query;
+  
+  if (mint && !Helpers.isValidSolanaAddress(String(mint))) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid token mint address'
+    });
+    return;
+  }
+  
+  if (direction && !['BUY', 'SELL'].includes(String(direction))) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid direction - use BUY or SELL'
+    });
+    return;
+  }
+  
+  const since = req.query.since !== undefined ? parseTimeParam(req.query.since, 0) : undefined;
+  if (since === null) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid since - use an ISO date or epoch milliseconds'
+    });
+    return;
+  }
+  
+  const signals = signalEngine.getSignals({
+    mint: mint ? String(mint) : undefined,
+    direction: direction ? String(direction) as SignalDirection : undefined,
+    since,
+    activeOnly: active === 'true',
+    limit: limit ? Number(limit) : undefined
+  });
+  
+  res.json({
+    success: true,
+    count: signals.length,
+    filters: { mint, direction, since: req.query.since, active, limit },
+    config: signalEngine.config,
+    signals
+  });
+});
+
+router.get('/signals/:id', (req: Request, res: Response): void => {
+  const signal = signalEngine.getSignal(req.params.id);
+  
+  if (!signal) {
+    res.status(404).json({
+      success: false,
+      message: 'Signal not found'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    signal
+  });
+});
+
+// Accepts ISO dates or epoch milliseconds; null when unparseable
+const parseTimeParam = (value: any, fallback: number): number | null => {
+  if (value === undefined || value === '') return fallback;
+  
+  const time = isNaN(Number(value)) ? new Date(String(value)).getTime() : Number(value);
+  return isNaN(time) ? null : time;
+};
+
+// Balance/stats time series for a wallet
+router.get('/whales/:address/history', (req: Request, res: Response): void => {
+  const { address } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  const to = parseTimeParam(req.query.to, Date.now());
+  const from = parseTimeParam(req.query.from, (to ?? Date.now()) - 7 * 24 * 60 * 60 * 1000);
+  
+  if (from === null || to === null || from > to) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid time range - use ISO dates or epoch milliseconds with from <= to'
+    });
+    return;
+  }
+  
+  const resolution = (req.query.resolution as HistoryResolution) || WalletHistoryStorage.defaultResolution(from, to);
+  if (!['raw', 'hourly', 'daily'].includes(resolution)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid resolution - use raw, hourly or daily'
+    });
+    return;
+  }
+  
+  const series = historyStorage.getSeries(address, from, to, resolution);
+  
+  res.json({
+    success: true,
+    address,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    resolution,
+    count: series.length,
+    series
+  });
+});
+
+// Recorded/imported price history for a mint, with gaps; `at` returns the valuation price for one instant
+router.get('/prices/:mint/history', (req: Request, res: Response): void => {
+  const { mint } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(mint)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid token mint address'
+    });
+    return;
+  }
+  
+  const priceHistory = PriceHistoryService.getInstance();
+  
+  if (req.query.at !== undefined) {
+    const at = parseTimeParam(req.query.at, Date.now());
+    if (at === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid time - use an ISO date or epoch milliseconds'
+      });
+      return;
+    }
+    
+    const price = priceHistory.priceAt(mint, at);
+    res.status(price ? 200 : 404).json({
+      success: price !== null,
+      mint,
+      at: new Date(at).toISOString(),
+      price,
+      message: price ? undefined : 'No recorded price close enough to this time'
+    });
+    return;
+  }
+  
+  const to = parseTimeParam(req.query.to, Date.now());
+  const from = parseTimeParam(req.query.from, (to ?? Date.now()) - 7 * 24 * 60 * 60 * 1000);
+  
+  if (from === null || to === null || from > to) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid time range - use ISO dates or epoch milliseconds with from <= to'
+    });
+    return;
+  }
+  
+  const points = priceHistory.getRange(mint, from, to);
+  
+  res.json({
+    success: true,
+    mint,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    count: points.length,
+    points,
+    gaps: priceHistory.findGaps(points),
+    current: PriceOracle.getInstance().getQuote(mint)
+  });
+});
+
+// Import historical prices from CSV (`timestamp,price` or `timestamp,open,high,low,close`)
+router.post('/prices/:mint/import', text({ type: ['text/csv', 'text/plain'], limit: '10mb' }), (req: Request, res: Response): void => {
+  const { mint } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(mint)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid token mint address'
+    });
+    return;
+  }
+  
+  if (typeof req.body !== 'string' || req.body.trim() === '') {
+    res.status(400).json({
+      success: false,
+      message: 'Send the CSV as the request body with Content-Type: text/csv'
+    });
+    return;
+  }
+  
+  const source = typeof req.query.source === 'string' ? req.query.source : 'csv';
+  const result = PriceHistoryService.getInstance().importCsv(mint, req.body, source);
+  
+  res.json({
+    success: true,
+    mint,
+    ...result
+  });
+});
+
+// ===============================
+// API KEYS
+// ===============================
+
+// Remaining allowance for the calling key
+router.get('/quota', (req: Request, res: Response): void => {
+  const key: ApiKeyRecord | undefined = res.locals.apiKey;
+  
+  if (!key) {
+    res.status(401).json({
+      success: false,
+      message: apiKeys.mode === 'off' ? 'API keys are disabled (API_AUTH_MODE=off)' : 'Send an API key to see its quota'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    scopes: key.scopes,
+    quota: apiKeys.getQuota(key)
+  });
+});
+
+router.get('/keys', (req: Request, res: Response): void => {
+  const keys = apiKeys.getKeys(req.query.includeRevoked === 'true');
+  
+  res.json({
+    success: true,
+    count: keys.length,
+    keys: keys.map(key => ({ ...ApiKeyService.toPublic(key), quota: apiKeys.getQuota(key) })),
+    stats: apiKeys.getStats()
+  });
+});
+
+// Body: { "name": "...", "scopes": ["read", "refresh"], "tier"?: "basic" } - the key is only shown in this response
+router.post('/keys', (req: Request, res: Response): void => {
+  const error = ApiKeyService.validateKeyFields(req.body, false);
+  if (error) {
+    res.status(400).json({
+      success: false,
+      message: error
+    });
+    return;
+  }
+  
+  const { name, scopes, tier } = req.body;
+  const { key, record } = apiKeys.createKey(name.trim(), [...new Set<any>(scopes)], tier);
+  
+  res.status(201).json({
+    success: true,
+    key,
+    record: ApiKeyService.toPublic(record),
+    message: 'Store this key now - it cannot be shown again'
+  });
+});
+
+router.patch('/keys/:id', (req: Request, res: Response): void => {
+  const error = ApiKeyService.validateKeyFields(req.body, true);
+  if (error) {
+    res.status(400).json({
+      success: false,
+      message: error
+    });
+    return;
+  }
+  
+  const { name, scopes, tier } = req.body;
+  const changes: Partial<Pick<ApiKeyRecord, 'name' | 'scopes' | 'tier'>> = {};
+  if (name !== undefined) changes.name = name.trim();
+  if (scopes !== undefined) changes.scopes = [...new Set<any>(scopes)];
+  if (tier !== undefined) changes.tier = tier;
+  
+  const record = apiKeys.updateKey(req.params.id, changes);
+  
+  if (!record) {
+    res.status(404).json({
+      success: false,
+      message: 'API key not found, revoked or managed through API_ADMIN_KEY'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    record: ApiKeyService.toPublic(record)
+  });
+});
+
+router.delete('/keys/:id', (req: Request, res: Response): void => {
+  const record = apiKeys.revokeKey(req.params.id);
+  
+  if (!record) {
+    res.status(404).json({
+      success: false,
+      message: 'API key not found, revoked or managed through API_ADMIN_KEY'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    record: ApiKeyService.toPublic(record)
+  });
+});
+
+// Per-endpoint counts and the most recent requests for one key
+router.get('/keys/:id/usage', (req: Request, res: Response): void => {
+  const record = apiKeys.getKey(req.params.id);
+  
+  if (!record) {
+    res.status(404).json({
+      success: false,
+      message: 'API key not found'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    keyId: record.id,
+    name: record.name,
+    totalRequests: record.totalRequests,
+    lastUsedAt: record.lastUsedAt,
+    quota: apiKeys.getQuota(record),
+    endpoints: record.endpoints,
+    recentRequests: apiKeys.getRecentRequests(record.id, Math.min(Number(req.query.limit) || 50, 200))
+  });
+});
+
+// ===============================
+// WALLET CONTROLS
+// ===============================
+
+// Body: { "reason": "...", "expiresAt"?: ISO date, "durationHours"?: number } - no expiry means until enabled
+router.post('/whales/:address/disable', (req: Request, res: Response): void => {
+  const { address } = req.params;
+  const { reason, expiresAt, durationHours } = req.body || {};
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  if (typeof reason !== 'string' || !reason.trim() || reason.length > 500) {
+    res.status(400).json({
+      success: false,
+      message: 'reason is required (at most 500 characters)'
+    });
+    return;
+  }
+  
+  let expiry: number | null = null;
+  if (expiresAt !== undefined && durationHours !== undefined) {
+    res.status(400).json({
+      success: false,
+      message: 'Provide expiresAt or durationHours, not both'
+    });
+    return;
+  }
+  if (expiresAt !== undefined) {
+    expiry = typeof expiresAt === 'string' ? new Date(expiresAt).getTime() : NaN;
+  }
+  if (durationHours !== undefined) {
+    expiry = typeof durationHours === 'number' && durationHours > 0 ? Date.now() + durationHours * 60 * 60 * 1000 : NaN;
+  }
+  if (expiry !== null && (isNaN(expiry) || expiry <= Date.now())) {
+    res.status(400).json({
+      success: false,
+      message: 'expiresAt must be a future date; durationHours a positive number'
+    });
+    return;
+  }
+  
+  const control = walletControls.disable(
+    address,
+    reason.trim(),
+    requestActor(req, res),
+    expiry !== null ? new Date(expiry).toISOString() : null
+  );
+  const whale = publishWalletControl(address);
+  
+  logger.info(`🔇 ${control.disabledBy} disabled ${address}: ${control.reason}`);
+  
+  res.json({
+    success: true,
+    control,
+    tracked: !!whale
+  });
+});
+
+router.post('/whales/:address/enable', (req: Request, res: Response): void => {
+  const { address } = req.params;
+  const { reason } = req.body || {};
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+    res.status(400).json({
+      success: false,
+      message: 'reason must be a string of at most 500 characters'
+    });
+    return;
+  }
+  
+  const actor = requestActor(req, res);
+  const previous = walletControls.enable(address, actor, reason?.trim() || null);
+  
+  if (!previous) {
+    res.status(404).json({
+      success: false,
+      message: 'Wallet is not disabled'
+    });
+    return;
+  }
+  
+  const whale = publishWalletControl(address);
+  logger.info(`🔊 ${actor} enabled ${address}`);
+  
+  res.json({
+    success: true,
+    address,
+    previous,
+    tracked: !!whale
+  });
+});
+
+// Active disables plus the audit trail, newest first
+router.get('/wallet-controls', (req: Request, res: Response): void => {
+  const address = typeof req.query.address === 'string' ? req.query.address : undefined;
+  const limit = Math.min(Number(req.query.limit) || 100, 1000);
+  
+  res.json({
+    success: true,
+    disabled: walletControls.getAll().filter(control => !address || control.address === address),
+    audit: walletControls.getAudit(address, limit)
+  });
+});
+
+// ===============================
+// WHALE SNAPSHOTS
+// ===============================
+
+// `current` stands for the live tracked set wherever a snapshot id is expected
+const CURRENT_SNAPSHOT = 'current';
+
+const readSnapshot = (id: string): WhaleSnapshot | null => {
+  if (id === CURRENT_SNAPSHOT) {
+    const whales = Array.from(trackedWallets.values());
+    return {
+      info: {
+        id,
+        createdAt: new Date().toISOString(),
+        reason: 'save',
+        totalWhales: whales.length,
+        checksum: WhaleSnapshotStorage.checksum(whales),
+        sizeBytes: 0,
+        valid: true
+      },
+      whales
+    };
+  }
+  return snapshotStorage.read(id);
+};
+
+// Newest first, with checksum status
+router.get('/snapshots', (req: Request, res: Response): void => {
+  const snapshots = snapshotStorage.list();
+  
+  res.json({
+    success: true,
+    count: snapshots.length,
+    snapshots,
+    retention: {
+      count: STORAGE_CONFIG.snapshotCount,
+      intervalMinutes: STORAGE_CONFIG.snapshotIntervalMinutes
+    }
+  });
+});
+
+// Wallets added, removed and changed between two snapshots; `to` defaults to the live set
+router.get('/snapshots/diff', (req: Request, res: Response): void => {
+  const from = typeof req.query.from === 'string' ? req.query.from : '';
+  const to = typeof req.query.to === 'string' ? req.query.to : CURRENT_SNAPSHOT;
+  const limit = Math.min(Number(req.query.limit) || 100, 1000);
+  
+  if (!from) {
+    res.status(400).json({
+      success: false,
+      message: `from is required: a snapshot id or "${CURRENT_SNAPSHOT}"`
+    });
+    return;
+  }
+  
+  const before = readSnapshot(from);
+  const after = readSnapshot(to);
+  const missing = !before ? from : !after ? to : null;
+  
+  if (missing) {
+    res.status(404).json({
+      success: false,
+      message: `Snapshot ${missing} not found`
+    });
+    return;
+  }
+  
+  const invalid = [before!, after!].find(snapshot => !snapshot.info.valid);
+  if (invalid) {
+    res.status(400).json({
+      success: false,
+      message: `Snapshot ${invalid.info.id} fails its checksum and cannot be compared`
+    });
+    return;
+  }
+  
+  const diff = WhaleSnapshotStorage.diff(from, before!.whales, to, after!.whales);
+  
+  res.json({
+    success: true,
+    ...diff,
+    added: diff.added.slice(0, limit),
+    removed: diff.removed.slice(0, limit),
+    changed: diff.changed.slice(0, limit)
+  });
+});
+
+// Replaces the tracked set; the set being replaced is snapshotted first so a restore can be undone
+router.post('/snapshots/:id/restore', (req: Request, res: Response): void => {
+  const snapshot = snapshotStorage.read(req.params.id);
+  
+  if (!snapshot) {
+    res.status(404).json({
+      success: false,
+      message: 'Snapshot not found'
+    });
+    return;
+  }
+  
+  if (!snapshot.info.valid) {
+    res.status(400).json({
+      success: false,
+      message: 'Snapshot fails its checksum and cannot be restored'
+    });
+    return;
+  }
+  
+  const current = Array.from(trackedWallets.values());
+  let backup;
+  try {
+    backup = snapshotStorage.take(current, 'pre-restore', true);
+  } catch (error) {
+    logger.error('❌ Error snapshotting whales before restore:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Could not snapshot the current set, nothing was restored'
+    });
+    return;
+  }
+  
+  const diff = WhaleSnapshotStorage.diff(CURRENT_SNAPSHOT, current, snapshot.info.id, snapshot.whales);
+  
+  loadTrackedWallets(snapshot.whales);
+  storage.saveWhales(Array.from(trackedWallets.values()));
+  logger.warn(`⏪ ${requestActor(req, res)} restored ${trackedWallets.size} whales from snapshot ${snapshot.info.id}`);
+  
+  res.json({
+    success: true,
+    restored: snapshot.info,
+    backup,
+    changes: diff.summary
+  });
+});
+
+// ===============================
+// WATCHLIST
+// ===============================
+
+const MAX_WATCHLIST_BULK = 100;
+
+router.get('/watchlist', (req: Request, res: Response): void => {
+  const wallets = watchlist.getAll().map(entry => {
+    const whale = trackedWallets.get(entry.address);
+    return { ...entry, tracked: !!whale, whale: whale ? labelStorage.apply(whale) : null };
+  });
+  
+  res.json({
+    success: true,
+    count: wallets.length,
+    wallets
+  });
+});
+
+// Body: { "addresses": [...], "note"?: "..." } or { "address": "..." }
+router.post('/watchlist', (req: Request, res: Response): void => {
+  const { address, addresses, note } = req.body || {};
+  const requested: any[] = Array.isArray(addresses) ? addresses : address !== undefined ? [address] : [];
+  
+  if (requested.length === 0 || requested.length > MAX_WATCHLIST_BULK) {
+    res.status(400).json({
+      success: false,
+      message: `Provide address or addresses (1-${MAX_WATCHLIST_BULK})`
+    });
+    return;
+  }
+  
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+    res.status(400).json({
+      success: false,
+      message: 'note must be a string of at most 500 characters'
+    });
+    return;
+  }
+  
+  const invalid = requested.filter(value => typeof value !== 'string' || !Helpers.isValidSolanaAddress(value));
+  if (invalid.length > 0) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet addresses',
+      invalid
+    });
+    return;
+  }
+  
+  const { added, existing } = watchlist.add(requested, note?.trim() || null);
+  
+  if (heliusService && added.length > 0) {
+    heliusService.setManualWallets(watchlist.getAddresses());
+    // Cached results were analyzed under the discovery cutoffs
+    added.forEach(entry => heliusService.invalidateWallet(entry.address));
+    refreshWallets(added.map(entry => entry.address), 'API').catch(error => {
+      logger.error('Watchlist refresh failed:', error);
+    });
+  }
+  
+  res.status(added.length > 0 ? 201 : 200).json({
+    success: true,
+    added,
+    alreadyWatched: existing,
+    message: added.length === 0
+      ? 'All wallets were already on the watchlist'
+      : `${added.length} wallets added; ${heliusService ? 'analysis started in the background' : 'tracked once the service is running'}`
+  });
+});
+
+// The wallet stays tracked but is subject to the normal cutoffs from its next refresh on
+router.delete('/watchlist/:address', (req: Request, res: Response): void => {
+  const { address } = req.params;
+  
+  if (!Helpers.isValidSolanaAddress(address)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid Solana wallet address'
+    });
+    return;
+  }
+  
+  if (!watchlist.remove(address)) {
+    res.status(404).json({
+      success: false,
+      message: 'Wallet is not on the watchlist'
+    });
+    return;
+  }
+  
+  if (heliusService) {
+    heliusService.setManualWallets(watchlist.getAddresses());
+    heliusService.invalidateWallet(address);
+  }
+  
+  res.json({
+    success: true,
+    address,
+    tracked: trackedWallets.has(address)
+  });
+});
+
+// ===============================
+// WALLET CLUSTERS
+// ===============================
+
+// Groups of tracked wallets that look like one owner
+router.get('/clusters', (req: Request, res: Response): void => {
+  const { minMembers, limit } = req.query;
+  
+  let clusters = clusterService.getClusters();
+  
+  if (minMembers) {
+    clusters = clusters.filter(cluster => cluster.members.length >= Number(minMembers));
+  }
+  
+  res.json({
+    success: true,
+    count: clusters.length,
+    clusters: clusters.slice(0, Number(limit) || 100),
+    stats: clusterService.getStats()
+  });
+});
+
+router.get('/clusters/:id', (req: Request, res: Response): void => {
+  const cluster = clusterService.getCluster(req.params.id);
+  
+  if (!cluster) {
+    res.status(404).json({
+      success: false,
+      message: 'Cluster not found'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    cluster,
+    wallets: cluster.members
+      .map(address => trackedWallets.get(address))
+      .filter((whale): whale is WhaleWallet => !!whale)
+      .map(whale => labelStorage.apply(whale))
+  });
+});
+
+// ===============================
+// INTERACTION GRAPH
+// ===============================
+
+// Counterparty graph around a wallet; `format=graphml|gexf` for Gephi
+router.get('/graph', async (req: Request, res: Response): Promise<void> => {
+  const root = typeof req.query.root === 'string' ? req.query.root : '';
+  const depth = req.query.depth === undefined ? 1 : Number(req.query.depth);
+  const key: ApiKeyRecord | undefined = res.locals.apiKey;
+  const canExpand = apiKeys.mode === 'off' || (!!key && ApiKeyService.hasScope(key, 'refresh'));
+  // Without a refresh key the graph comes from stored edges only
+  const budget = req.query.budget === undefined
+    ? (canExpand ? graphService.config.defaultRequestBudget : 0)
+    : Number(req.query.budget);
+  const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+  
+  if (!Helpers.isValidSolanaAddress(root)) {
+    res.status(400).json({
+      success: false,
+      message: 'root must be a Solana address'
+    });
+    return;
+  }
+  
+  if (!Number.isInteger(depth) || depth < 0 || isNaN(budget) || budget < 0) {
+    res.status(400).json({
+      success: false,
+      message: `depth must be an integer from 0 to ${graphService.config.maxDepth}; budget a non-negative number of RPC requests`
+    });
+    return;
+  }
+  
+  if (!['json', 'graphml', 'gexf'].includes(format)) {
+    res.status(400).json({
+      success: false,
+      message: 'format must be json, graphml or gexf'
+    });
+    return;
+  }
+  
+  try {
+    const graph = await graphService.explore(root, depth, budget);
+    
+    const nodes: ExportNode[] = graph.nodes.map(node => {
+      const whale = trackedWallets.get(node.address);
+      return {
+        ...node,
+        tracked: !!whale,
+        displayName: labelStorage.get(node.address)?.displayName || null,
+        category: whale?.category || null,
+        balanceUsd: whale?.balance.totalBalanceUsd ?? null,
+        clusterId: clusterService.clusterOf(node.address)?.id || null
+      };
+    });
+    
+    if (format !== 'json') {
+      const filename = `whale-graph-${root.substring(0, 8)}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.type('application/xml').send(format === 'graphml'
+        ? GraphExport.toGraphML(nodes, graph.edges)
+        : GraphExport.toGexf(nodes, graph.edges));
+      return;
+    }
+    
+    res.json({
+      success: true,
+      root,
+      depth: graph.depth,
+      nodeCount: nodes.length,
+      edgeCount: graph.edges.length,
+      requestsUsed: graph.requestsUsed,
+      truncated: graph.truncated,
+      volumeSolIncludes: 'native SOL transfers only; token transfers add to txCount but not to volumeSol',
+      nodes,
+      edges: graph.edges
+    });
+  } catch (error) {
+    logger.error(`Error building graph for ${root}:`, error);
+    res.status(500).json({
+      success: false,
+      message: `Graph expansion failed: ${error}`
+    });
+  }
+});
+
+// ===============================
+// REAL-TIME STREAM
+// ===============================
+
+// Server-Sent Events; the WebSocket equivalent lives at /api/stream/ws
+router.get('/stream', (req: Request, res: Response): void => {
+  const topics = StreamHub.parseTopics(StreamHub.splitList(req.query.topics), StreamHub.splitList(req.query.address));
+  
+  if (!topics) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid topics or address - topics are whales, categories, trades, credits'
+    });
+    return;
+  }
+  
+  if (!streamHub.canAcceptClient()) {
+    res.status(503).json({
+      success: false,
+      message: 'Too many stream clients, try again later'
+    });
+    return;
+  }
+  
+  // Browsers send Last-Event-ID on reconnect; the query param is for clients that can't set headers
+  const lastEventId = StreamHub.parseEventId(req.headers['last-event-id'] ?? req.query.lastEventId);
+  streamHub.openSse(res, topics, lastEventId);
+});
+
+// ===============================
+// ALERT SUBSCRIPTIONS
+// ===============================
+
+// The signing secret is only returned when the subscription is created
+const withoutSecret = (subscription: Subscription): Omit<Subscription, 'secret'> => {
+  const { secret, ...rest } = subscription;
+  return rest;
+};
+
+// Register a URL to receive matching events
+router.post('/subscriptions', (req: Request, res: Response): void => {
+  const { url, filters, description, secret } = req.body || {};
+  
+  const urlError = OutboundUrl.validate(url);
+  if (urlError) {
+    res.status(400).json({
+      success: false,
+      message: urlError
+    });
+    return;
+  }
+  
+  const filterError = AlertSubscriptionService.validateFilters(filters);
+  if (filterError) {
+    res.status(400).json({
+      success: false,
+      message: filterError
+    });
+    return;
+  }
+  
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+    res.status(400).json({
+      success: false,
+      message: 'secret must be a string of at least 16 characters (omit it to have one generated)'
+    });
+    return;
+  }
+  
+  const subscription = alertService.createSubscription(url, filters, typeof description === 'string' ? description : undefined, secret);
+  
+  res.status(201).json({
+    success: true,
+    subscription
+  });
+});
+
+router.get('/subscriptions', (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    subscriptions: alertService.getSubscriptions().map(withoutSecret),
+    stats: alertService.getStats()
+  });
+});
+
+// Deliveries that exhausted their retries
+router.get('/subscriptions/dead-letters', (req: Request, res: Response): void => {
+  const subscriptionId = typeof req.query.subscriptionId === 'string' ? req.query.subscriptionId : undefined;
+  const deadLetters = alertService.getDeadLetters(subscriptionId, Math.min(Number(req.query.limit) || 100, 1000));
+  
+  res.json({
+    success: true,
+    count: deadLetters.length,
+    deadLetters
+  });
+});
+
+router.post('/subscriptions/dead-letters/:id/retry', (req: Request, res: Response): void => {
+  const delivery = alertService.retryDeadLetter(req.params.id);
+  
+  if (!delivery) {
+    res.status(404).json({
+      success: false,
+      message: 'Dead letter not found or its subscription was deleted'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    delivery
+  });
+});
+
+router.get('/subscriptions/:id', (req: Request, res: Response): void => {
+  const subscription = alertService.getSubscription(req.params.id);
+  
+  if (!subscription) {
+    res.status(404).json({
+      success: false,
+      message: 'Subscription not found'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    subscription: withoutSecret(subscription)
+  });
+});
+
+router.patch('/subscriptions/:id', (req: Request, res: Response): void => {
+  const { url, filters, description, enabled } = req.body || {};
+  
+  const urlError = url !== undefined ? OutboundUrl.validate(url) : null;
+  if (urlError) {
+    res.status(400).json({
+      success: false,
+      message: urlError
+    });
+    return;
+  }
+  
+  const filterError = filters !== undefined ? AlertSubscriptionService.validateFilters(filters) : null;
+  if (filterError) {
+    res.status(400).json({
+      success: false,
+      message: filterError
+    });
+    return;
+  }
+  
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    res.status(400).json({
+      success: false,
+      message: 'enabled must be a boolean'
+    });
+    return;
+  }
+  
+  const changes: Partial<Pick<Subscription, 'url' | 'filters' | 'description' | 'enabled'>> = {};
+  if (url !== undefined) changes.url = url;
+  if (filters !== undefined) changes.filters = filters;
+  if (typeof description === 'string') changes.description = description;
+  if (enabled !== undefined) changes.enabled = enabled;
+  
+  const subscription = alertService.updateSubscription(req.params.id, changes);
+  
+  if (!subscription) {
+    res.status(404).json({
+      success: false,
+      message: 'Subscription not found'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    subscription: withoutSecret(subscription)
+  });
+});
+
+router.delete('/subscriptions/:id', (req: Request, res: Response): void => {
+  if (!alertService.deleteSubscription(req.params.id)) {
+    res.status(404).json({
+      success: false,
+      message: 'Subscription not found'
+    });
+    return;
+  }
+  
+  res.json({
+    success: true,
+    message: 'Subscription deleted'
+  });
+});
+
+// Delivery log, newest first
+router.get('/subscriptions/:id/deliveries', (req: Request, res: Response): void => {
+  if (!alertService.getSubscription(req.params.id)) {
+    res.status(404).json({
+      success: false,
+      message: 'Subscription not found'
+    });
+    return;
+  }
+  
+  const deliveries = alertService.getDeliveries(req.params.id, Math.min(Number(req.query.limit) || 100, 1000));
+  
+  res.json({
+    success: true,
+    count: deliveries.length,
+    deliveries
+  });
+});
+
+// Helius enhanced-transaction webhook (push updates for tracked wallets)
+router.post('/webhooks/helius', (req: Request, res: Response): void => {
+  if (!heliusService || !webhookService?.isConfigured()) {
+    res.status(503).json({
+      success: false,
+      message: 'Webhook ingestion not configured - set HELIUS_WEBHOOK_SECRET'
+    });
+    return;
+  }
+  
+  if (!webhookService.verifyAuth(req.headers.authorization)) {
+    res.status(401).json({
+      success: false,
+      message: 'Invalid webhook authorization'
+    });
+    return;
+  }
+  
+  if (!Array.isArray(req.body)) {
+    res.status(400).json({
+      success: false,
+      message: 'Expected an array of enhanced transactions'
+    });
+    return;
+  }
+  
+  // Redeliveries, including ones overlapping a delivery still being ingested, are acknowledged but not processed twice
+  const transactions = webhookService.filterNew(req.body);
+  const tracked = new Set(trackedWallets.keys());
+  const observations = WhaleDiscoveryService.fromEnhancedTransactions(transactions);
+  clusterService.recordObservations(observations, tracked);
+  graphService.recordObservations(observations);
+  
+  const byWallet = new Map<string, any[]>();
+  for (const tx of transactions) {
+    for (const address of webhookService.affectedAddresses(tx, tracked)) {
+      byWallet.set(address, [...(byWallet.get(address) || []), tx]);
+    }
+  }
+  
+  // Acknowledge right away so Helius doesn't retry while prices are looked up
+  res.json({
+    success: true,
+    received: req.body.length,
+    processed: transactions.length,
+    duplicates: req.body.length - transactions.length,
+    walletsAffected: byWallet.size
+  });
+  
+  const failed = new Set<string>();
+  const ingestions = Array.from(byWallet.entries()).map(([address, walletTransactions]) =>
+    heliusService.ingestTransactions(walletTransactions, address)
+      .then(() => {
+        recordWebhookActivity(address, walletTransactions);
+        heliusService.invalidateWallet(address);
+        scheduleWebhookRefresh(address);
+      })
+      .catch(error => {
+        walletTransactions.forEach(tx => failed.add(tx.signature));
+        logger.error(`Error ingesting webhook transactions for ${address}:`, error);
+      })
+  );
+  
+  // Signatures of failed ingestions are released unseen so a Helius redelivery gets another try
+  const signatures: string[] = transactions.map(tx => tx.signature);
+  Promise.all(ingestions)
+    .then(() => {
+      webhookService.markSeen(signatures.filter(signature => !failed.has(signature)));
+      webhookService.release(Array.from(failed));
+    })
+    .catch(error => {
+      webhookService.release(signatures);
+      logger.error('Error recording processed webhook signatures:', error);
+    });
+});
+
+// Writes out what the 60-second flush timers still hold; called on shutdown
+const flushStores = (): void => {
+  webhookService?.flush();
+  tradeStorage.flush();
+  graphService.flush();
+  clusterService.flush();
+  PriceHistoryService.getInstance().flush();
+};
+
 // Initialize the service when routes are loaded
 initializeService().catch(error => {
   logger.error('Failed to initialize free plan service:', error);
 });
 
-export { router as freeWhaleRoutes };
\ No newline at end of file
+export { router as freeWhaleRoutes, flushStores };
\ No newline at end of file
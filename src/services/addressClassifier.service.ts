@@ -0,0 +1,283 @@
+// src/services/addressClassifier.service.ts - WALLET VS PROGRAM / PDA / EXCHANGE CLASSIFICATION
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import { AccountType, AddressClassification } from '../types/whale.types';
+import { KNOWN_ADDRESS_LABELS, AddressLabel } from '../config/address-labels.config';
+import { SolanaAddress } from '../utils/address';
+import { logger } from '../utils/logger';
+
+export interface ClassifierConfig {
+  excludedTypes: AccountType[];
+  rpcEndpoints: string[];
+  cacheTtlMs: number;
+  labelsFile: string | null;
+}
+
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+export class AddressClassifier {
+  private dataDir = path.join(process.cwd(), 'data');
+  private cacheFile = path.join(this.dataDir, 'address-types.json');
+
+  private labels: Record<string, AddressLabel> = { ...KNOWN_ADDRESS_LABELS };
+  private cache = new Map<string, AddressClassification>();
+
+  // getMultipleAccounts takes at most 100 keys
+  private readonly LOOKUP_BATCH_SIZE = 100;
+
+  private apiClient = axios.create({
+    timeout: 20000,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  config: ClassifierConfig = {
+    excludedTypes: (process.env.CLASSIFIER_EXCLUDED_TYPES || 'PDA,PROGRAM,PROGRAM_OWNED,EXCHANGE,TREASURY,BRIDGE,INVALID')
+      .split(',')
+      .map(type => type.trim().toUpperCase())
+      .filter(Boolean) as AccountType[],
+    // Public RPC by default - account lookups cost no Helius credits
+    rpcEndpoints: (process.env.CLASSIFIER_RPC_URL || 'https://api.mainnet-beta.solana.com,https://rpc.ankr.com/solana')
+      .split(',')
+      .map(url => url.trim())
+      .filter(Boolean),
+    cacheTtlMs: parseInt(process.env.CLASSIFIER_CACHE_DAYS || '30') * 24 * 60 * 60 * 1000,
+    labelsFile: process.env.ADDRESS_LABELS_FILE || null
+  };
+
+  constructor() {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.loadLabels();
+    this.load();
+  }
+
+  // Decoding, the label list and the curve check - no network
+  classifyLocal(address: string): AddressClassification | null {
+    const bytes = SolanaAddress.decode(address);
+    if (!bytes) {
+      return this.build(address, 'INVALID', 'Not a 32-byte base58 public key');
+    }
+
+    const label = this.labels[address];
+    if (label) {
+      return this.build(address, label.type, `Labeled: ${label.name}`, { label: label.name });
+    }
+
+    if (!SolanaAddress.isOnCurve(bytes)) {
+      return this.build(address, 'PDA', 'Off the ed25519 curve (program-derived address)');
+    }
+
+    return null;
+  }
+
+  async classify(address: string): Promise<AddressClassification> {
+    return (await this.classifyMany([address])).get(address) as AddressClassification;
+  }
+
+  async classifyMany(addresses: string[]): Promise<Map<string, AddressClassification>> {
+    const results = new Map<string, AddressClassification>();
+    const lookups: string[] = [];
+
+    for (const address of new Set(addresses)) {
+      const local = this.classifyLocal(address);
+      const cached = this.getCached(address);
+
+      if (local) {
+        results.set(address, local);
+      } else if (cached) {
+        results.set(address, cached);
+      } else {
+        lookups.push(address);
+      }
+    }
+
+    for (let i = 0; i < lookups.length; i += this.LOOKUP_BATCH_SIZE) {
+      const batch = lookups.slice(i, i + this.LOOKUP_BATCH_SIZE);
+      const accounts = await this.getAccounts(batch);
+
+      batch.forEach((address, index) => {
+        const classification = accounts
+          ? this.fromAccount(address, accounts[index])
+          : this.build(address, 'UNKNOWN', 'Account lookup failed');
+
+        results.set(address, classification);
+        // Lookup failures are retried next time rather than remembered
+        if (classification.accountType !== 'UNKNOWN') {
+          this.cache.set(address, classification);
+        }
+      });
+    }
+
+    if (lookups.length > 0) {
+      this.save();
+    }
+
+    return results;
+  }
+
+  // Splits discovery output into personal wallets and the addresses to leave out
+  async filterAllowed(addresses: string[]): Promise<{ allowed: string[]; excluded: AddressClassification[] }> {
+    const classifications = await this.classifyMany(addresses);
+    const allowed: string[] = [];
+    const excluded: AddressClassification[] = [];
+
+    for (const address of new Set(addresses)) {
+      const classification = classifications.get(address) as AddressClassification;
+      if (this.isExcluded(classification.accountType)) {
+        excluded.push(classification);
+      } else {
+        allowed.push(address);
+      }
+    }
+
+    if (excluded.length > 0) {
+      const counts = excluded.reduce((acc, { accountType }) => {
+        acc[accountType] = (acc[accountType] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+      logger.info(`🏷️ Excluded ${excluded.length} non-wallet addresses: ${JSON.stringify(counts)}`);
+    }
+
+    return { allowed, excluded };
+  }
+
+  isExcluded(type: AccountType): boolean {
+    return this.config.excludedTypes.includes(type);
+  }
+
+  // Last known classification, without a lookup
+  get(address: string): AddressClassification | null {
+    return this.classifyLocal(address) || this.getCached(address);
+  }
+
+  getStats(): any {
+    const byType: Record<string, number> = {};
+    this.cache.forEach(({ accountType }) => {
+      byType[accountType] = (byType[accountType] || 0) + 1;
+    });
+
+    return {
+      cached: this.cache.size,
+      labels: Object.keys(this.labels).length,
+      byType,
+      excludedTypes: this.config.excludedTypes
+    };
+  }
+
+  private fromAccount(address: string, account: any): AddressClassification {
+    // No account yet: an unfunded keypair, nothing a program controls
+    if (!account) {
+      return this.build(address, 'WALLET', 'On-curve key with no account data', { owner: null, executable: false });
+    }
+
+    const details = { owner: account.owner || null, executable: !!account.executable };
+
+    if (account.executable) {
+      return this.build(address, 'PROGRAM', 'Executable account', details);
+    }
+    if (account.owner !== SYSTEM_PROGRAM) {
+      return this.build(address, 'PROGRAM_OWNED', `Owned by program ${account.owner}`, details);
+    }
+    // System-owned accounts with data are nonce accounts, not wallets
+    if ((account.space ?? 0) > 0) {
+      return this.build(address, 'PROGRAM_OWNED', 'System-owned account with data (nonce account)', details);
+    }
+
+    return this.build(address, 'WALLET', 'System-owned on-curve key', details);
+  }
+
+  private async getAccounts(addresses: string[]): Promise<any[] | null> {
+    for (const rpcUrl of this.config.rpcEndpoints) {
+      try {
+        const response = await this.apiClient.post(rpcUrl, {
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'getMultipleAccounts',
+          params: [addresses, { encoding: 'base64', dataSlice: { offset: 0, length: 0 } }]
+        });
+
+        const accounts = response.data?.result?.value;
+        if (Array.isArray(accounts) && accounts.length === addresses.length) {
+          return accounts;
+        }
+      } catch (error) {
+        continue;
+      }
+    }
+
+    logger.warn(`Account lookup failed for ${addresses.length} addresses on every RPC endpoint`);
+    return null;
+  }
+
+  private getCached(address: string): AddressClassification | null {
+    const cached = this.cache.get(address);
+    if (!cached) return null;
+    return Date.now() - new Date(cached.classifiedAt).getTime() < this.config.cacheTtlMs ? cached : null;
+  }
+
+  private build(
+    address: string,
+    accountType: AccountType,
+    reason: string,
+    details: Partial<Pick<AddressClassification, 'label' | 'owner' | 'executable'>> = {}
+  ): AddressClassification {
+    return {
+      address,
+      accountType,
+      reason,
+      label: details.label ?? null,
+      owner: details.owner ?? null,
+      executable: details.executable ?? null,
+      classifiedAt: new Date().toISOString()
+    };
+  }
+
+  // { "<address>": { "type": "TREASURY", "name": "..." } }
+  private loadLabels(): void {
+    if (!this.config.labelsFile) return;
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(path.resolve(this.config.labelsFile), 'utf8'));
+      let added = 0;
+
+      for (const [address, label] of Object.entries<any>(parsed)) {
+        if (!SolanaAddress.decode(address) || !['EXCHANGE', 'TREASURY', 'BRIDGE', 'PROGRAM'].includes(label?.type)) {
+          logger.warn(`Skipping invalid address label for ${address}`);
+          continue;
+        }
+        this.labels[address] = { type: label.type, name: String(label.name || label.type) };
+        added++;
+      }
+
+      logger.info(`🏷️ Loaded ${added} address labels from ${this.config.labelsFile}`);
+    } catch (error) {
+      logger.error('❌ Error loading address labels:', error);
+    }
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.cacheFile)) {
+        const parsed = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8'));
+        (parsed.classifications || []).forEach((classification: AddressClassification) => {
+          this.cache.set(classification.address, classification);
+        });
+      }
+    } catch (error) {
+      logger.error('❌ Error loading address classifications:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.cacheFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        classifications: Array.from(this.cache.values())
+      }));
+    } catch (error) {
+      logger.error('❌ Error saving address classifications:', error);
+    }
+  }
+}
@@ -0,0 +1,437 @@
+// src/services/alertSubscriptions.service.ts - OUTBOUND ALERTS WITH SIGNED WEBHOOK DELIVERY
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import axios from 'axios';
+import {
+  AlertEvent,
+  AlertEventType,
+  DeliveryRecord,
+  Subscription,
+  SubscriptionFilters,
+  SwapTrade,
+  WhaleWallet
+} from '../types/whale.types';
+import { logger } from '../utils/logger';
+import { Helpers } from '../utils/helpers';
+import { OutboundUrl } from '../utils/outbound-url';
+import { writeFileAtomic } from '../utils/atomic-file';
+
+export interface AlertDeliveryConfig {
+  maxAttempts: number;
+  retryBaseMs: number;
+  timeoutMs: number;
+}
+
+export class AlertSubscriptionService {
+  private dataDir = path.join(process.cwd(), 'data');
+  private subscriptionsFile = path.join(this.dataDir, 'subscriptions.json');
+  private deliveriesFile = path.join(this.dataDir, 'deliveries.json');
+
+  private subscriptions: Subscription[] = [];
+  private deliveries: DeliveryRecord[] = []; // newest first, pending and finished
+  private deadLetters: DeliveryRecord[] = [];  // newest first
+  private processing = false;
+
+  private readonly MAX_DELIVERY_LOG = 5000;
+  private readonly MAX_DEAD_LETTERS = 1000;
+  private readonly MAX_CONCURRENT_DELIVERIES = 10;
+
+  config: AlertDeliveryConfig = {
+    maxAttempts: parseInt(process.env.ALERT_MAX_ATTEMPTS || '5'),
+    retryBaseMs: parseInt(process.env.ALERT_RETRY_BASE_MS || '5000'),
+    timeoutMs: parseInt(process.env.ALERT_DELIVERY_TIMEOUT_MS || '10000')
+  };
+
+  constructor() {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+
+    // Pending deliveries (including ones left over from a restart) are picked up here
+    setInterval(() => this.processDue(), 1000).unref();
+  }
+
+  // ===============================
+  // SUBSCRIPTIONS
+  // ===============================
+
+  createSubscription(url: string, filters: SubscriptionFilters, description?: string, secret?: string): Subscription {
+    const now = new Date().toISOString();
+    const subscription: Subscription = {
+      id: AlertSubscriptionService.newId('sub'),
+      url,
+      secret: secret || crypto.randomBytes(32).toString('hex'),
+      description,
+      filters,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.subscriptions.push(subscription);
+    this.saveSubscriptions();
+    logger.success(`🔔 Subscription ${subscription.id} created for ${url}`);
+    return subscription;
+  }
+
+  updateSubscription(id: string, changes: Partial<Pick<Subscription, 'url' | 'filters' | 'description' | 'enabled'>>): Subscription | null {
+    const subscription = this.getSubscription(id);
+    if (!subscription) return null;
+
+    Object.assign(subscription, changes, { updatedAt: new Date().toISOString() });
+    this.saveSubscriptions();
+    return subscription;
+  }
+
+  deleteSubscription(id: string): boolean {
+    const before = this.subscriptions.length;
+    this.subscriptions = this.subscriptions.filter(subscription => subscription.id !== id);
+    if (this.subscriptions.length === before) return false;
+
+    // Nothing left to deliver to
+    this.deliveries = this.deliveries.filter(delivery => delivery.subscriptionId !== id || delivery.status !== 'PENDING');
+    this.saveSubscriptions();
+    this.saveDeliveries();
+    return true;
+  }
+
+  getSubscriptions(): Subscription[] {
+    return this.subscriptions;
+  }
+
+  getSubscription(id: string): Subscription | null {
+    return this.subscriptions.find(subscription => subscription.id === id) || null;
+  }
+
+  getDeliveries(subscriptionId: string, limit: number = 100): DeliveryRecord[] {
+    return this.deliveries
+      .filter(delivery => delivery.subscriptionId === subscriptionId)
+      .slice(0, limit);
+  }
+
+  getDeadLetters(subscriptionId?: string, limit: number = 100): DeliveryRecord[] {
+    return this.deadLetters
+      .filter(delivery => !subscriptionId || delivery.subscriptionId === subscriptionId)
+      .slice(0, limit);
+  }
+
+  // Move a dead letter back into the queue with a fresh attempt budget
+  retryDeadLetter(id: string): DeliveryRecord | null {
+    const delivery = this.deadLetters.find(record => record.id === id);
+    if (!delivery || !this.getSubscription(delivery.subscriptionId)) return null;
+
+    this.deadLetters = this.deadLetters.filter(record => record.id !== id);
+    Object.assign(delivery, {
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      updatedAt: new Date().toISOString()
+    });
+
+    this.deliveries = [delivery, ...this.deliveries.filter(record => record.id !== id)];
+    this.saveDeliveries();
+    return delivery;
+  }
+
+  // Returns a human-readable problem, or null when the filters are usable
+  static validateFilters(filters: any): string | null {
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+      return 'filters must be an object';
+    }
+
+    if (filters.wallets !== undefined) {
+      if (!Array.isArray(filters.wallets) || !filters.wallets.every((address: any) => Helpers.isValidSolanaAddress(address))) {
+        return 'filters.wallets must be an array of Solana addresses';
+      }
+    }
+
+    for (const key of ['balanceChangePercent', 'tradeAboveUsd']) {
+      if (filters[key] !== undefined && (typeof filters[key] !== 'number' || filters[key] < 0)) {
+        return `filters.${key} must be a non-negative number`;
+      }
+    }
+
+    for (const key of ['categoryChange', 'newWhale', 'walletDropped']) {
+      if (filters[key] !== undefined && typeof filters[key] !== 'boolean') {
+        return `filters.${key} must be a boolean`;
+      }
+    }
+
+    const hasRule = filters.categoryChange || filters.newWhale || filters.walletDropped
+      || filters.balanceChangePercent !== undefined || filters.tradeAboveUsd !== undefined;
+    if (!hasRule) {
+      return 'At least one event rule is required: categoryChange, balanceChangePercent, tradeAboveUsd, newWhale or walletDropped';
+    }
+
+    return null;
+  }
+
+  // ===============================
+  // EVENTS
+  // ===============================
+
+  // Compare a wallet before and after an update; `previous` undefined means it was just discovered
+  walletEvents(previous: WhaleWallet | undefined, current: WhaleWallet): AlertEvent[] {
+    if (!previous) {
+      return [this.event('WHALE_DISCOVERED', current.address, {
+        category: current.category,
+        balanceUsd: current.balance.totalBalanceUsd,
+        winRate: current.stats.winRate
+      })];
+    }
+
+    const events: AlertEvent[] = [];
+
+    if (previous.category !== current.category) {
+      events.push(this.event('CATEGORY_CHANGED', current.address, {
+        from: previous.category,
+        to: current.category,
+        balanceUsd: current.balance.totalBalanceUsd
+      }));
+    }
+
+    const before = previous.balance.totalBalanceUsd;
+    const after = current.balance.totalBalanceUsd;
+    if (before > 0 && after !== before) {
+      events.push(this.event('BALANCE_CHANGED', current.address, {
+        fromUsd: before,
+        toUsd: after,
+        changeUsd: after - before,
+        changePercent: ((after - before) / before) * 100
+      }));
+    }
+
+    return events;
+  }
+
+  tradeEvents(trades: SwapTrade[]): AlertEvent[] {
+    return trades.map(trade => this.event('TRADE', trade.wallet, { ...trade }));
+  }
+
+  droppedEvent(wallet: WhaleWallet, reason: string): AlertEvent {
+    return this.event('WALLET_DROPPED', wallet.address, {
+      reason,
+      category: wallet.category,
+      lastBalanceUsd: wallet.balance.totalBalanceUsd
+    });
+  }
+
+  // Queue a delivery for every enabled subscription whose filters match
+  publish(events: AlertEvent[]): number {
+    let queued = 0;
+
+    for (const event of events) {
+      for (const subscription of this.subscriptions) {
+        if (!subscription.enabled || !AlertSubscriptionService.matches(subscription.filters, event)) continue;
+
+        const now = new Date().toISOString();
+        this.deliveries.unshift({
+          id: AlertSubscriptionService.newId('dlv'),
+          subscriptionId: subscription.id,
+          url: subscription.url,
+          event,
+          status: 'PENDING',
+          attempts: 0,
+          nextAttemptAt: Date.now(),
+          lastStatusCode: null,
+          lastError: null,
+          createdAt: now,
+          updatedAt: now
+        });
+        queued++;
+      }
+    }
+
+    if (queued > 0) {
+      this.trimDeliveryLog();
+      this.saveDeliveries();
+      logger.info(`🔔 ${queued} alert deliveries queued`);
+    }
+
+    return queued;
+  }
+
+  static matches(filters: SubscriptionFilters, event: AlertEvent): boolean {
+    if (filters.wallets && filters.wallets.length > 0 && !filters.wallets.includes(event.address)) {
+      return false;
+    }
+
+    switch (event.type) {
+      case 'CATEGORY_CHANGED':
+        return !!filters.categoryChange;
+      case 'BALANCE_CHANGED':
+        return filters.balanceChangePercent !== undefined
+          && Math.abs(event.data.changePercent) >= filters.balanceChangePercent;
+      case 'TRADE':
+        return filters.tradeAboveUsd !== undefined
+          && event.data.valueUsd !== null
+          && event.data.valueUsd >= filters.tradeAboveUsd;
+      case 'WHALE_DISCOVERED':
+        return !!filters.newWhale;
+      case 'WALLET_DROPPED':
+        return !!filters.walletDropped;
+      default:
+        return false;
+    }
+  }
+
+  // Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare to X-Whale-Signature
+  static sign(secret: string, timestamp: string, body: string): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  getStats(): any {
+    const count = (status: DeliveryRecord['status']) => this.deliveries.filter(delivery => delivery.status === status).length;
+
+    return {
+      subscriptions: this.subscriptions.length,
+      enabledSubscriptions: this.subscriptions.filter(subscription => subscription.enabled).length,
+      pending: count('PENDING'),
+      delivered: count('DELIVERED'),
+      deadLetters: this.deadLetters.length,
+      config: this.config
+    };
+  }
+
+  // ===============================
+  // DELIVERY
+  // ===============================
+
+  private async processDue(): Promise<void> {
+    if (this.processing) return;
+
+    const now = Date.now();
+    const due = this.deliveries
+      .filter(delivery => delivery.status === 'PENDING' && (delivery.nextAttemptAt ?? 0) <= now)
+      .slice(0, this.MAX_CONCURRENT_DELIVERIES);
+    if (due.length === 0) return;
+
+    this.processing = true;
+    try {
+      await Promise.all(due.map(delivery => this.attempt(delivery)));
+      this.saveDeliveries();
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async attempt(delivery: DeliveryRecord): Promise<void> {
+    const subscription = this.getSubscription(delivery.subscriptionId);
+    if (!subscription) return;
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify({
+      deliveryId: delivery.id,
+      subscriptionId: subscription.id,
+      event: delivery.event
+    });
+
+    delivery.attempts++;
+    delivery.updatedAt = new Date().toISOString();
+
+    try {
+      // Subscriptions stored before the URL checks existed are held to them here too
+      const urlError = OutboundUrl.validate(subscription.url);
+      if (urlError) throw new Error(urlError);
+
+      const response = await axios.post(subscription.url, body, {
+        timeout: this.config.timeoutMs,
+        lookup: OutboundUrl.lookup,
+        maxRedirects: 0,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Whale-Event': delivery.event.type,
+          'X-Whale-Delivery': delivery.id,
+          'X-Whale-Timestamp': timestamp,
+          'X-Whale-Signature': AlertSubscriptionService.sign(subscription.secret, timestamp, body)
+        },
+        // Any 2xx is an acknowledgement; everything else is retried
+        validateStatus: status => status >= 200 && status < 300
+      });
+
+      delivery.status = 'DELIVERED';
+      delivery.nextAttemptAt = null;
+      delivery.lastStatusCode = response.status;
+      delivery.lastError = null;
+    } catch (error: any) {
+      delivery.lastStatusCode = error?.response?.status ?? null;
+      delivery.lastError = error?.message || String(error);
+
+      if (delivery.attempts >= this.config.maxAttempts) {
+        delivery.status = 'DEAD';
+        delivery.nextAttemptAt = null;
+        this.deadLetters.unshift(delivery);
+        this.deadLetters = this.deadLetters.slice(0, this.MAX_DEAD_LETTERS);
+        logger.warn(`☠️ Alert ${delivery.id} to ${subscription.url} moved to dead letters after ${delivery.attempts} attempts`);
+      } else {
+        // Exponential backoff: base, 2x base, 4x base, ...
+        delivery.nextAttemptAt = Date.now() + this.config.retryBaseMs * Math.pow(2, delivery.attempts - 1);
+      }
+    }
+  }
+
+  // Finished records beyond the cap are dropped oldest first; pending ones are always kept
+  private trimDeliveryLog(): void {
+    let finished = 0;
+    this.deliveries = this.deliveries.filter(delivery => {
+      if (delivery.status === 'PENDING') return true;
+      return ++finished <= this.MAX_DELIVERY_LOG;
+    });
+  }
+
+  private event(type: AlertEventType, address: string, data: Record<string, any>): AlertEvent {
+    return {
+      id: AlertSubscriptionService.newId('evt'),
+      type,
+      address,
+      timestamp: new Date().toISOString(),
+      data
+    };
+  }
+
+  private static newId(prefix: string): string {
+    return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.subscriptionsFile)) {
+        this.subscriptions = JSON.parse(fs.readFileSync(this.subscriptionsFile, 'utf8')).subscriptions || [];
+        logger.info(`📥 Loaded ${this.subscriptions.length} alert subscriptions`);
+      }
+      if (fs.existsSync(this.deliveriesFile)) {
+        const parsed = JSON.parse(fs.readFileSync(this.deliveriesFile, 'utf8'));
+        this.deliveries = parsed.deliveries || [];
+        this.deadLetters = parsed.deadLetters || [];
+      }
+    } catch (error) {
+      logger.error('❌ Error loading alert subscriptions:', error);
+    }
+  }
+
+  private saveSubscriptions(): void {
+    try {
+      writeFileAtomic(this.subscriptionsFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        subscriptions: this.subscriptions
+      }, null, 2));
+    } catch (error) {
+      logger.error('❌ Error saving alert subscriptions:', error);
+    }
+  }
+
+  private saveDeliveries(): void {
+    try {
+      this.trimDeliveryLog();
+      writeFileAtomic(this.deliveriesFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        deliveries: this.deliveries,
+        deadLetters: this.deadLetters
+      }));
+    } catch (error) {
+      logger.error('❌ Error saving alert deliveries:', error);
+    }
+  }
+}
@@ -0,0 +1,458 @@
+// src/services/apiKeys.service.ts - PER-CLIENT API KEYS, SCOPES AND QUOTAS
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { API_TIERS, ApiTier, DEFAULT_API_TIER } from '../config/api-tiers.config';
+import { logger } from '../utils/logger';
+import { writeFileAtomic } from '../utils/atomic-file';
+
+export type ApiScope = 'read' | 'refresh' | 'admin';
+export const API_SCOPES: ApiScope[] = ['read', 'refresh', 'admin'];
+
+// off: no keys checked; writes: anonymous reads allowed; required: every request needs a key
+export type ApiAuthMode = 'off' | 'writes' | 'required';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyHash: string;           // sha256 of the key; the key itself is shown once at creation
+  prefix: string;            // first characters, to recognize a key in listings
+  scopes: ApiScope[];
+  tier: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  usage: { day: string; requests: number; refreshes: number };
+  totalRequests: number;
+  endpoints: Record<string, number>; // "GET /api/whales" -> count
+}
+
+export interface ApiRequestLogEntry {
+  timestamp: string;
+  keyId: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  ip: string | undefined;
+}
+
+export interface QuotaStatus {
+  keyId: string;
+  name: string;
+  tier: string;
+  limits: ApiTier;
+  minute: { used: number; remaining: number; resetAt: string };
+  day: { used: number; remaining: number; resetAt: string };
+  refreshes: { used: number; remaining: number; resetAt: string };
+}
+
+const ENV_ADMIN_KEY_ID = 'key_env_admin';
+
+export class ApiKeyService {
+  private static instance: ApiKeyService;
+
+  private dataDir = path.join(process.cwd(), 'data');
+  private keysFile = path.join(this.dataDir, 'api-keys.json');
+  private requestLogFile = path.join(process.cwd(), 'logs', 'api-requests.log');
+
+  private keys = new Map<string, ApiKeyRecord>();
+  private byHash = new Map<string, string>(); // keyHash -> id
+  private minuteWindows = new Map<string, { start: number; count: number }>();
+  private recentRequests = new Map<string, ApiRequestLogEntry[]>();
+  private dirty = false;
+
+  private readonly RECENT_REQUESTS_PER_KEY = 200;
+
+  readonly mode: ApiAuthMode = ['off', 'writes', 'required'].includes(process.env.API_AUTH_MODE || '')
+    ? process.env.API_AUTH_MODE as ApiAuthMode
+    : 'writes';
+
+  static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  constructor(private adminKey: string | undefined = process.env.API_ADMIN_KEY) {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+
+    // The bootstrap key from the environment is how the first real keys get created;
+    // a changed or removed API_ADMIN_KEY must stop the old value from working
+    this.byHash.forEach((id, hash) => {
+      if (id === ENV_ADMIN_KEY_ID) this.byHash.delete(hash);
+    });
+
+    if (adminKey) {
+      const record = this.newRecord(ENV_ADMIN_KEY_ID, 'env admin', adminKey, ['read', 'refresh', 'admin'], 'internal');
+      const existing = this.keys.get(ENV_ADMIN_KEY_ID);
+      this.keys.set(record.id, existing ? { ...existing, keyHash: record.keyHash, prefix: record.prefix } : record);
+      this.byHash.set(record.keyHash, record.id);
+    } else {
+      this.keys.delete(ENV_ADMIN_KEY_ID);
+      if (this.mode !== 'off' && this.getKeys().length === 0) {
+        logger.warn('🔑 No API keys and no API_ADMIN_KEY - write endpoints are unreachable until one is configured');
+      }
+    }
+
+    setInterval(() => this.flush(), 60000).unref();
+  }
+
+  // Which scope a request needs; null for routes with their own authentication
+  static requiredScope(method: string, apiPath: string, query: Record<string, unknown> = {}): ApiScope | null {
+    if (apiPath.startsWith('/webhooks/')) return null;
+    if (apiPath === '/keys' || apiPath.startsWith('/keys/')) return 'admin';
+    if (apiPath === '/snapshots' || apiPath.startsWith('/snapshots/')) return 'admin';
+    // Expanding the graph scans wallets; answering from stored edges is a plain read
+    if (method === 'GET' && apiPath === '/graph' && Number(query.budget) > 0) return 'refresh';
+    if (['GET', 'HEAD', 'OPTIONS'].includes(method)) return 'read';
+
+    // Anything that makes the server spend Helius credits on a wallet
+    if (method === 'POST' && apiPath.startsWith('/refresh/')) return 'refresh';
+    if (apiPath === '/watchlist' || apiPath.startsWith('/watchlist/')) return 'refresh';
+
+    return 'admin';
+  }
+
+  static hasScope(key: ApiKeyRecord, scope: ApiScope): boolean {
+    return key.scopes.includes('admin') || key.scopes.includes(scope);
+  }
+
+  // Raw key from `X-API-Key` or `Authorization: Bearer`
+  static extractKey(headers: IncomingMessage['headers']): string | null {
+    const header = headers['x-api-key'];
+    if (typeof header === 'string' && header) return header;
+
+    const authorization = headers.authorization;
+    if (typeof authorization === 'string' && authorization.startsWith('Bearer ')) {
+      return authorization.substring(7).trim() || null;
+    }
+
+    return null;
+  }
+
+  authenticate(rawKey: string | null): ApiKeyRecord | null {
+    if (!rawKey) return null;
+
+    const id = this.byHash.get(ApiKeyService.hash(rawKey));
+    const key = id ? this.keys.get(id) : undefined;
+    return key && !key.revokedAt ? key : null;
+  }
+
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (this.mode === 'off') return next();
+
+      const scope = ApiKeyService.requiredScope(req.method, req.path, req.query);
+      if (!scope) return next();
+
+      // EventSource can't set headers, so the stream also takes the key as a query param
+      const rawKey = ApiKeyService.extractKey(req.headers)
+        || (req.path === '/stream' && typeof req.query.apiKey === 'string' ? req.query.apiKey : null);
+      if (!rawKey) {
+        if (this.mode === 'writes' && scope === 'read') return next();
+
+        res.status(401).json({
+          success: false,
+          message: `API key with '${scope}' scope required (X-API-Key header)`
+        });
+        return;
+      }
+
+      const key = this.authenticate(rawKey);
+      if (!key) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid or revoked API key'
+        });
+        return;
+      }
+
+      if (!ApiKeyService.hasScope(key, scope)) {
+        res.status(403).json({
+          success: false,
+          message: `API key '${key.name}' lacks the '${scope}' scope`
+        });
+        return;
+      }
+
+      const rejection = this.consume(key, scope);
+      const quota = this.getQuota(key);
+      res.setHeader('X-RateLimit-Limit', quota.limits.requestsPerMinute);
+      res.setHeader('X-RateLimit-Remaining', quota.minute.remaining);
+      res.setHeader('X-Quota-Remaining', quota.day.remaining);
+
+      if (rejection) {
+        res.status(429).json({
+          success: false,
+          message: rejection.message,
+          retryAfter: rejection.retryAfter
+        });
+        return;
+      }
+
+      res.locals.apiKey = key;
+
+      const startTime = Date.now();
+      res.on('finish', () => {
+        const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : req.originalUrl.split('?')[0];
+        this.logRequest(key, req, route, res.statusCode, Date.now() - startTime);
+      });
+
+      next();
+    };
+  }
+
+  // WebSocket upgrades skip Express middleware; in `required` mode they need a read key too
+  authorizeUpgrade(request: IncomingMessage): boolean {
+    if (this.mode !== 'required') return true;
+
+    const url = new URL(request.url || '/', 'http://localhost');
+    const key = this.authenticate(ApiKeyService.extractKey(request.headers) || url.searchParams.get('apiKey'));
+    return !!key && ApiKeyService.hasScope(key, 'read');
+  }
+
+  getQuota(key: ApiKeyRecord, now: number = Date.now()): QuotaStatus {
+    const limits = API_TIERS[key.tier] || API_TIERS[DEFAULT_API_TIER];
+    const window = this.minuteWindows.get(key.id);
+    const minuteUsed = window && now - window.start < 60000 ? window.count : 0;
+    const usage = this.usageFor(key, now);
+    const nextDay = new Date(now);
+    nextDay.setUTCHours(24, 0, 0, 0);
+
+    return {
+      keyId: key.id,
+      name: key.name,
+      tier: key.tier,
+      limits,
+      minute: {
+        used: minuteUsed,
+        remaining: Math.max(0, limits.requestsPerMinute - minuteUsed),
+        resetAt: new Date(window && minuteUsed > 0 ? window.start + 60000 : now).toISOString()
+      },
+      day: {
+        used: usage.requests,
+        remaining: Math.max(0, limits.requestsPerDay - usage.requests),
+        resetAt: nextDay.toISOString()
+      },
+      refreshes: {
+        used: usage.refreshes,
+        remaining: Math.max(0, limits.refreshesPerDay - usage.refreshes),
+        resetAt: nextDay.toISOString()
+      }
+    };
+  }
+
+  // ===============================
+  // KEY MANAGEMENT
+  // ===============================
+
+  // The raw key is returned here only; just its hash is stored
+  createKey(name: string, scopes: ApiScope[], tier: string = DEFAULT_API_TIER): { key: string; record: ApiKeyRecord } {
+    const rawKey = `wk_${crypto.randomBytes(24).toString('hex')}`;
+    const record = this.newRecord(`key_${crypto.randomBytes(8).toString('hex')}`, name, rawKey, scopes, tier);
+
+    this.keys.set(record.id, record);
+    this.byHash.set(record.keyHash, record.id);
+    this.save();
+
+    logger.info(`🔑 Created API key ${record.id} (${name}, ${scopes.join('/')}, ${tier})`);
+    return { key: rawKey, record };
+  }
+
+  updateKey(id: string, changes: Partial<Pick<ApiKeyRecord, 'name' | 'scopes' | 'tier'>>): ApiKeyRecord | null {
+    const key = this.keys.get(id);
+    if (!key || key.revokedAt || id === ENV_ADMIN_KEY_ID) return null;
+
+    Object.assign(key, changes);
+    this.save();
+    return key;
+  }
+
+  revokeKey(id: string): ApiKeyRecord | null {
+    const key = this.keys.get(id);
+    if (!key || key.revokedAt || id === ENV_ADMIN_KEY_ID) return null;
+
+    key.revokedAt = new Date().toISOString();
+    this.save();
+
+    logger.info(`🔑 Revoked API key ${id} (${key.name})`);
+    return key;
+  }
+
+  getKeys(includeRevoked: boolean = false): ApiKeyRecord[] {
+    return Array.from(this.keys.values()).filter(key => includeRevoked || !key.revokedAt);
+  }
+
+  getKey(id: string): ApiKeyRecord | null {
+    return this.keys.get(id) || null;
+  }
+
+  getRecentRequests(id: string, limit: number = 50): ApiRequestLogEntry[] {
+    return (this.recentRequests.get(id) || []).slice(-limit).reverse();
+  }
+
+  // Returns a message describing the first problem, or null
+  static validateKeyFields(fields: any, partial: boolean): string | null {
+    if (!fields || typeof fields !== 'object') return 'Body must be an object';
+
+    if (!partial || fields.name !== undefined) {
+      if (typeof fields.name !== 'string' || !fields.name.trim() || fields.name.length > 100) {
+        return 'name is required (at most 100 characters)';
+      }
+    }
+
+    if (!partial || fields.scopes !== undefined) {
+      if (!Array.isArray(fields.scopes) || fields.scopes.length === 0 || !fields.scopes.every((scope: any) => API_SCOPES.includes(scope))) {
+        return `scopes must be a non-empty array of ${API_SCOPES.join(', ')}`;
+      }
+    }
+
+    if (fields.tier !== undefined && !API_TIERS[fields.tier]) {
+      return `tier must be one of ${Object.keys(API_TIERS).join(', ')}`;
+    }
+
+    return null;
+  }
+
+  // Keys as shown to admins: everything but the hash
+  static toPublic(key: ApiKeyRecord): Omit<ApiKeyRecord, 'keyHash'> {
+    const { keyHash, ...rest } = key;
+    return rest;
+  }
+
+  flush(): void {
+    if (this.dirty) this.save();
+  }
+
+  getStats(): any {
+    const keys = this.getKeys();
+    return {
+      mode: this.mode,
+      activeKeys: keys.length,
+      requestsToday: keys.reduce((sum, key) => sum + this.usageFor(key, Date.now()).requests, 0),
+      tiers: API_TIERS
+    };
+  }
+
+  // Fixed one-minute window plus the per-day request and refresh quotas
+  private consume(key: ApiKeyRecord, scope: ApiScope, now: number = Date.now()): { message: string; retryAfter: number } | null {
+    const quota = this.getQuota(key, now);
+
+    if (quota.minute.remaining <= 0) {
+      return {
+        message: `Rate limit of ${quota.limits.requestsPerMinute} requests per minute reached for tier '${key.tier}'`,
+        retryAfter: Math.ceil((new Date(quota.minute.resetAt).getTime() - now) / 1000)
+      };
+    }
+    if (quota.day.remaining <= 0 || (scope === 'refresh' && quota.refreshes.remaining <= 0)) {
+      return {
+        message: quota.day.remaining <= 0
+          ? `Daily quota of ${quota.limits.requestsPerDay} requests used up`
+          : `Daily quota of ${quota.limits.refreshesPerDay} refreshes used up`,
+        retryAfter: Math.ceil((new Date(quota.day.resetAt).getTime() - now) / 1000)
+      };
+    }
+
+    const window = this.minuteWindows.get(key.id);
+    if (!window || now - window.start >= 60000) {
+      this.minuteWindows.set(key.id, { start: now, count: 1 });
+    } else {
+      window.count++;
+    }
+
+    const usage = this.usageFor(key, now);
+    usage.requests++;
+    if (scope === 'refresh') usage.refreshes++;
+    key.usage = usage;
+    this.dirty = true;
+
+    return null;
+  }
+
+  private usageFor(key: ApiKeyRecord, now: number): ApiKeyRecord['usage'] {
+    const day = new Date(now).toISOString().substring(0, 10);
+    return key.usage?.day === day ? key.usage : { day, requests: 0, refreshes: 0 };
+  }
+
+  private logRequest(key: ApiKeyRecord, req: Request, route: string, status: number, durationMs: number): void {
+    const entry: ApiRequestLogEntry = {
+      timestamp: new Date().toISOString(),
+      keyId: key.id,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status,
+      durationMs,
+      ip: req.ip
+    };
+
+    key.lastUsedAt = entry.timestamp;
+    key.totalRequests++;
+    const endpoint = `${req.method} ${route}`;
+    key.endpoints[endpoint] = (key.endpoints[endpoint] || 0) + 1;
+    this.dirty = true;
+
+    const recent = this.recentRequests.get(key.id) || [];
+    recent.push(entry);
+    if (recent.length > this.RECENT_REQUESTS_PER_KEY) recent.shift();
+    this.recentRequests.set(key.id, recent);
+
+    fs.appendFile(this.requestLogFile, JSON.stringify(entry) + '\n', error => {
+      if (error) logger.error('❌ Error writing API request log:', error);
+    });
+  }
+
+  private newRecord(id: string, name: string, rawKey: string, scopes: ApiScope[], tier: string): ApiKeyRecord {
+    return {
+      id,
+      name,
+      keyHash: ApiKeyService.hash(rawKey),
+      prefix: id === ENV_ADMIN_KEY_ID ? 'env' : rawKey.substring(0, 10),
+      scopes,
+      tier,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+      usage: { day: new Date().toISOString().substring(0, 10), requests: 0, refreshes: 0 },
+      totalRequests: 0,
+      endpoints: {}
+    };
+  }
+
+  private static hash(rawKey: string): string {
+    return crypto.createHash('sha256').update(rawKey).digest('hex');
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.keysFile)) {
+        const parsed = JSON.parse(fs.readFileSync(this.keysFile, 'utf8'));
+        (parsed.keys || []).forEach((key: ApiKeyRecord) => {
+          this.keys.set(key.id, key);
+          this.byHash.set(key.keyHash, key.id);
+        });
+        logger.info(`📥 Loaded ${this.keys.size} API keys`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading API keys:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileAtomic(this.keysFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        keys: Array.from(this.keys.values())
+      }, null, 2));
+      this.dirty = false;
+    } catch (error) {
+      logger.error('❌ Error saving API keys:', error);
+    }
+  }
+}
@@ -1,8 +1,16 @@
 // src/services/heliusFreeService.ts - OPTIMIZED FOR FREE PLAN (10M CREDITS)
 import axios, { AxiosInstance } from 'axios';
-import { WhaleWallet, WalletBalance, WalletStats } from '../types/whale.types';
+import { WhaleWallet, WalletBalance, WalletStats, SwapTrade, CreditCategory } from '../types/whale.types';
 import { logger } from '../utils/logger';
 import { Helpers } from '../utils/helpers';
+import { Provenance } from '../utils/provenance';
+import { PnlEngine } from './pnlEngine.service';
+import { PriceOracle } from './priceOracle.service';
+import { PriceHistoryService } from './priceHistory.service';
+import { Holdings, RawTokenBalance } from '../utils/holdings';
+import { SOL_MINT, STABLECOIN_MINTS } from '../config/tokens.config';
+import { CreditLedger } from '../utils/credit-ledger';
+import { HeliusMethod, WALLET_ANALYSIS_METHODS, WALLET_BALANCE_METHODS, creditCost } from '../config/helius-costs.config';
 
 interface CreditUsage {
   used: number;
@@ -12,9 +20,19 @@ interface CreditUsage {
   dailyLimit: number;
 }
 
+export interface RefreshEstimate {
+  category: CreditCategory;
+  wallets: number;
+  cached: number;              // served from cache, no calls
+  toAnalyze: number;
+  minCredits: number;          // every wallet misses the balance cutoff
+  maxCredits: number;          // every wallet gets its transactions fetched
+  categoryRemaining: number;
+  affordable: boolean;         // the worst case fits the category budget
+  affordableWallets: number;
+}
+
 interface FreePlanConfig {
-  maxCreditsPerMonth: number;
-  maxCreditsPerDay: number;
   maxWalletsToTrack: number;
   refreshIntervalHours: number;
   batchSize: number;
@@ -22,10 +40,16 @@ interface FreePlanConfig {
 }
 
 export class HeliusFreeService {
+  // Balance, token accounts and one page of transactions, priced from the cost table
+  static readonly CREDITS_PER_WALLET = creditCost(WALLET_ANALYSIS_METHODS);
+
   private heliusApi: AxiosInstance;
-  private creditUsage: CreditUsage;
   private config: FreePlanConfig;
-  private lastCreditCheck = 0;
+  private priceOracle = PriceOracle.getInstance();
+  private priceHistory = PriceHistoryService.getInstance();
+  private tradeListeners: Array<(trades: SwapTrade[]) => void> = [];
+  private rejectionListeners: Array<(address: string, reason: string) => void> = [];
+  private manualWallets = new Set<string>();
   
   // Smart cache for credit conservation
   private walletCache = new Map<string, { 
@@ -36,7 +60,6 @@ export class HeliusFreeService {
   
   // Known high-quality whale addresses (saves discovery credits)
   private readonly KNOWN_WHALES = [
-    '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM', // Serum
     'EhpADckqRbCNSLqnSmeMnF8PjQiX8jg6JXxrHvQaDSyB', // Known mega whale
     '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1',  // Known super whale
     'GThUX1Atko4tqhN2NaiTazWSeFWMuiUiswQESGMd9BKJ',  // Active whale
@@ -48,19 +71,8 @@ export class HeliusFreeService {
     'C2jDL4pcwpE2pP8DfW9TDM5F1F7VpVhKz9VpjK7PqNq8'    // Large SOL holder
   ];
 
-  // High-value token mints (focus on these to save credits)
-  private readonly PRIORITY_TOKENS = [
-    'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
-    'So11111111111111111111111111111111111111112',   // Wrapped SOL
-    'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',    // JUP
-    'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',    // mSOL
-    'bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1'     // bSOL
-  ];
-
-  constructor(apiKey: string) {
+  constructor(apiKey: string, private ledger: CreditLedger) {
     this.config = {
-      maxCreditsPerMonth: 10000000,      // 10M credits
-      maxCreditsPerDay: 333333,          // ~10M/30 days
       maxWalletsToTrack: 200,            // Reduced for free plan
       refreshIntervalHours: 6,           // Refresh every 6 hours to save credits
       batchSize: 20,                     // Smaller batches for free plan
@@ -77,14 +89,6 @@ export class HeliusFreeService {
       }
     });
 
-    this.creditUsage = {
-      used: 0,
-      remaining: this.config.maxCreditsPerMonth,
-      resetDate: this.getNextMonthStart(),
-      dailyUsed: 0,
-      dailyLimit: this.config.maxCreditsPerDay
-    };
-
     logger.success('🆓 Helius Free Service initialized - 10M credits/month optimized');
   }
 
@@ -92,67 +96,57 @@ export class HeliusFreeService {
   // CREDIT MANAGEMENT
   // ===============================
 
-  private async checkCreditUsage(): Promise<boolean> {
-    // Check credits every hour to avoid excessive API calls
-    if (Date.now() - this.lastCreditCheck < 3600000) {
-      return this.creditUsage.remaining > 1000; // Keep 1000 credits buffer
-    }
+  // Whether the category's budget still covers `credits`; checked before spending, not after
+  hasBudget(category: CreditCategory, credits: number): boolean {
+    return this.ledger.canSpend(category, credits);
+  }
 
+  // All Helius traffic from this service is sent through the ledger at the method's table cost
+  private async callHelius<T>(category: CreditCategory, method: HeliusMethod, wallet: string | null, request: () => Promise<T>): Promise<T> {
     try {
-      // Note: Helius free plan doesn't have real-time credit API
-      // We'll track usage client-side with estimation
-      this.lastCreditCheck = Date.now();
-      
-      // Reset daily counter if new day
-      const now = new Date();
-      if (now.getHours() === 0 && this.creditUsage.dailyUsed > 0) {
-        this.creditUsage.dailyUsed = 0;
+      return await this.ledger.spend(category, method, wallet, request);
+    } finally {
+      const remaining = this.ledger.getUsage().monthly.remaining;
+      if (remaining < 10000) {
+        logger.warn(`⚠️ Low credits: ${remaining} remaining`);
       }
-      
-      // Reset monthly counter if new month
-      if (now > this.creditUsage.resetDate) {
-        this.creditUsage.used = 0;
-        this.creditUsage.remaining = this.config.maxCreditsPerMonth;
-        this.creditUsage.resetDate = this.getNextMonthStart();
-        logger.info('🔄 Monthly credit limit reset');
-      }
-
-      return this.creditUsage.remaining > 1000;
-    } catch (error) {
-      logger.warn('Credit check failed, proceeding cautiously');
-      return this.creditUsage.remaining > 5000; // Be more conservative
     }
   }
 
-  private recordCreditUsage(credits: number): void {
-    this.creditUsage.used += credits;
-    this.creditUsage.remaining -= credits;
-    this.creditUsage.dailyUsed += credits;
-    
-    if (this.creditUsage.remaining < 10000) {
-      logger.warn(`⚠️ Low credits: ${this.creditUsage.remaining} remaining`);
-    }
-  }
+  // Dry run of trackWalletsOptimized without calling anything; a count stands for that many uncached wallets
+  estimateRefresh(addresses: string[] | number, category: CreditCategory = 'TRACKING'): RefreshEstimate {
+    const limitedAddresses = typeof addresses === 'number' ? null : this.limitAddresses(addresses);
+    const wallets = limitedAddresses ? limitedAddresses.length : addresses as number;
+    const toAnalyze = limitedAddresses ? this.splitCachedUncached(limitedAddresses).uncached.length : wallets;
+    const categoryRemaining = this.ledger.remaining(category);
 
-  private getNextMonthStart(): Date {
-    const now = new Date();
-    return new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    return {
+      category,
+      wallets,
+      cached: wallets - toAnalyze,
+      toAnalyze,
+      minCredits: toAnalyze * creditCost(WALLET_BALANCE_METHODS),
+      maxCredits: toAnalyze * HeliusFreeService.CREDITS_PER_WALLET,
+      categoryRemaining,
+      affordable: toAnalyze * HeliusFreeService.CREDITS_PER_WALLET <= categoryRemaining,
+      affordableWallets: Math.min(toAnalyze, Math.floor(categoryRemaining / HeliusFreeService.CREDITS_PER_WALLET))
+    };
   }
 
   // ===============================
   // OPTIMIZED WHALE TRACKING
   // ===============================
 
-  async trackWalletsOptimized(addresses: string[]): Promise<Map<string, WhaleWallet>> {
+  // Credits are charged to `category`: the regular cycle is TRACKING, client-requested refreshes API
+  async trackWalletsOptimized(addresses: string[], category: CreditCategory = 'TRACKING'): Promise<Map<string, WhaleWallet>> {
     const results = new Map<string, WhaleWallet>();
     
-    if (!await this.checkCreditUsage()) {
-      logger.warn('🚫 Credit limit approaching, using cached data only');
+    if (!this.hasBudget(category, HeliusFreeService.CREDITS_PER_WALLET)) {
+      logger.warn(`🚫 ${category} credit budget spent, using cached data only`);
       return this.getCachedWhales(addresses);
     }
 
-    // Limit addresses for free plan
-    const limitedAddresses = addresses.slice(0, this.config.maxWalletsToTrack);
+    const limitedAddresses = this.limitAddresses(addresses);
     
     // Check cache first to save credits
     const { cached, uncached } = this.splitCachedUncached(limitedAddresses);
@@ -172,13 +166,13 @@ export class HeliusFreeService {
       const batches = this.chunkArray(uncached, this.config.batchSize);
       
       for (const batch of batches) {
-        if (!await this.checkCreditUsage()) {
-          logger.warn('🚫 Credit limit reached, stopping batch processing');
+        if (!this.hasBudget(category, HeliusFreeService.CREDITS_PER_WALLET)) {
+          logger.warn(`🚫 ${category} credit budget reached, stopping batch processing`);
           break;
         }
 
         try {
-          const batchResults = await this.processBatchOptimized(batch);
+          const batchResults = await this.processBatchOptimized(batch, category);
           batchResults.forEach((whale, address) => {
             results.set(address, whale);
             this.cacheWallet(address, whale);
@@ -196,20 +190,25 @@ export class HeliusFreeService {
     return results;
   }
 
-  private async processBatchOptimized(addresses: string[]): Promise<Map<string, WhaleWallet>> {
+  // Limit addresses for free plan; watchlist wallets always make the cut
+  private limitAddresses(addresses: string[]): string[] {
+    const manual = addresses.filter(address => this.manualWallets.has(address));
+    const discovered = addresses.filter(address => !this.manualWallets.has(address));
+    return [...manual, ...discovered.slice(0, Math.max(0, this.config.maxWalletsToTrack - manual.length))];
+  }
+
+  private async processBatchOptimized(addresses: string[], category: CreditCategory): Promise<Map<string, WhaleWallet>> {
     const results = new Map<string, WhaleWallet>();
     
     // Process each wallet individually for free plan (more reliable)
     for (const address of addresses) {
+      if (!this.hasBudget(category, HeliusFreeService.CREDITS_PER_WALLET)) break;
+      
       try {
-        const whale = await this.analyzeWalletOptimized(address);
+        const whale = await this.analyzeWalletOptimized(address, category);
         if (whale) {
           results.set(address, whale);
         }
-        
-        // Record estimated credit usage (1 balance call + 1 transaction call ≈ 2 credits)
-        this.recordCreditUsage(2);
-        
       } catch (error) {
         logger.error(`Failed to analyze ${address}:`, error);
       }
@@ -218,18 +217,39 @@ export class HeliusFreeService {
     return results;
   }
 
-  private async analyzeWalletOptimized(address: string): Promise<WhaleWallet | null> {
+  private async analyzeWalletOptimized(address: string, category: CreditCategory): Promise<WhaleWallet | null> {
     try {
       // Get balance with minimal API calls
-      const balance = await this.getWalletBalanceOptimized(address);
-      if (!balance || balance.totalBalanceUsd < 25000) {
-        return null; // Don't waste credits on small wallets
+      const balance = await this.getWalletBalanceOptimized(address, category);
+      if (!balance) {
+        return null;
+      }
+
+      // Watchlist wallets are flagged rather than dropped when they miss a cutoff
+      const manual = this.manualWallets.has(address);
+      const flags: string[] = [];
+
+      if (balance.totalBalanceUsd < 25000) {
+        if (manual) {
+          flags.push('BELOW_MIN_BALANCE');
+        } else {
+          this.emitRejection(address, `Balance $${balance.totalBalanceUsd.toFixed(0)} below $25000`);
+          return null; // Don't waste credits on small wallets
+        }
       }
 
       // Get basic stats (limited transaction history to save credits)
-      const stats = await this.getWalletStatsOptimized(address);
-      if (!stats || stats.winRate < 40) {
-        return null; // Don't waste credits on poor performers
+      const stats = await this.getWalletStatsOptimized(address, category);
+      if (!stats) {
+        return null;
+      }
+      if (stats.closedTrades > 0 && stats.winRate < 40) {
+        if (manual) {
+          flags.push('BELOW_MIN_WIN_RATE');
+        } else {
+          this.emitRejection(address, `Win rate ${stats.winRate.toFixed(1)}% below 40%`);
+          return null; // Don't waste credits on proven poor performers
+        }
       }
 
       return {
@@ -242,10 +262,12 @@ export class HeliusFreeService {
         enabled: true,
         discoveredDate: new Date().toISOString(),
         lastUpdated: new Date().toISOString(),
-        source: 'HELIUS_FREE' as any,
+        source: manual ? 'MANUAL' : 'HELIUS_FREE',
         riskLevel: Helpers.calculateRiskLevel(stats.winRate, stats.totalTransactions, balance.totalBalanceUsd),
         category: Helpers.determineCategory(balance.totalBalanceUsd),
-        tags: this.generateOptimizedTags(balance, stats)
+        tags: manual
+          ? [...this.generateOptimizedTags(balance, stats), 'MANUAL', ...flags]
+          : this.generateOptimizedTags(balance, stats)
       };
 
     } catch (error) {
@@ -254,13 +276,13 @@ export class HeliusFreeService {
     }
   }
 
-  private async getWalletBalanceOptimized(address: string): Promise<WalletBalance | null> {
+  private async getWalletBalanceOptimized(address: string, category: CreditCategory): Promise<WalletBalance | null> {
     try {
       // Single API call to get balance
-      const response = await this.heliusApi.post('/v0/accounts', {
+      const response = await this.callHelius(category, 'accounts', address, () => this.heliusApi.post('/v0/accounts', {
         accounts: [address],
         encoding: 'jsonParsed'
-      });
+      }));
 
       if (!response.data?.result?.[0]) {
         return null;
@@ -268,49 +290,36 @@ export class HeliusFreeService {
 
       const accountData = response.data.result[0];
       let solBalance = 0;
-      let totalTokensUsd = 0;
 
       // Parse SOL balance
       if (accountData.lamports) {
         solBalance = accountData.lamports / 1000000000;
       }
 
-      // Get token accounts (only for priority tokens to save credits)
-      let usdcBalance = 0;
+      // Get token accounts
+      const tokens: RawTokenBalance[] = [];
       try {
-        const tokenResponse = await this.heliusApi.post('/v0/accounts', {
+        const tokenResponse = await this.callHelius(category, 'tokenAccounts', address, () => this.heliusApi.post('/v0/accounts', {
           accounts: [address],
           tokenAccountsOnly: true,
           encoding: 'jsonParsed'
-        });
-
-        if (tokenResponse.data?.result?.[0]?.tokens) {
-          const tokens = tokenResponse.data.result[0].tokens;
-          
-          for (const token of tokens) {
-            if (token.mint === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v') {
-              usdcBalance += parseFloat(token.amount) / Math.pow(10, token.decimals);
-            } else if (this.PRIORITY_TOKENS.includes(token.mint)) {
-              // Estimate other priority tokens
-              const amount = parseFloat(token.amount) / Math.pow(10, token.decimals);
-              totalTokensUsd += amount * 0.5; // Conservative estimate
-            }
-          }
+        }));
+
+        for (const token of tokenResponse.data?.result?.[0]?.tokens || []) {
+          tokens.push({
+            mint: token.mint,
+            amount: parseFloat(token.amount) / Math.pow(10, token.decimals),
+            decimals: token.decimals
+          });
         }
       } catch (error) {
         // If token account call fails, continue with SOL balance only
       }
 
-      // Estimate SOL price (use cached price to save API calls)
-      const solPrice = await this.getSolPriceOptimized();
-      const totalBalanceUsd = (solBalance * solPrice) + usdcBalance + totalTokensUsd;
+      // Price every held mint (and SOL) through the shared oracle
+      const prices = await this.priceOracle.getPriceMap([SOL_MINT, ...tokens.map(token => token.mint)]);
 
-      return {
-        sol: solBalance,
-        usdc: usdcBalance,
-        totalTokensUsd,
-        totalBalanceUsd
-      };
+      return Holdings.buildBalance(solBalance, tokens, prices);
 
     } catch (error) {
       logger.error('Error getting wallet balance:', error);
@@ -318,18 +327,18 @@ export class HeliusFreeService {
     }
   }
 
-  private async getWalletStatsOptimized(address: string): Promise<WalletStats | null> {
+  private async getWalletStatsOptimized(address: string, category: CreditCategory): Promise<WalletStats | null> {
     try {
       // Get limited transaction history to save credits
-      const response = await this.heliusApi.get(`/v0/addresses/${address}/transactions`, {
+      const response = await this.callHelius(category, 'addressTransactions', address, () => this.heliusApi.get(`/v0/addresses/${address}/transactions`, {
         params: {
-          limit: 25, // Reduced from 100 to save credits
+          limit: 100, // One call either way - FIFO needs enough history to pair buys with sells
           type: 'SWAP'
         }
-      });
+      }));
 
       if (response.data) {
-        return this.analyzeTransactionsOptimized(response.data, address);
+        return await this.analyzeTransactionsOptimized(response.data, address);
       }
 
       return null;
@@ -339,51 +348,62 @@ export class HeliusFreeService {
     }
   }
 
-  private analyzeTransactionsOptimized(transactions: any[], address: string): WalletStats {
-    const totalTransactions = transactions.length;
-    let successfulTrades = 0;
-    let lastActiveDate = new Date(0);
+  private async analyzeTransactionsOptimized(transactions: any[], address: string): Promise<WalletStats> {
+    const valuation = await this.createValuationEngine(transactions);
+
+    const { trades, stats } = valuation.engine.analyze(transactions, address);
+    this.emitTrades(trades);
 
+    const { historical, fallback } = valuation.lookups;
+    if (fallback > 0) {
+      Provenance.downgrade(stats, ['winRate', 'avgProfitLoss', 'realizedPnl', 'totalVolume'], historical / (historical + fallback));
+    }
+
+    return stats;
+  }
+
+  // Engine that values each leg at its execution time, falling back to today's price only when history has a gap
+  private async createValuationEngine(transactions: any[]): Promise<{ engine: PnlEngine; lookups: { historical: number; fallback: number } }> {
+    // Price every mint the swaps touched up front so the engine can value legs synchronously
+    const mints = new Set<string>([SOL_MINT]);
     for (const tx of transactions) {
-      if (tx.timestamp) {
-        const txDate = new Date(tx.timestamp * 1000);
-        if (txDate > lastActiveDate) {
-          lastActiveDate = txDate;
-        }
+      for (const transfer of tx?.tokenTransfers || []) {
+        if (transfer.mint) mints.add(transfer.mint);
       }
+    }
+
+    const currentPrices = await this.priceOracle.getPriceMap(Array.from(mints));
+    const lookups = { historical: 0, fallback: 0 };
 
-      if (!tx.transactionError) {
-        successfulTrades++;
+    const engine = new PnlEngine((mint: string, timestamp: number) => {
+      const historical = this.priceHistory.priceAt(mint, timestamp * 1000);
+      if (historical) {
+        lookups.historical++;
+        return historical.price;
       }
-    }
 
-    const winRate = totalTransactions > 0 ? (successfulTrades / totalTransactions) * 100 : 50;
+      const current = currentPrices.get(mint);
+      if (current === undefined) return null;
+      if (!STABLECOIN_MINTS.includes(mint)) lookups.fallback++;
+      return current;
+    });
 
-    return {
-      totalTransactions,
-      successfulTrades,
-      winRate,
-      avgProfitLoss: (winRate - 50) * 5,
-      lastActiveDate: lastActiveDate.toISOString(),
-      profitableTrades: successfulTrades,
-      totalVolume: totalTransactions * 200 // Estimate
-    };
+    return { engine, lookups };
   }
 
   private generateBasicStatsOptimized(address: string): WalletStats {
-    // Generate reasonable stats for known whales without API calls
-    const isKnownWhale = this.KNOWN_WHALES.includes(address);
-    const baseWinRate = isKnownWhale ? 70 : 55;
-    const transactions = isKnownWhale ? 50 : 25;
-
+    // No history available: every stat is a default, like PnlEngine.analyze with nothing closed
     return {
-      totalTransactions: transactions,
-      successfulTrades: Math.floor(transactions * (baseWinRate / 100)),
-      winRate: baseWinRate,
-      avgProfitLoss: (baseWinRate - 50) * 8,
-      lastActiveDate: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-      profitableTrades: Math.floor(transactions * (baseWinRate / 100)),
-      totalVolume: transactions * 300
+      totalTransactions: 0,
+      successfulTrades: 0,
+      winRate: 0,
+      avgProfitLoss: 0,
+      lastActiveDate: new Date(0).toISOString(),
+      profitableTrades: 0,
+      totalVolume: 0,
+      closedTrades: 0,
+      realizedPnl: 0,
+      provenance: Provenance.build(Provenance.defaulted())
     };
   }
 
@@ -392,8 +412,8 @@ export class HeliusFreeService {
   // ===============================
 
   async discoverWhalesOptimized(): Promise<string[]> {
-    if (!await this.checkCreditUsage()) {
-      logger.warn('🚫 Credits low, using known whales only');
+    if (!this.hasBudget('DISCOVERY', creditCost(['tokenHolders']))) {
+      logger.warn('🚫 DISCOVERY credit budget spent, using known whales only');
       return [...this.KNOWN_WHALES];
     }
 
@@ -407,7 +427,6 @@ export class HeliusFreeService {
       // Get holders of one high-value token (save credits by focusing on one)
       const usdcHolders = await this.getTokenHoldersOptimized('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
       discoveredWallets.push(...usdcHolders);
-      this.recordCreditUsage(1); // 1 credit for token holders API
 
       logger.info(`💰 Added ${usdcHolders.length} USDC holders`);
 
@@ -426,9 +445,9 @@ export class HeliusFreeService {
 
   private async getTokenHoldersOptimized(tokenMint: string): Promise<string[]> {
     try {
-      const response = await this.heliusApi.get(`/v0/token/${tokenMint}/holders`, {
+      const response = await this.callHelius('DISCOVERY', 'tokenHolders', null, () => this.heliusApi.get(`/v0/token/${tokenMint}/holders`, {
         params: { limit: 50 } // Reduced limit for free plan
-      });
+      }));
 
       if (response.data?.holders) {
         return response.data.holders
@@ -484,6 +503,16 @@ export class HeliusFreeService {
     }
   }
 
+  // Force the next trackWalletsOptimized call to re-analyze this wallet
+  invalidateWallet(address: string): void {
+    this.walletCache.delete(address);
+  }
+
+  // Replaces the set of hand-added wallets exempt from the balance/win-rate cutoffs
+  setManualWallets(addresses: string[]): void {
+    this.manualWallets = new Set(addresses);
+  }
+
   private getCachedWhales(addresses: string[]): Map<string, WhaleWallet> {
     const results = new Map<string, WhaleWallet>();
     
@@ -498,38 +527,53 @@ export class HeliusFreeService {
   }
 
   // ===============================
-  // UTILITY METHODS
+  // TRADE FEED
   // ===============================
 
-  private async getSolPriceOptimized(): Promise<number> {
-    // Use a simple cache for SOL price to avoid external API calls
-    const cached = this.walletCache.get('SOL_PRICE');
-    if (cached && Date.now() - cached.timestamp < 300000) { // 5 min cache
-      return (cached.wallet as any).price;
+  // Parse pushed (webhook) transactions for one wallet into trades without spending credits
+  async ingestTransactions(transactions: any[], address: string): Promise<SwapTrade[]> {
+    const { engine } = await this.createValuationEngine(transactions);
+    const trades = engine.parseSwaps(transactions, address);
+    this.emitTrades(trades);
+    return trades;
+  }
+
+  // Receives the normalized swaps parsed while analyzing each wallet
+  onTrades(listener: (trades: SwapTrade[]) => void): void {
+    this.tradeListeners.push(listener);
+  }
+
+  // Notified when an analyzed wallet no longer meets the whale criteria (not on API errors)
+  onWalletRejected(listener: (address: string, reason: string) => void): void {
+    this.rejectionListeners.push(listener);
+  }
+
+  private emitRejection(address: string, reason: string): void {
+    for (const listener of this.rejectionListeners) {
+      try {
+        listener(address, reason);
+      } catch (error) {
+        logger.error('Rejection listener failed:', error);
+      }
     }
+  }
 
-    try {
-      // Use free CoinGecko API
-      const response = await axios.get(
-        'https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd',
-        { timeout: 5000 }
-      );
-      
-      const price = response.data?.solana?.usd || 100; // Fallback price
-      
-      // Cache the price
-      this.walletCache.set('SOL_PRICE', {
-        wallet: { price } as any,
-        timestamp: Date.now(),
-        cacheTTL: 300000
-      });
-      
-      return price;
-    } catch (error) {
-      return 100; // Conservative fallback
+  private emitTrades(trades: SwapTrade[]): void {
+    if (trades.length === 0) return;
+
+    for (const listener of this.tradeListeners) {
+      try {
+        listener(trades);
+      } catch (error) {
+        logger.error('Trade listener failed:', error);
+      }
     }
   }
 
+  // ===============================
+  // UTILITY METHODS
+  // ===============================
+
   private generateOptimizedTags(balance: WalletBalance, stats: WalletStats): string[] {
     const tags: string[] = [];
     
@@ -558,24 +602,36 @@ export class HeliusFreeService {
   // ===============================
 
   getCreditUsage(): CreditUsage {
-    return { ...this.creditUsage };
+    const usage = this.ledger.getUsage();
+    return {
+      used: usage.monthly.used,
+      remaining: usage.monthly.remaining,
+      resetDate: new Date(usage.monthly.resetDate),
+      dailyUsed: usage.daily.used,
+      dailyLimit: usage.daily.budget
+    };
   }
 
   getRemainingCredits(): number {
-    return this.creditUsage.remaining;
+    return this.ledger.getUsage().monthly.remaining;
   }
 
   getDailyRemainingCredits(): number {
-    return this.config.maxCreditsPerDay - this.creditUsage.dailyUsed;
+    return this.ledger.getUsage().daily.remaining;
+  }
+
+  getCategoryRemainingCredits(category: CreditCategory): number {
+    return this.ledger.remaining(category);
   }
 
   getOptimizationStats(): any {
+    const usage = this.ledger.getUsage();
     return {
       cacheSize: this.walletCache.size,
       cacheHitRate: this.calculateCacheHitRate(),
-      creditsUsed: this.creditUsage.used,
-      creditsRemaining: this.creditUsage.remaining,
-      dailyCreditsUsed: this.creditUsage.dailyUsed,
+      creditsUsed: usage.monthly.used,
+      creditsRemaining: usage.monthly.remaining,
+      dailyCreditsUsed: usage.daily.used,
       knownWhadesCount: this.KNOWN_WHALES.length,
       config: this.config
     };
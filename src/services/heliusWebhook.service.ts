@@ -0,0 +1,213 @@
+// src/services/heliusWebhook.service.ts - PUSH-BASED WALLET UPDATES FROM HELIUS
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+import { CreditLedger } from '../utils/credit-ledger';
+import { HELIUS_METHOD_COSTS } from '../config/helius-costs.config';
+
+interface WebhookState {
+  webhookId: string | null;
+  addresses: string[];
+  lastSyncedAt: string | null;
+}
+
+export class HeliusWebhookService {
+  private dataDir = path.join(process.cwd(), 'data');
+  private stateFile = path.join(this.dataDir, 'helius-webhook.json');
+  private seenFile = path.join(this.dataDir, 'webhook-signatures.json');
+
+  private state: WebhookState = { webhookId: null, addresses: [], lastSyncedAt: null };
+  private seenSignatures: string[] = [];
+  private seenSet = new Set<string>();
+  private inFlight = new Set<string>(); // handed out by filterNew, not yet seen or released
+  private seenDirty = false;
+  private syncing = false;
+
+  private readonly MAX_SEEN_SIGNATURES = 20000;
+
+  private heliusApi: AxiosInstance;
+
+  constructor(
+    private apiKey: string,
+    private ledger: CreditLedger,
+    private secret: string | undefined = process.env.HELIUS_WEBHOOK_SECRET,
+    private webhookUrl: string | undefined = process.env.HELIUS_WEBHOOK_URL
+  ) {
+    this.heliusApi = axios.create({
+      baseURL: 'https://api.helius.xyz',
+      timeout: 30000,
+      params: { 'api-key': apiKey },
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+
+    setInterval(() => this.flush(), 60000).unref();
+  }
+
+  isConfigured(): boolean {
+    return !!this.secret;
+  }
+
+  // Helius sends the configured authHeader verbatim in the Authorization header
+  verifyAuth(header: string | undefined): boolean {
+    if (!this.secret || !header) return false;
+
+    const expected = Buffer.from(this.secret);
+    const received = Buffer.from(header);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  // Drops transactions already processed or still being processed, and repeats within the delivery.
+  // What is returned stays reserved until markSeen or release, so an overlapping redelivery skips it
+  filterNew(transactions: any[]): any[] {
+    return transactions.filter(tx => {
+      const signature = tx?.signature;
+      if (!signature || this.seenSet.has(signature) || this.inFlight.has(signature)) return false;
+
+      this.inFlight.add(signature);
+      return true;
+    });
+  }
+
+  // Called once a delivery's transactions are processed
+  markSeen(signatures: string[]): void {
+    for (const signature of signatures) {
+      this.inFlight.delete(signature);
+      if (this.seenSet.has(signature)) continue;
+
+      this.seenSet.add(signature);
+      this.seenSignatures.push(signature);
+      this.seenDirty = true;
+    }
+
+    if (this.seenSignatures.length > this.MAX_SEEN_SIGNATURES) {
+      const expired = this.seenSignatures.splice(0, this.seenSignatures.length - this.MAX_SEEN_SIGNATURES);
+      expired.forEach(signature => this.seenSet.delete(signature));
+    }
+  }
+
+  // Gives up a reservation after a failed ingestion, so a Helius redelivery gets another try
+  release(signatures: string[]): void {
+    signatures.forEach(signature => this.inFlight.delete(signature));
+  }
+
+  // Tracked wallets that appear anywhere in an enhanced transaction
+  affectedAddresses(tx: any, tracked: Set<string>): string[] {
+    const candidates = new Set<string>();
+
+    if (tx.feePayer) candidates.add(tx.feePayer);
+    for (const transfer of tx.tokenTransfers || []) {
+      candidates.add(transfer.fromUserAccount);
+      candidates.add(transfer.toUserAccount);
+    }
+    for (const transfer of tx.nativeTransfers || []) {
+      candidates.add(transfer.fromUserAccount);
+      candidates.add(transfer.toUserAccount);
+    }
+    for (const account of tx.accountData || []) {
+      candidates.add(account.account);
+    }
+
+    return Array.from(candidates).filter(address => address && tracked.has(address));
+  }
+
+  // Point the Helius webhook at the current tracked set; no API call when nothing changed
+  async syncAddresses(addresses: string[]): Promise<void> {
+    if (!this.webhookUrl || !this.secret || this.syncing) return;
+
+    const sorted = [...new Set(addresses)].sort();
+    if (this.state.webhookId && sorted.join(',') === this.state.addresses.join(',')) {
+      return;
+    }
+
+    // Webhook edits are charged to the tracking budget they keep in step with
+    const method = this.state.webhookId ? 'updateWebhook' : 'createWebhook';
+    if (!this.ledger.canSpend('TRACKING', HELIUS_METHOD_COSTS[method].credits)) {
+      logger.warn('🚫 Tracking credit budget spent, webhook sync postponed');
+      return;
+    }
+
+    this.syncing = true;
+    const body = {
+      webhookURL: this.webhookUrl,
+      transactionTypes: ['ANY'],
+      accountAddresses: sorted,
+      webhookType: 'enhanced',
+      authHeader: this.secret
+    };
+
+    try {
+      if (this.state.webhookId) {
+        const webhookId = this.state.webhookId;
+        await this.ledger.spend('TRACKING', 'updateWebhook', null, () => this.heliusApi.put(`/v0/webhooks/${webhookId}`, body));
+      } else {
+        const response = await this.ledger.spend('TRACKING', 'createWebhook', null, () => this.heliusApi.post('/v0/webhooks', body));
+        this.state.webhookId = response.data?.webhookID || null;
+      }
+
+      this.state.addresses = sorted;
+      this.state.lastSyncedAt = new Date().toISOString();
+      this.saveState();
+      logger.success(`🔔 Helius webhook now covers ${sorted.length} wallets`);
+    } catch (error: any) {
+      // A webhook deleted on the Helius side is recreated on the next sync
+      if (error?.response?.status === 404) {
+        this.state.webhookId = null;
+        this.saveState();
+      }
+      logger.error('❌ Helius webhook sync failed:', error?.message || error);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  getStatus(): any {
+    return {
+      configured: this.isConfigured(),
+      subscriptionManaged: !!this.webhookUrl,
+      webhookId: this.state.webhookId,
+      subscribedAddresses: this.state.addresses.length,
+      lastSyncedAt: this.state.lastSyncedAt,
+      seenSignatures: this.seenSignatures.length
+    };
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        this.state = { ...this.state, ...JSON.parse(fs.readFileSync(this.stateFile, 'utf8')) };
+      }
+      if (fs.existsSync(this.seenFile)) {
+        this.seenSignatures = JSON.parse(fs.readFileSync(this.seenFile, 'utf8')).signatures || [];
+        this.seenSet = new Set(this.seenSignatures);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading webhook state:', error);
+    }
+  }
+
+  private saveState(): void {
+    try {
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      logger.error('❌ Error saving webhook state:', error);
+    }
+  }
+
+  flush(): void {
+    if (!this.seenDirty) return;
+
+    try {
+      fs.writeFileSync(this.seenFile, JSON.stringify({ signatures: this.seenSignatures }));
+      this.seenDirty = false;
+    } catch (error) {
+      logger.error('❌ Error saving webhook signatures:', error);
+    }
+  }
+}
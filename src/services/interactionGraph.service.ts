@@ -0,0 +1,246 @@
+// src/services/interactionGraph.service.ts - WHO WHALES TRANSACT WITH
+import * as fs from 'fs';
+import * as path from 'path';
+import { CounterpartyObservation, GraphEdge } from '../types/whale.types';
+import { WhaleDiscoveryService } from './whaleDiscovery.service';
+import { logger } from '../utils/logger';
+import { Helpers } from '../utils/helpers';
+import { writeFileAtomic } from '../utils/atomic-file';
+
+export interface GraphNode {
+  address: string;
+  depth: number;
+}
+
+export interface InteractionGraph {
+  root: string;
+  depth: number;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  requestsUsed: number; // public RPC requests, not Helius credits
+  truncated: boolean; // node limit or request budget cut the traversal short
+}
+
+export interface GraphConfig {
+  maxDepth: number;
+  maxNodes: number;
+  maxNeighbors: number;      // strongest edges followed per node
+  defaultRequestBudget: number; // public RPC requests an expansion may spend; no Helius credits are used
+  maxRequestBudget: number;
+  rescanAfterMs: number;
+  transactionsPerScan: number;
+}
+
+export class InteractionGraphService {
+  private dataDir = path.join(process.cwd(), 'data');
+  private graphFile = path.join(this.dataDir, 'graph.json');
+
+  private edges = new Map<string, GraphEdge>(); // "from|to"
+  private adjacency = new Map<string, Set<string>>(); // both directions
+  private scanned: Record<string, number> = {};
+  private observedSignatures: string[] = [];
+  private observed = new Set<string>();
+  private dirty = false;
+  private exploring: Promise<unknown> = Promise.resolve();
+
+  private readonly MAX_EDGES = parseInt(process.env.GRAPH_MAX_EDGES || '200000');
+  private readonly MAX_OBSERVED_SIGNATURES = 50000;
+
+  config: GraphConfig = {
+    maxDepth: parseInt(process.env.GRAPH_MAX_DEPTH || '3'),
+    maxNodes: parseInt(process.env.GRAPH_MAX_NODES || '500'),
+    maxNeighbors: parseInt(process.env.GRAPH_MAX_NEIGHBORS || '20'),
+    defaultRequestBudget: parseInt(process.env.GRAPH_REQUEST_BUDGET || '100'),
+    maxRequestBudget: parseInt(process.env.GRAPH_MAX_REQUEST_BUDGET || '1000'),
+    rescanAfterMs: parseInt(process.env.GRAPH_RESCAN_HOURS || '24') * 60 * 60 * 1000,
+    transactionsPerScan: 10
+  };
+
+  constructor(private discovery: WhaleDiscoveryService) {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+
+    // Counterparties collected anywhere (discovery, clustering) become edges
+    discovery.onObservations(observations => this.recordObservations(observations));
+    setInterval(() => this.flush(), 60000).unref();
+  }
+
+  recordObservations(observations: CounterpartyObservation[]): void {
+    for (const observation of observations) {
+      if (this.observed.has(observation.signature)) continue;
+      this.markObserved(observation.signature);
+
+      for (const transfer of observation.transfers) {
+        this.addEdge(transfer.from, transfer.to, (transfer.lamports || 0) / 1e9, observation.timestamp);
+      }
+      for (const signer of observation.signers) {
+        if (signer !== observation.wallet) {
+          this.addEdge(observation.wallet, signer, 0, observation.timestamp);
+        }
+      }
+    }
+  }
+
+  // One expansion at a time, so concurrent requests can't each spend a full budget on the same nodes
+  explore(root: string, depth: number, budget: number = this.config.defaultRequestBudget): Promise<InteractionGraph> {
+    const run = this.exploring.then(() => this.expand(root, depth, budget));
+    this.exploring = run.catch(() => undefined);
+    return run;
+  }
+
+  // BFS from `root`; nodes not scanned recently are fetched while the request budget lasts
+  private async expand(root: string, depth: number, budget: number): Promise<InteractionGraph> {
+    const maxDepth = Math.min(depth, this.config.maxDepth);
+    let requestsLeft = Math.min(budget, this.config.maxRequestBudget);
+    const scanCost = 1 + this.config.transactionsPerScan; // signatures + one getTransaction each
+    let truncated = false;
+
+    const depths = new Map<string, number>([[root, 0]]);
+    const queue: string[] = [root];
+
+    while (queue.length > 0) {
+      const address = queue.shift() as string;
+      const nodeDepth = depths.get(address) as number;
+      if (nodeDepth >= maxDepth) continue;
+
+      if (this.needsScan(address)) {
+        if (requestsLeft >= scanCost) {
+          requestsLeft -= scanCost;
+          await this.discovery.collectCounterparties(address, this.config.transactionsPerScan);
+          this.scanned[address] = Date.now();
+          this.dirty = true;
+        } else {
+          truncated = true;
+        }
+      }
+
+      for (const neighbor of this.strongestNeighbors(address)) {
+        if (depths.has(neighbor)) continue;
+        if (depths.size >= this.config.maxNodes) {
+          truncated = true;
+          break;
+        }
+        depths.set(neighbor, nodeDepth + 1);
+        queue.push(neighbor);
+      }
+    }
+
+    this.flush();
+
+    const nodes = Array.from(depths.entries()).map(([address, nodeDepth]) => ({ address, depth: nodeDepth }));
+    const edges = Array.from(this.edges.values()).filter(edge => depths.has(edge.from) && depths.has(edge.to));
+
+    return {
+      root,
+      depth: maxDepth,
+      nodes,
+      edges,
+      requestsUsed: Math.min(budget, this.config.maxRequestBudget) - requestsLeft,
+      truncated
+    };
+  }
+
+  flush(): void {
+    if (!this.dirty) return;
+
+    try {
+      writeFileAtomic(this.graphFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        edges: Array.from(this.edges.values()),
+        scanned: this.scanned,
+        observedSignatures: this.observedSignatures
+      }));
+      this.dirty = false;
+    } catch (error) {
+      logger.error('❌ Error saving interaction graph:', error);
+    }
+  }
+
+  getStats(): any {
+    return {
+      nodes: this.adjacency.size,
+      edges: this.edges.size,
+      scannedWallets: Object.keys(this.scanned).length,
+      config: this.config
+    };
+  }
+
+  private needsScan(address: string): boolean {
+    return Helpers.isValidSolanaAddress(address) && Date.now() - (this.scanned[address] || 0) > this.config.rescanAfterMs;
+  }
+
+  private strongestNeighbors(address: string): string[] {
+    const weight = (neighbor: string) =>
+      (this.edges.get(`${address}|${neighbor}`)?.txCount || 0) + (this.edges.get(`${neighbor}|${address}`)?.txCount || 0);
+
+    return Array.from(this.adjacency.get(address) || [])
+      .sort((a, b) => weight(b) - weight(a))
+      .slice(0, this.config.maxNeighbors);
+  }
+
+  private addEdge(from: string, to: string, volumeSol: number, timestamp: number | null): void {
+    if (!from || !to || from === to) return;
+
+    const key = `${from}|${to}`;
+    const edge = this.edges.get(key);
+
+    if (edge) {
+      edge.txCount++;
+      edge.volumeSol += volumeSol;
+      edge.lastSeen = Math.max(edge.lastSeen ?? 0, timestamp ?? 0) || null;
+    } else {
+      this.edges.set(key, { from, to, txCount: 1, volumeSol, lastSeen: timestamp });
+      this.link(from, to);
+      if (this.edges.size > this.MAX_EDGES) this.evictOldest();
+    }
+
+    this.dirty = true;
+  }
+
+  private link(from: string, to: string): void {
+    if (!this.adjacency.has(from)) this.adjacency.set(from, new Set());
+    if (!this.adjacency.has(to)) this.adjacency.set(to, new Set());
+    this.adjacency.get(from)!.add(to);
+    this.adjacency.get(to)!.add(from);
+  }
+
+  // Drop the stalest tenth of edges once the graph outgrows its cap
+  private evictOldest(): void {
+    const sorted = Array.from(this.edges.entries()).sort((a, b) => (a[1].lastSeen ?? 0) - (b[1].lastSeen ?? 0));
+    sorted.slice(0, Math.ceil(this.MAX_EDGES / 10)).forEach(([key]) => this.edges.delete(key));
+    this.rebuildAdjacency();
+  }
+
+  private rebuildAdjacency(): void {
+    this.adjacency.clear();
+    this.edges.forEach(edge => this.link(edge.from, edge.to));
+  }
+
+  private markObserved(signature: string): void {
+    this.observed.add(signature);
+    this.observedSignatures.push(signature);
+
+    if (this.observedSignatures.length > this.MAX_OBSERVED_SIGNATURES) {
+      const expired = this.observedSignatures.splice(0, this.observedSignatures.length - this.MAX_OBSERVED_SIGNATURES);
+      expired.forEach(expiredSignature => this.observed.delete(expiredSignature));
+    }
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.graphFile)) {
+        const parsed = JSON.parse(fs.readFileSync(this.graphFile, 'utf8'));
+        (parsed.edges || []).forEach((edge: GraphEdge) => this.edges.set(`${edge.from}|${edge.to}`, edge));
+        this.scanned = parsed.scanned || {};
+        this.observedSignatures = parsed.observedSignatures || [];
+        this.observed = new Set(this.observedSignatures);
+        this.rebuildAdjacency();
+        logger.info(`📥 Loaded interaction graph: ${this.edges.size} edges`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading interaction graph:', error);
+    }
+  }
+}
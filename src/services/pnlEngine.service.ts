@@ -0,0 +1,283 @@
+// src/services/pnlEngine.service.ts - SWAP PARSING + FIFO REALIZED PNL
+import { SwapTrade, ClosedPosition, WalletStats, TradeSide } from '../types/whale.types';
+import { Provenance } from '../utils/provenance';
+import { SOL_MINT, QUOTE_MINTS } from '../config/tokens.config';
+
+// Returns the USD price of one unit of `mint` at `timestamp` (unix seconds), or null if unknown
+export type PriceResolver = (mint: string, timestamp: number) => number | null;
+
+export interface WalletAnalysis {
+  trades: SwapTrade[];
+  closedPositions: ClosedPosition[];
+  stats: WalletStats;
+}
+
+interface Lot {
+  amount: number;
+  unitCostUsd: number;
+  openedAt: number;
+}
+
+// Native SOL movements below this are rent / tips, not a trade leg
+const NATIVE_DUST_SOL = 0.01;
+
+// Remaining lot size treated as fully closed (float noise)
+const LOT_EPSILON = 1e-9;
+
+// Closed trades needed before a measured win rate gets full confidence
+const FULL_CONFIDENCE_SAMPLE = 20;
+
+export class PnlEngine {
+  constructor(private resolvePrice: PriceResolver) {}
+
+  // ===============================
+  // SWAP NORMALIZATION
+  // ===============================
+
+  parseSwaps(transactions: any[], wallet: string): SwapTrade[] {
+    const trades: SwapTrade[] = [];
+
+    for (const tx of transactions) {
+      if (!tx || tx.transactionError) continue;
+
+      const trade = this.parseSwap(tx, wallet);
+      if (trade) {
+        trades.push(trade);
+      }
+    }
+
+    // Helius returns newest first; FIFO needs chronological order
+    return trades.sort((a, b) => a.timestamp - b.timestamp || a.slot - b.slot);
+  }
+
+  private parseSwap(tx: any, wallet: string): SwapTrade | null {
+    const flows = this.netFlows(tx, wallet);
+
+    const inputs = Array.from(flows.entries()).filter(([, amount]) => amount < 0);
+    const outputs = Array.from(flows.entries()).filter(([, amount]) => amount > 0);
+
+    const input = this.pickLeg(inputs.map(([mint, amount]) => [mint, -amount]), tx.timestamp);
+    const output = this.pickLeg(outputs, tx.timestamp);
+
+    if (!input || !output || input[0] === output[0]) {
+      return null;
+    }
+
+    const [inputMint, inputAmount] = input;
+    const [outputMint, outputAmount] = output;
+
+    return {
+      signature: tx.signature,
+      slot: tx.slot || 0,
+      timestamp: tx.timestamp || 0,
+      wallet,
+      side: this.determineSide(inputMint, outputMint),
+      inputMint,
+      inputAmount,
+      outputMint,
+      outputAmount,
+      valueUsd: this.valueSwap(inputMint, inputAmount, outputMint, outputAmount, tx.timestamp || 0)
+    };
+  }
+
+  // Net balance change per mint for the wallet (native SOL folded into wrapped SOL)
+  private netFlows(tx: any, wallet: string): Map<string, number> {
+    const flows = new Map<string, number>();
+    const add = (mint: string, amount: number) => {
+      flows.set(mint, (flows.get(mint) || 0) + amount);
+    };
+
+    for (const transfer of tx.tokenTransfers || []) {
+      const amount = Number(transfer.tokenAmount) || 0;
+      if (!transfer.mint || amount === 0) continue;
+
+      if (transfer.toUserAccount === wallet) add(transfer.mint, amount);
+      if (transfer.fromUserAccount === wallet) add(transfer.mint, -amount);
+    }
+
+    for (const transfer of tx.nativeTransfers || []) {
+      const amount = (Number(transfer.amount) || 0) / 1000000000;
+      if (amount === 0) continue;
+
+      if (transfer.toUserAccount === wallet) add(SOL_MINT, amount);
+      if (transfer.fromUserAccount === wallet) add(SOL_MINT, -amount);
+    }
+
+    const solFlow = flows.get(SOL_MINT);
+    if (solFlow !== undefined && Math.abs(solFlow) < NATIVE_DUST_SOL) {
+      flows.delete(SOL_MINT);
+    }
+
+    return flows;
+  }
+
+  // Multi-hop routes can leave several legs; keep the largest one by USD value
+  private pickLeg(legs: Array<[string, number]>, timestamp: number): [string, number] | null {
+    if (legs.length === 0) return null;
+    if (legs.length === 1) return legs[0];
+
+    let best = legs[0];
+    let bestValue = -1;
+
+    for (const leg of legs) {
+      const price = this.resolvePrice(leg[0], timestamp || 0);
+      const value = price !== null ? leg[1] * price : -1;
+      if (value > bestValue) {
+        best = leg;
+        bestValue = value;
+      }
+    }
+
+    return best;
+  }
+
+  private determineSide(inputMint: string, outputMint: string): TradeSide {
+    const inputIsQuote = QUOTE_MINTS.includes(inputMint);
+    const outputIsQuote = QUOTE_MINTS.includes(outputMint);
+
+    if (inputIsQuote && !outputIsQuote) return 'BUY';
+    if (!inputIsQuote && outputIsQuote) return 'SELL';
+    return 'SWAP';
+  }
+
+  // Value the quote leg when there is one, otherwise whichever leg has a price
+  private valueSwap(inputMint: string, inputAmount: number, outputMint: string, outputAmount: number, timestamp: number): number | null {
+    const legs: Array<[string, number]> = QUOTE_MINTS.includes(outputMint) && !QUOTE_MINTS.includes(inputMint)
+      ? [[outputMint, outputAmount], [inputMint, inputAmount]]
+      : [[inputMint, inputAmount], [outputMint, outputAmount]];
+
+    for (const [mint, amount] of legs) {
+      const price = this.resolvePrice(mint, timestamp);
+      if (price !== null) {
+        return amount * price;
+      }
+    }
+
+    return null;
+  }
+
+  // ===============================
+  // FIFO COST BASIS
+  // ===============================
+
+  computeClosedPositions(trades: SwapTrade[]): ClosedPosition[] {
+    const lots = new Map<string, Lot[]>();
+    const closed: ClosedPosition[] = [];
+
+    for (const trade of trades) {
+      if (trade.valueUsd === null) continue;
+
+      // Selling a non-quote asset closes (part of) its position
+      if (!QUOTE_MINTS.includes(trade.inputMint)) {
+        const position = this.closeLots(lots, trade.inputMint, trade.inputAmount, trade.valueUsd, trade);
+        if (position) {
+          closed.push(position);
+        }
+      }
+
+      // Receiving a non-quote asset opens a lot at the trade's USD value
+      if (!QUOTE_MINTS.includes(trade.outputMint) && trade.outputAmount > 0) {
+        const queue = lots.get(trade.outputMint) || [];
+        queue.push({
+          amount: trade.outputAmount,
+          unitCostUsd: trade.valueUsd / trade.outputAmount,
+          openedAt: trade.timestamp
+        });
+        lots.set(trade.outputMint, queue);
+      }
+    }
+
+    return closed;
+  }
+
+  private closeLots(lots: Map<string, Lot[]>, mint: string, amount: number, proceedsUsd: number, trade: SwapTrade): ClosedPosition | null {
+    const queue = lots.get(mint);
+    if (!queue || queue.length === 0 || amount <= 0) {
+      // Position opened before the analysed window - cost basis unknown
+      return null;
+    }
+
+    let remaining = amount;
+    let matched = 0;
+    let costBasisUsd = 0;
+    const openedAt = queue[0].openedAt;
+
+    while (remaining > LOT_EPSILON && queue.length > 0) {
+      const lot = queue[0];
+      const take = Math.min(lot.amount, remaining);
+
+      costBasisUsd += take * lot.unitCostUsd;
+      matched += take;
+      remaining -= take;
+      lot.amount -= take;
+
+      if (lot.amount <= LOT_EPSILON) {
+        queue.shift();
+      }
+    }
+
+    // Only the matched share of the sale has a known cost basis
+    const matchedProceeds = proceedsUsd * (matched / amount);
+
+    return {
+      mint,
+      amount: matched,
+      costBasisUsd,
+      proceedsUsd: matchedProceeds,
+      realizedPnlUsd: matchedProceeds - costBasisUsd,
+      openedAt,
+      closedAt: trade.timestamp,
+      signature: trade.signature
+    };
+  }
+
+  // ===============================
+  // WALLET STATS
+  // ===============================
+
+  buildStats(transactions: any[], wallet: string): WalletStats {
+    return this.analyze(transactions, wallet).stats;
+  }
+
+  analyze(transactions: any[], wallet: string): WalletAnalysis {
+    const trades = this.parseSwaps(transactions, wallet);
+    const closed = this.computeClosedPositions(trades);
+
+    let lastActive = 0;
+    for (const tx of transactions) {
+      if (tx?.timestamp && tx.timestamp > lastActive) {
+        lastActive = tx.timestamp;
+      }
+    }
+
+    const profitableTrades = closed.filter(position => position.realizedPnlUsd > 0).length;
+    const realizedPnl = closed.reduce((sum, position) => sum + position.realizedPnlUsd, 0);
+    const totalVolume = trades.reduce((sum, trade) => sum + (trade.valueUsd || 0), 0);
+
+    const valuedShare = trades.length > 0
+      ? trades.filter(trade => trade.valueUsd !== null).length / trades.length
+      : 1;
+    const sampleConfidence = Math.min(closed.length / FULL_CONFIDENCE_SAMPLE, 1);
+    const closedSource = closed.length > 0 ? Provenance.measured(sampleConfidence) : Provenance.defaulted();
+
+    const stats: WalletStats = {
+      totalTransactions: transactions.length,
+      successfulTrades: trades.length,
+      winRate: closed.length > 0 ? (profitableTrades / closed.length) * 100 : 0,
+      avgProfitLoss: closed.length > 0 ? realizedPnl / closed.length : 0,
+      lastActiveDate: new Date(lastActive * 1000).toISOString(),
+      profitableTrades,
+      totalVolume,
+      closedTrades: closed.length,
+      realizedPnl,
+      provenance: Provenance.build(Provenance.measured(), {
+        winRate: closedSource,
+        avgProfitLoss: closedSource,
+        lastActiveDate: lastActive > 0 ? Provenance.measured() : Provenance.defaulted(),
+        totalVolume: Provenance.measured(valuedShare)
+      })
+    };
+
+    return { trades, closedPositions: closed, stats };
+  }
+}
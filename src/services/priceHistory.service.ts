@@ -0,0 +1,251 @@
+// src/services/priceHistory.service.ts - HISTORICAL PRICES FOR TRADE-TIME VALUATION
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { Helpers } from '../utils/helpers';
+import { PriceOracle } from './priceOracle.service';
+
+export interface PricePoint {
+  timestamp: number; // ms
+  price: number;     // close for candles, the sample itself for point samples
+  open?: number;
+  high?: number;
+  low?: number;
+  source: string;
+}
+
+export interface HistoricalPrice {
+  mint: string;
+  timestamp: number;
+  price: number;
+  method: 'exact' | 'interpolated' | 'nearest';
+  gapMs: number; // distance between the points used (or to the nearest point)
+}
+
+export interface PriceGap {
+  from: number;
+  to: number;
+  durationMs: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class PriceHistoryService {
+  private static instance: PriceHistoryService;
+  private pricesDir = path.join(process.cwd(), 'data', 'prices');
+  private series = new Map<string, PricePoint[]>();
+  private dirty = new Set<string>();
+
+  // Points further apart than this are a gap; nearest-point lookups beyond it fail
+  private maxGapMs = parseInt(process.env.PRICE_HISTORY_MAX_GAP_HOURS || '6') * HOUR_MS;
+  // Older samples are thinned to one per hour so live oracle sampling doesn't grow files forever
+  private fullResolutionMs = parseInt(process.env.PRICE_HISTORY_FULL_RESOLUTION_DAYS || '7') * 24 * HOUR_MS;
+
+  static getInstance(): PriceHistoryService {
+    if (!PriceHistoryService.instance) {
+      PriceHistoryService.instance = new PriceHistoryService(PriceOracle.getInstance());
+    }
+    return PriceHistoryService.instance;
+  }
+
+  constructor(oracle?: PriceOracle) {
+    if (!fs.existsSync(this.pricesDir)) {
+      fs.mkdirSync(this.pricesDir, { recursive: true });
+      logger.info('📁 Price history directory created');
+    }
+
+    // Every live oracle price becomes a historical sample
+    oracle?.onSample((mint, price, timestamp, sources) => {
+      this.recordPoint(mint, { timestamp, price, source: `oracle:${sources.join('+')}` });
+    });
+
+    setInterval(() => this.flush(), 60000).unref();
+  }
+
+  recordPoint(mint: string, point: PricePoint): void {
+    if (!Helpers.isValidSolanaAddress(mint)) return;
+
+    const points = this.load(mint);
+
+    // Keep the series sorted; samples normally arrive in order so this is an append
+    let index = points.length;
+    while (index > 0 && points[index - 1].timestamp > point.timestamp) {
+      index--;
+    }
+
+    if (index > 0 && points[index - 1].timestamp === point.timestamp) {
+      points[index - 1] = point;
+    } else {
+      points.splice(index, 0, point);
+    }
+
+    this.dirty.add(mint);
+  }
+
+  // Accepts `timestamp,price` or `timestamp,open,high,low,close` rows; timestamps as ISO, epoch s or epoch ms
+  importCsv(mint: string, csv: string, source: string = 'csv'): { imported: number; skipped: number } {
+    let imported = 0;
+    let skipped = 0;
+
+    for (const line of csv.split(/\r?\n/)) {
+      const columns = line.split(',').map(column => column.trim());
+      if (columns.length < 2 || columns[0] === '') continue;
+
+      const timestamp = PriceHistoryService.parseTimestamp(columns[0]);
+      const values = columns.slice(1).map(Number);
+
+      // Header rows and malformed lines fail here
+      if (timestamp === null || values.some(value => isNaN(value) || value <= 0)) {
+        skipped++;
+        continue;
+      }
+
+      const point: PricePoint = values.length >= 4
+        ? { timestamp, open: values[0], high: values[1], low: values[2], price: values[3], source }
+        : { timestamp, price: values[0], source };
+
+      this.recordPoint(mint, point);
+      imported++;
+    }
+
+    this.flush();
+    logger.info(`📥 Imported ${imported} price points for ${mint.substring(0, 8)}... (${skipped} skipped)`);
+    return { imported, skipped };
+  }
+
+  priceAt(mint: string, timestamp: number): HistoricalPrice | null {
+    const points = this.load(mint);
+    if (points.length === 0) return null;
+
+    // First point at or after the timestamp
+    let low = 0;
+    let high = points.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (points[middle].timestamp < timestamp) low = middle + 1;
+      else high = middle;
+    }
+
+    const after = points[low];
+    const before = points[low - 1];
+
+    if (after && after.timestamp === timestamp) {
+      return { mint, timestamp, price: after.price, method: 'exact', gapMs: 0 };
+    }
+
+    if (before && after) {
+      const gapMs = after.timestamp - before.timestamp;
+      if (gapMs > this.maxGapMs) return null;
+
+      const ratio = (timestamp - before.timestamp) / gapMs;
+      return {
+        mint,
+        timestamp,
+        price: before.price + (after.price - before.price) * ratio,
+        method: 'interpolated',
+        gapMs
+      };
+    }
+
+    // Outside the recorded range: only usable if the edge point is close enough
+    const nearest = before || after;
+    const gapMs = Math.abs(timestamp - nearest.timestamp);
+    if (gapMs > this.maxGapMs) return null;
+
+    return { mint, timestamp, price: nearest.price, method: 'nearest', gapMs };
+  }
+
+  getRange(mint: string, from: number, to: number): PricePoint[] {
+    return this.load(mint).filter(point => point.timestamp >= from && point.timestamp <= to);
+  }
+
+  findGaps(points: PricePoint[]): PriceGap[] {
+    const gaps: PriceGap[] = [];
+    for (let i = 1; i < points.length; i++) {
+      const durationMs = points[i].timestamp - points[i - 1].timestamp;
+      if (durationMs > this.maxGapMs) {
+        gaps.push({ from: points[i - 1].timestamp, to: points[i].timestamp, durationMs });
+      }
+    }
+    return gaps;
+  }
+
+  flush(): void {
+    const cutoff = Date.now() - this.fullResolutionMs;
+
+    for (const mint of this.dirty) {
+      try {
+        const points = this.thin(this.load(mint), cutoff);
+        this.series.set(mint, points);
+        fs.writeFileSync(this.fileFor(mint), JSON.stringify({ mint, points }));
+      } catch (error) {
+        logger.error(`❌ Error saving price history for ${mint}:`, error);
+      }
+    }
+
+    this.dirty.clear();
+  }
+
+  getStats(): any {
+    return {
+      pricesDirectory: this.pricesDir,
+      loadedMints: this.series.size,
+      pendingWrites: this.dirty.size,
+      maxGapMs: this.maxGapMs,
+      fullResolutionMs: this.fullResolutionMs
+    };
+  }
+
+  // Keep the last point of each hour before `cutoff`, everything after it
+  private thin(points: PricePoint[], cutoff: number): PricePoint[] {
+    const thinned: PricePoint[] = [];
+
+    for (const point of points) {
+      const previous = thinned[thinned.length - 1];
+      const sameHour = previous
+        && point.timestamp < cutoff
+        && Math.floor(previous.timestamp / HOUR_MS) === Math.floor(point.timestamp / HOUR_MS);
+
+      if (sameHour) {
+        thinned[thinned.length - 1] = point;
+      } else {
+        thinned.push(point);
+      }
+    }
+
+    return thinned;
+  }
+
+  static parseTimestamp(value: string): number | null {
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      const numeric = Number(value);
+      return numeric < 1e12 ? numeric * 1000 : numeric; // epoch seconds vs ms
+    }
+
+    const parsed = new Date(value).getTime();
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private fileFor(mint: string): string {
+    return path.join(this.pricesDir, `${mint}.json`);
+  }
+
+  private load(mint: string): PricePoint[] {
+    const loaded = this.series.get(mint);
+    if (loaded) return loaded;
+    if (!Helpers.isValidSolanaAddress(mint)) return [];
+
+    let points: PricePoint[] = [];
+    try {
+      const file = this.fileFor(mint);
+      if (fs.existsSync(file)) {
+        points = JSON.parse(fs.readFileSync(file, 'utf8')).points || [];
+      }
+    } catch (error) {
+      logger.error(`❌ Error loading price history for ${mint}:`, error);
+    }
+
+    this.series.set(mint, points);
+    return points;
+  }
+}
@@ -0,0 +1,222 @@
+// src/services/priceOracle.service.ts
+import { logger } from '../utils/logger';
+import { PriceProvider, createDefaultPriceProviders } from './priceProviders';
+import { SOL_MINT, STABLECOIN_MINTS } from '../config/tokens.config';
+
+export interface PriceQuote {
+  mint: string;
+  priceUsd: number;
+  sources: string[];
+  rejectedSources: string[];
+  updatedAt: number;
+  ageMs: number;
+  stale: boolean;
+}
+
+interface PriceSample {
+  source: string;
+  price: number;
+}
+
+export type PriceSampleListener = (mint: string, priceUsd: number, timestamp: number, sources: string[]) => void;
+
+interface ProviderHealth {
+  lastSuccess: number;
+  lastError: number;
+  errorCount: number;
+  lastErrorMessage?: string;
+}
+
+export class PriceOracle {
+  private static instance: PriceOracle;
+  private cache = new Map<string, Omit<PriceQuote, 'ageMs' | 'stale'>>();
+  private providerHealth = new Map<string, ProviderHealth>();
+  private misses = new Map<string, number>(); // mint -> when no provider could price it
+  private sampleListeners: PriceSampleListener[] = [];
+
+  private cacheTTL = parseInt(process.env.PRICE_CACHE_TTL || '300000'); // 5 minutes
+  private missTTL = parseInt(process.env.PRICE_MISS_TTL || '60000'); // 1 minute before an unpriceable mint is asked for again
+  private staleAfter = parseInt(process.env.PRICE_STALE_AFTER || '900000'); // 15 minutes
+  private outlierThreshold = parseFloat(process.env.PRICE_OUTLIER_THRESHOLD || '0.1'); // 10% from median
+
+  static getInstance(): PriceOracle {
+    if (!PriceOracle.instance) {
+      PriceOracle.instance = new PriceOracle();
+    }
+    return PriceOracle.instance;
+  }
+
+  constructor(private providers: PriceProvider[] = createDefaultPriceProviders()) {}
+
+  // Swap price sources at runtime (e.g. local fakes in tests); cached prices are dropped
+  setProviders(providers: PriceProvider[]): void {
+    this.providers = providers;
+    this.cache.clear();
+    this.misses.clear();
+    this.providerHealth.clear();
+  }
+
+  // Called with every freshly aggregated price (not with cache hits or peg fallbacks)
+  onSample(listener: PriceSampleListener): void {
+    this.sampleListeners.push(listener);
+  }
+
+  async getPrices(mints: string[]): Promise<Map<string, PriceQuote>> {
+    const unique = [...new Set(mints)].filter(Boolean);
+    const now = Date.now();
+
+    const expired = unique.filter(mint => {
+      const cached = this.cache.get(mint);
+      if (cached && now - cached.updatedAt < this.cacheTTL) return false;
+
+      // Junk mints no provider knows would otherwise be looked up on every wallet analysis
+      const missedAt = this.misses.get(mint);
+      return missedAt === undefined || now - missedAt >= this.missTTL;
+    });
+
+    if (expired.length > 0) {
+      await this.refresh(expired);
+    }
+
+    const quotes = new Map<string, PriceQuote>();
+    for (const mint of unique) {
+      const quote = this.getQuote(mint);
+      if (quote) {
+        quotes.set(mint, quote);
+      }
+    }
+
+    return quotes;
+  }
+
+  async getPrice(mint: string): Promise<number | null> {
+    const quotes = await this.getPrices([mint]);
+    return quotes.get(mint)?.priceUsd ?? null;
+  }
+
+  // Plain USD price map, for callers that only need numbers
+  async getPriceMap(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    (await this.getPrices(mints)).forEach((quote, mint) => prices.set(mint, quote.priceUsd));
+    return prices;
+  }
+
+  // Last known quote without hitting providers (may be stale)
+  getQuote(mint: string): PriceQuote | null {
+    const cached = this.cache.get(mint);
+    if (!cached) return null;
+
+    const ageMs = Date.now() - cached.updatedAt;
+    return { ...cached, ageMs, stale: ageMs > this.staleAfter };
+  }
+
+  getStatus(): any {
+    const sol = this.getQuote(SOL_MINT);
+    return {
+      providers: this.providers.map(provider => ({
+        name: provider.name,
+        ...(this.providerHealth.get(provider.name) || { lastSuccess: 0, lastError: 0, errorCount: 0 })
+      })),
+      cachedMints: this.cache.size,
+      unpricedMints: this.misses.size,
+      staleMints: Array.from(this.cache.keys()).filter(mint => this.getQuote(mint)?.stale).length,
+      solPrice: sol,
+      config: {
+        cacheTTL: this.cacheTTL,
+        missTTL: this.missTTL,
+        staleAfter: this.staleAfter,
+        outlierThreshold: this.outlierThreshold
+      }
+    };
+  }
+
+  private async refresh(mints: string[]): Promise<void> {
+    const samples = new Map<string, PriceSample[]>();
+
+    const results = await Promise.allSettled(this.providers.map(provider => provider.getPrices(mints)));
+
+    results.forEach((result, index) => {
+      const provider = this.providers[index];
+      const health = this.providerHealth.get(provider.name) || { lastSuccess: 0, lastError: 0, errorCount: 0 };
+
+      if (result.status === 'fulfilled') {
+        health.lastSuccess = Date.now();
+        result.value.forEach((price, mint) => {
+          const list = samples.get(mint) || [];
+          list.push({ source: provider.name, price });
+          samples.set(mint, list);
+        });
+      } else {
+        health.lastError = Date.now();
+        health.errorCount++;
+        health.lastErrorMessage = String(result.reason?.message || result.reason);
+        logger.warn(`Price provider ${provider.name} failed: ${health.lastErrorMessage}`);
+      }
+
+      this.providerHealth.set(provider.name, health);
+    });
+
+    const now = Date.now();
+    this.misses.forEach((missedAt, mint) => {
+      if (now - missedAt >= this.missTTL) this.misses.delete(mint);
+    });
+
+    for (const mint of mints) {
+      const aggregated = PriceOracle.aggregate(samples.get(mint) || [], this.outlierThreshold);
+
+      if (aggregated) {
+        this.misses.delete(mint);
+        this.cache.set(mint, {
+          mint,
+          priceUsd: aggregated.price,
+          sources: aggregated.accepted,
+          rejectedSources: aggregated.rejected,
+          updatedAt: now
+        });
+        this.emitSample(mint, aggregated.price, now, aggregated.accepted);
+        if (aggregated.rejected.length > 0) {
+          logger.warn(`Rejected outlier prices for ${mint.substring(0, 8)}... from ${aggregated.rejected.join(', ')}`);
+        }
+      } else if (!this.cache.has(mint) && STABLECOIN_MINTS.includes(mint)) {
+        // Nothing answered and nothing cached: stablecoins fall back to their peg
+        this.cache.set(mint, { mint, priceUsd: 1, sources: ['peg'], rejectedSources: [], updatedAt: now });
+      } else {
+        this.misses.set(mint, now);
+      }
+    }
+  }
+
+  private emitSample(mint: string, price: number, timestamp: number, sources: string[]): void {
+    for (const listener of this.sampleListeners) {
+      try {
+        listener(mint, price, timestamp, sources);
+      } catch (error) {
+        logger.error('Price sample listener failed:', error);
+      }
+    }
+  }
+
+  // Median across sources; samples further than `threshold` from it are dropped and the median recomputed
+  static aggregate(samples: PriceSample[], threshold: number): { price: number; accepted: string[]; rejected: string[] } | null {
+    if (samples.length === 0) return null;
+
+    const first = PriceOracle.median(samples.map(sample => sample.price));
+    const accepted = samples.filter(sample => Math.abs(sample.price - first) / first <= threshold);
+    const rejected = samples.filter(sample => !accepted.includes(sample));
+
+    // No consensus (e.g. two sources that disagree) - keep everything rather than guess
+    const used = accepted.length > 0 ? accepted : samples;
+
+    return {
+      price: PriceOracle.median(used.map(sample => sample.price)),
+      accepted: used.map(sample => sample.source),
+      rejected: accepted.length > 0 ? rejected.map(sample => sample.source) : []
+    };
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
@@ -0,0 +1,184 @@
+// src/services/priceProviders.ts - PLUGGABLE PRICE SOURCES FOR THE ORACLE
+import axios, { AxiosInstance } from 'axios';
+import { SOL_MINT } from '../config/tokens.config';
+
+export interface PriceProvider {
+  name: string;
+  // Resolves USD prices for the mints it knows; unknown mints are simply left out
+  getPrices(mints: string[]): Promise<Map<string, number>>;
+}
+
+const createPriceAxios = (headers: Record<string, string> = {}): AxiosInstance => axios.create({
+  timeout: 5000,
+  headers: {
+    'User-Agent': 'WhaleServerBot/1.0',
+    'Accept': 'application/json',
+    ...headers
+  }
+});
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const toPrice = (value: any): number | null => {
+  const price = parseFloat(value);
+  return !isNaN(price) && price > 0 ? price : null;
+};
+
+export class JupiterPriceProvider implements PriceProvider {
+  name = 'jupiter';
+  private http = createPriceAxios();
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    for (const batch of chunk(mints, 100)) {
+      const response = await this.http.get('https://api.jup.ag/price/v2', {
+        params: { ids: batch.join(',') }
+      });
+
+      const data = response.data?.data || {};
+      for (const mint of batch) {
+        const price = toPrice(data[mint]?.price);
+        if (price !== null) prices.set(mint, price);
+      }
+    }
+
+    return prices;
+  }
+}
+
+export class BirdeyePriceProvider implements PriceProvider {
+  name = 'birdeye';
+  private http: AxiosInstance;
+
+  constructor(apiKey: string) {
+    this.http = createPriceAxios({ 'X-API-KEY': apiKey, 'x-chain': 'solana' });
+  }
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    for (const batch of chunk(mints, 100)) {
+      const response = await this.http.get('https://public-api.birdeye.so/defi/multi_price', {
+        params: { list_address: batch.join(',') }
+      });
+
+      const data = response.data?.data || {};
+      for (const mint of batch) {
+        const price = toPrice(data[mint]?.value);
+        if (price !== null) prices.set(mint, price);
+      }
+    }
+
+    return prices;
+  }
+}
+
+export class CoinGeckoPriceProvider implements PriceProvider {
+  name = 'coingecko';
+  private http = createPriceAxios();
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    const tokenMints = mints.filter(mint => mint !== SOL_MINT);
+
+    // Wrapped SOL is listed under the native coin id, not as a Solana contract
+    if (mints.includes(SOL_MINT)) {
+      const response = await this.http.get('https://api.coingecko.com/api/v3/simple/price', {
+        params: { ids: 'solana', vs_currencies: 'usd' }
+      });
+      const price = toPrice(response.data?.solana?.usd);
+      if (price !== null) prices.set(SOL_MINT, price);
+    }
+
+    for (const batch of chunk(tokenMints, 30)) {
+      const response = await this.http.get('https://api.coingecko.com/api/v3/simple/token_price/solana', {
+        params: { contract_addresses: batch.join(','), vs_currencies: 'usd' }
+      });
+
+      const data = response.data || {};
+      for (const mint of batch) {
+        const price = toPrice((data[mint] || data[mint.toLowerCase()])?.usd);
+        if (price !== null) prices.set(mint, price);
+      }
+    }
+
+    return prices;
+  }
+}
+
+export class BinancePriceProvider implements PriceProvider {
+  name = 'binance';
+  private http = createPriceAxios();
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (!mints.includes(SOL_MINT)) return prices;
+
+    const response = await this.http.get('https://api.binance.com/api/v3/ticker/price', {
+      params: { symbol: 'SOLUSDT' }
+    });
+    const price = toPrice(response.data?.price);
+    if (price !== null) prices.set(SOL_MINT, price);
+
+    return prices;
+  }
+}
+
+export class CoinbasePriceProvider implements PriceProvider {
+  name = 'coinbase';
+  private http = createPriceAxios();
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (!mints.includes(SOL_MINT)) return prices;
+
+    const response = await this.http.get('https://api.coinbase.com/v2/exchange-rates', {
+      params: { currency: 'SOL' }
+    });
+    const price = toPrice(response.data?.data?.rates?.USD);
+    if (price !== null) prices.set(SOL_MINT, price);
+
+    return prices;
+  }
+}
+
+// Builds the provider list from PRICE_PROVIDERS (comma separated, in any order)
+export const createDefaultPriceProviders = (): PriceProvider[] => {
+  const names = (process.env.PRICE_PROVIDERS || 'jupiter,birdeye,coingecko,binance,coinbase')
+    .split(',')
+    .map(name => name.trim().toLowerCase());
+
+  const providers: PriceProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'jupiter':
+        providers.push(new JupiterPriceProvider());
+        break;
+      case 'birdeye':
+        // Birdeye requires a key; silently skip it otherwise
+        if (process.env.BIRDEYE_API_KEY) {
+          providers.push(new BirdeyePriceProvider(process.env.BIRDEYE_API_KEY));
+        }
+        break;
+      case 'coingecko':
+        providers.push(new CoinGeckoPriceProvider());
+        break;
+      case 'binance':
+        providers.push(new BinancePriceProvider());
+        break;
+      case 'coinbase':
+        providers.push(new CoinbasePriceProvider());
+        break;
+    }
+  }
+
+  return providers;
+};
@@ -0,0 +1,135 @@
+// src/services/riskAnalytics.service.ts - DRAWDOWN, VOLATILITY AND CONCENTRATION PER WALLET
+import { ClosedPosition, RiskMetrics, WhaleWallet } from '../types/whale.types';
+import { TradeStorage } from '../utils/trade-storage';
+import { WalletHistoryStorage } from '../utils/history-storage';
+import { Helpers } from '../utils/helpers';
+import { PnlEngine } from './pnlEngine.service';
+
+export interface RiskConfig {
+  historyDays: number;
+  minClosedPositions: number; // below this, riskLevel keeps the balance/win-rate bucket
+}
+
+// Each breached threshold adds a point: 0-1 LOW, 2-3 MEDIUM, 4+ HIGH
+const RISK_THRESHOLDS = {
+  maxDrawdownPercent: [25, 50],
+  pnlVolatility: [50, 100],
+  longestLosingStreak: 5,
+  avgPositionSizePercent: 25,
+  holdingsHhi: 0.5
+};
+
+export class RiskAnalyticsService {
+  // Closed positions only need trade values, never prices
+  private engine = new PnlEngine(() => null);
+
+  config: RiskConfig = {
+    historyDays: parseInt(process.env.RISK_HISTORY_DAYS || '90'),
+    minClosedPositions: parseInt(process.env.RISK_MIN_CLOSED_POSITIONS || '5')
+  };
+
+  constructor(private tradeStorage: TradeStorage, private historyStorage: WalletHistoryStorage) {}
+
+  analyze(whale: WhaleWallet, now: number = Date.now()): RiskMetrics {
+    const from = now - this.config.historyDays * 24 * 60 * 60 * 1000;
+
+    // Stored trades go back further than a single analysis window; FIFO needs oldest first
+    const trades = this.tradeStorage.find({ wallet: whale.address, from }).reverse();
+    const positions = this.engine.computeClosedPositions(trades);
+
+    const balances = this.historyStorage
+      .getSeries(whale.address, from, now, WalletHistoryStorage.defaultResolution(from, now))
+      .map(snapshot => snapshot.balance.totalBalanceUsd);
+    balances.push(whale.balance.totalBalanceUsd);
+
+    const returns = positions
+      .filter(position => position.costBasisUsd > 0)
+      .map(position => (position.realizedPnlUsd / position.costBasisUsd) * 100);
+
+    const mean = returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : 0;
+    const volatility = returns.length >= 2 ? RiskAnalyticsService.stdDev(returns, mean) : null;
+    const downside = returns.length >= 2
+      ? Math.sqrt(returns.reduce((sum, value) => sum + Math.min(0, value) ** 2, 0) / returns.length)
+      : null;
+
+    const avgCostBasis = positions.length > 0
+      ? positions.reduce((sum, position) => sum + position.costBasisUsd, 0) / positions.length
+      : null;
+
+    return {
+      maxDrawdownPercent: balances.length >= 2 ? RiskAnalyticsService.round(RiskAnalyticsService.maxDrawdown(balances)) : null,
+      pnlVolatility: volatility !== null ? RiskAnalyticsService.round(volatility) : null,
+      sharpeRatio: volatility ? RiskAnalyticsService.round(mean / volatility) : null,
+      sortinoRatio: downside ? RiskAnalyticsService.round(mean / downside) : null,
+      longestLosingStreak: RiskAnalyticsService.longestLosingStreak(positions),
+      avgPositionSizePercent: avgCostBasis !== null && whale.balance.totalBalanceUsd > 0
+        ? RiskAnalyticsService.round((avgCostBasis / whale.balance.totalBalanceUsd) * 100)
+        : null,
+      holdingsHhi: RiskAnalyticsService.round(
+        (whale.balance.holdings || []).reduce((sum, holding) => sum + holding.portfolioShare ** 2, 0),
+        4
+      ),
+      closedPositions: positions.length,
+      balancePoints: balances.length,
+      computedAt: new Date(now).toISOString()
+    };
+  }
+
+  // Metrics decide once there are enough closed positions; until then the old bucket stands
+  riskLevelFor(whale: WhaleWallet, metrics: RiskMetrics): WhaleWallet['riskLevel'] {
+    if (metrics.closedPositions < this.config.minClosedPositions) {
+      return Helpers.calculateRiskLevel(whale.stats.winRate, whale.stats.totalTransactions, whale.balance.totalBalanceUsd);
+    }
+
+    let points = 0;
+    if (metrics.maxDrawdownPercent !== null) {
+      points += RISK_THRESHOLDS.maxDrawdownPercent.filter(limit => metrics.maxDrawdownPercent! > limit).length;
+    }
+    if (metrics.pnlVolatility !== null) {
+      points += RISK_THRESHOLDS.pnlVolatility.filter(limit => metrics.pnlVolatility! > limit).length;
+    }
+    if ((metrics.sortinoRatio ?? metrics.sharpeRatio ?? 0) < 0) points++;
+    if (metrics.longestLosingStreak >= RISK_THRESHOLDS.longestLosingStreak) points++;
+    if ((metrics.avgPositionSizePercent ?? 0) > RISK_THRESHOLDS.avgPositionSizePercent) points++;
+    if (metrics.holdingsHhi > RISK_THRESHOLDS.holdingsHhi) points++;
+
+    if (points >= 4) return 'HIGH';
+    if (points >= 2) return 'MEDIUM';
+    return 'LOW';
+  }
+
+  private static maxDrawdown(values: number[]): number {
+    let peak = values[0];
+    let worst = 0;
+
+    for (const value of values) {
+      peak = Math.max(peak, value);
+      if (peak > 0) {
+        worst = Math.max(worst, ((peak - value) / peak) * 100);
+      }
+    }
+
+    return worst;
+  }
+
+  private static longestLosingStreak(positions: ClosedPosition[]): number {
+    let longest = 0;
+    let current = 0;
+
+    for (const position of positions) {
+      current = position.realizedPnlUsd < 0 ? current + 1 : 0;
+      longest = Math.max(longest, current);
+    }
+
+    return longest;
+  }
+
+  private static stdDev(values: number[], mean: number): number {
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+  }
+
+  private static round(value: number, decimals: number = 2): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
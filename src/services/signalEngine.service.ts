@@ -0,0 +1,229 @@
+// src/services/signalEngine.service.ts - CONSENSUS BUY/SELL SIGNALS ACROSS TRACKED WHALES
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConsensusSignal, SignalDirection, SignalParticipant, SwapTrade, WhaleWallet } from '../types/whale.types';
+import { TradeStorage } from '../utils/trade-storage';
+import { Holdings } from '../utils/holdings';
+import { logger } from '../utils/logger';
+import { QUOTE_MINTS } from '../config/tokens.config';
+import { writeFileAtomic } from '../utils/atomic-file';
+
+export type SignalWeighting = 'none' | 'category';
+
+export interface SignalConfig {
+  minWeightedWallets: number;
+  windowMs: number;
+  minTradeUsd: number;
+  weighting: SignalWeighting;
+}
+
+export interface SignalQuery {
+  mint?: string;
+  direction?: SignalDirection;
+  since?: number; // ms
+  activeOnly?: boolean;
+  limit?: number;
+}
+
+const CATEGORY_WEIGHTS: Record<WhaleWallet['category'], number> = {
+  WHALE: 1,
+  SUPER_WHALE: 1.5,
+  MEGA_WHALE: 2
+};
+
+export class SignalEngine {
+  private dataDir = path.join(process.cwd(), 'data');
+  private signalsFile = path.join(this.dataDir, 'signals.json');
+  private signals: ConsensusSignal[] = []; // newest first
+
+  private readonly MAX_SIGNALS = 5000;
+
+  config: SignalConfig = {
+    minWeightedWallets: parseFloat(process.env.SIGNAL_MIN_WALLETS || '3'),
+    windowMs: parseInt(process.env.SIGNAL_WINDOW_MINUTES || '60') * 60 * 1000,
+    minTradeUsd: parseFloat(process.env.SIGNAL_MIN_TRADE_USD || '1000'),
+    weighting: (process.env.SIGNAL_WEIGHTING as SignalWeighting) || 'none'
+  };
+
+  // `clusterOf` maps a wallet to its entity so one owner splitting a trade across wallets counts once
+  constructor(private tradeStorage: TradeStorage, private clusterOf: (address: string) => string | null = () => null) {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+  }
+
+  // Check every (mint, direction) touched by newly stored trades; returns signals created or extended
+  processTrades(trades: SwapTrade[], wallets: Map<string, WhaleWallet>): ConsensusSignal[] {
+    const changed = new Map<string, ConsensusSignal>();
+    const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const trade of sorted) {
+      for (const [mint, direction] of this.legsOf(trade)) {
+        const signal = this.evaluate(mint, direction, trade.timestamp, wallets);
+        if (signal) {
+          changed.set(signal.id, signal);
+        }
+      }
+    }
+
+    if (changed.size > 0) {
+      this.save();
+      logger.info(`📡 ${changed.size} consensus signals created or updated`);
+    }
+
+    return Array.from(changed.values());
+  }
+
+  getSignals(query: SignalQuery = {}): ConsensusSignal[] {
+    const activeSince = Date.now() / 1000 - this.config.windowMs / 1000;
+
+    return this.signals
+      .filter(signal => !query.mint || signal.mint === query.mint)
+      .filter(signal => !query.direction || signal.direction === query.direction)
+      .filter(signal => query.since === undefined || new Date(signal.updatedAt).getTime() >= query.since)
+      .filter(signal => !query.activeOnly || signal.lastTradeAt >= activeSince)
+      .slice(0, query.limit || 100);
+  }
+
+  getSignal(id: string): ConsensusSignal | null {
+    return this.signals.find(signal => signal.id === id) || null;
+  }
+
+  private evaluate(mint: string, direction: SignalDirection, at: number, wallets: Map<string, WhaleWallet>): ConsensusSignal | null {
+    const windowSeconds = this.config.windowMs / 1000;
+
+    // An open signal for the same mint/direction absorbs trades that keep arriving within the window
+    const open = this.signals.find(signal =>
+      signal.mint === mint &&
+      signal.direction === direction &&
+      at >= signal.firstTradeAt &&
+      at - signal.lastTradeAt <= windowSeconds
+    );
+
+    const from = open ? open.firstTradeAt : at - windowSeconds;
+    const trades = this.tradeStorage
+      .find({ mint, from: from * 1000, to: at * 1000 })
+      .filter(trade => this.legsOf(trade).some(([legMint, legDirection]) => legMint === mint && legDirection === direction))
+      .filter(trade => wallets.has(trade.wallet) && (trade.valueUsd || 0) >= this.config.minTradeUsd);
+
+    const participants = this.buildParticipants(trades, wallets);
+    const weightedCount = participants.reduce((sum, participant) => sum + participant.weight, 0);
+
+    if (participants.length < 2 || weightedCount < this.config.minWeightedWallets) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const firstTradeAt = Math.min(...participants.map(participant => participant.firstTradeAt));
+    const lastTradeAt = Math.max(...participants.map(participant => participant.lastTradeAt));
+    const totalSizeUsd = participants.reduce((sum, participant) => sum + participant.sizeUsd, 0);
+
+    const signal: ConsensusSignal = {
+      id: open ? open.id : `sig_${direction.toLowerCase()}_${mint.substring(0, 8)}_${firstTradeAt}`,
+      mint,
+      symbol: Holdings.symbolFor(mint),
+      direction,
+      participants,
+      walletCount: participants.length,
+      weightedCount,
+      totalSizeUsd,
+      strength: this.calculateStrength(weightedCount, totalSizeUsd, lastTradeAt - firstTradeAt),
+      firstTradeAt,
+      lastTradeAt,
+      detectedAt: open ? open.detectedAt : now,
+      updatedAt: now
+    };
+
+    if (open) {
+      this.signals[this.signals.indexOf(open)] = signal;
+    } else {
+      this.signals.unshift(signal);
+      this.signals = this.signals.slice(0, this.MAX_SIGNALS);
+      logger.success(`📡 ${direction} consensus on ${signal.symbol}: ${signal.walletCount} whales, $${totalSizeUsd.toFixed(0)}`);
+    }
+
+    return signal;
+  }
+
+  private buildParticipants(trades: SwapTrade[], wallets: Map<string, WhaleWallet>): SignalParticipant[] {
+    const byEntity = new Map<string, SignalParticipant>();
+
+    for (const trade of trades) {
+      const wallet = wallets.get(trade.wallet);
+      const clusterId = this.clusterOf(trade.wallet);
+      const existing = byEntity.get(clusterId || trade.wallet);
+
+      if (existing) {
+        existing.sizeUsd += trade.valueUsd || 0;
+        existing.trades++;
+        existing.firstTradeAt = Math.min(existing.firstTradeAt, trade.timestamp);
+        existing.lastTradeAt = Math.max(existing.lastTradeAt, trade.timestamp);
+        existing.weight = Math.max(existing.weight, this.weightOf(wallet));
+        if (!existing.addresses?.includes(trade.wallet)) {
+          existing.addresses = [...(existing.addresses || []), trade.wallet];
+        }
+      } else {
+        byEntity.set(clusterId || trade.wallet, {
+          address: trade.wallet,
+          clusterId,
+          addresses: [trade.wallet],
+          category: wallet?.category || null,
+          weight: this.weightOf(wallet),
+          sizeUsd: trade.valueUsd || 0,
+          trades: 1,
+          firstTradeAt: trade.timestamp,
+          lastTradeAt: trade.timestamp
+        });
+      }
+    }
+
+    return Array.from(byEntity.values()).sort((a, b) => b.sizeUsd - a.sizeUsd);
+  }
+
+  private weightOf(wallet: WhaleWallet | undefined): number {
+    if (this.config.weighting === 'category' && wallet) {
+      return CATEGORY_WEIGHTS[wallet.category] || 1;
+    }
+    return 1;
+  }
+
+  // 60 pts participation (full at 2x threshold), 30 pts size (full at $1M), 10 pts for a tight cluster
+  private calculateStrength(weightedCount: number, totalSizeUsd: number, spanSeconds: number): number {
+    const participation = Math.min(weightedCount / (this.config.minWeightedWallets * 2), 1) * 60;
+    const size = Math.min(Math.log10(totalSizeUsd + 1) / 6, 1) * 30;
+    const tightness = Math.max(0, 1 - spanSeconds / (this.config.windowMs / 1000)) * 10;
+    return Math.round(participation + size + tightness);
+  }
+
+  // Which (mint, direction) pairs a trade counts toward; quote assets never form signals
+  private legsOf(trade: SwapTrade): Array<[string, SignalDirection]> {
+    const legs: Array<[string, SignalDirection]> = [];
+    if (!QUOTE_MINTS.includes(trade.outputMint)) legs.push([trade.outputMint, 'BUY']);
+    if (!QUOTE_MINTS.includes(trade.inputMint)) legs.push([trade.inputMint, 'SELL']);
+    return legs;
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.signalsFile)) {
+        this.signals = JSON.parse(fs.readFileSync(this.signalsFile, 'utf8')).signals || [];
+        logger.info(`📥 Loaded ${this.signals.length} signals from storage`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading signals:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileAtomic(this.signalsFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        totalSignals: this.signals.length,
+        signals: this.signals
+      }, null, 2));
+    } catch (error) {
+      logger.error('❌ Error saving signals:', error);
+    }
+  }
+}
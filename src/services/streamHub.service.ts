@@ -0,0 +1,324 @@
+// src/services/streamHub.service.ts - REAL-TIME UPDATES OVER SSE AND WEBSOCKET
+import * as http from 'http';
+import { Response } from 'express';
+import { WebSocketServer, WebSocket } from 'ws';
+import { logger } from '../utils/logger';
+import { Helpers } from '../utils/helpers';
+
+// `address:<wallet>` topics are added per event; the rest are fixed
+export const STREAM_TOPICS = ['whales', 'categories', 'trades', 'credits'] as const;
+
+export interface StreamEvent {
+  id: number;
+  type: string;
+  topics: string[];
+  timestamp: string;
+  data: any;
+}
+
+// One connected client's socket, regardless of protocol
+interface StreamTransport {
+  write(event: StreamEvent): boolean; // false once the socket buffer is full
+  heartbeat(): void;
+  onDrain(listener: () => void): void;
+  close(): void;
+}
+
+interface StreamClient {
+  id: number;
+  protocol: 'sse' | 'websocket';
+  topics: Set<string>;
+  transport: StreamTransport;
+  queue: StreamEvent[]; // events held back while the socket is congested
+  congested: boolean;
+  connectedAt: string;
+}
+
+export class StreamHub {
+  private static instance: StreamHub;
+
+  private clients = new Map<number, StreamClient>();
+  private buffer: StreamEvent[] = []; // oldest first, for Last-Event-ID replay
+  private nextClientId = 1;
+  // Seeded from the clock so IDs from before a restart are always older than new ones
+  private nextEventId = Date.now();
+  private droppedClients = 0;
+
+  private readonly BUFFER_SIZE = parseInt(process.env.STREAM_BUFFER_SIZE || '1000');
+  private readonly HEARTBEAT_MS = parseInt(process.env.STREAM_HEARTBEAT_MS || '15000');
+  private readonly MAX_CLIENTS = parseInt(process.env.STREAM_MAX_CLIENTS || '100');
+  private readonly MAX_QUEUE = parseInt(process.env.STREAM_MAX_QUEUE || '500');
+  private readonly WS_HIGH_WATER_MARK = 1024 * 1024;
+
+  static getInstance(): StreamHub {
+    if (!StreamHub.instance) {
+      StreamHub.instance = new StreamHub();
+    }
+    return StreamHub.instance;
+  }
+
+  constructor() {
+    setInterval(() => this.clients.forEach(client => client.transport.heartbeat()), this.HEARTBEAT_MS).unref();
+  }
+
+  static addressTopic(address: string): string {
+    return `address:${address}`;
+  }
+
+  // `topics` and `addresses` come from the client; null means the request is invalid
+  static parseTopics(topics: string[], addresses: string[]): Set<string> | null {
+    const result = new Set<string>();
+
+    for (const topic of topics) {
+      if (!(STREAM_TOPICS as readonly string[]).includes(topic)) return null;
+      result.add(topic);
+    }
+    for (const address of addresses) {
+      if (!Helpers.isValidSolanaAddress(address)) return null;
+      result.add(StreamHub.addressTopic(address));
+    }
+
+    // Nothing requested: every wallet update
+    if (result.size === 0) {
+      result.add('whales');
+    }
+    return result;
+  }
+
+  publish(type: string, topics: string[], data: any): void {
+    const event: StreamEvent = {
+      id: this.nextEventId++,
+      type,
+      topics,
+      timestamp: new Date().toISOString(),
+      data
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.BUFFER_SIZE) {
+      this.buffer.splice(0, this.buffer.length - this.BUFFER_SIZE);
+    }
+
+    this.clients.forEach(client => {
+      if (this.wants(client, event)) {
+        this.deliver(client, event);
+      }
+    });
+  }
+
+  // ===============================
+  // SERVER-SENT EVENTS
+  // ===============================
+
+  canAcceptClient(): boolean {
+    return this.clients.size < this.MAX_CLIENTS;
+  }
+
+  openSse(res: Response, topics: Set<string>, lastEventId: number | null): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const client = this.register('sse', topics, {
+      write: event => res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+      heartbeat: () => { res.write(`: heartbeat ${Date.now()}\n\n`); },
+      onDrain: listener => { res.on('drain', listener); },
+      close: () => res.end()
+    });
+
+    res.on('close', () => this.unregister(client.id));
+    this.replay(client, lastEventId);
+  }
+
+  // ===============================
+  // WEBSOCKET
+  // ===============================
+
+  // Clients connect to `path?topics=...&address=...&lastEventId=...` and may later send
+  // {"action":"subscribe"|"unsubscribe","topics":[...],"addresses":[...]}
+  attachWebSocket(server: http.Server, path: string, authorize: (request: http.IncomingMessage) => boolean = () => true): void {
+    const wss = new WebSocketServer({ server, path, maxPayload: 64 * 1024 });
+
+    wss.on('connection', (socket: WebSocket, request: http.IncomingMessage) => {
+      if (!authorize(request)) {
+        socket.close(1008, 'API key with read scope required');
+        return;
+      }
+
+      const url = new URL(request.url || path, 'http://localhost');
+      const topics = StreamHub.parseTopics(StreamHub.splitList(url.searchParams.get('topics')), StreamHub.splitList(url.searchParams.get('address')));
+
+      if (!topics || !this.canAcceptClient()) {
+        socket.close(1008, topics ? 'Too many stream clients' : 'Invalid topics or address');
+        return;
+      }
+
+      let alive = true;
+      socket.on('pong', () => { alive = true; });
+
+      const drainListeners: Array<() => void> = [];
+      const client = this.register('websocket', topics, {
+        write: event => {
+          socket.send(JSON.stringify(event), () => {
+            if (socket.bufferedAmount < this.WS_HIGH_WATER_MARK) drainListeners.forEach(listener => listener());
+          });
+          return socket.bufferedAmount < this.WS_HIGH_WATER_MARK;
+        },
+        heartbeat: () => {
+          // No pong since the last ping: the connection is dead
+          if (!alive) {
+            socket.terminate();
+            return;
+          }
+          alive = false;
+          socket.ping();
+        },
+        onDrain: listener => { drainListeners.push(listener); },
+        close: () => socket.close(1013, 'Client too slow - reconnect with lastEventId')
+      });
+
+      socket.on('message', raw => this.handleWebSocketMessage(client, socket, raw.toString()));
+      socket.on('close', () => this.unregister(client.id));
+      socket.on('error', error => logger.warn(`Stream websocket error: ${error.message}`));
+
+      const lastEventId = url.searchParams.get('lastEventId');
+      this.replay(client, lastEventId ? StreamHub.parseEventId(lastEventId) : null);
+    });
+
+    logger.info(`📡 WebSocket stream listening on ${path}`);
+  }
+
+  private handleWebSocketMessage(client: StreamClient, socket: WebSocket, raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      socket.send(JSON.stringify({ type: 'error', message: 'Messages must be JSON' }));
+      return;
+    }
+
+    const topics = StreamHub.parseTopics(
+      Array.isArray(message.topics) ? message.topics : [],
+      Array.isArray(message.addresses) ? message.addresses : []
+    );
+    if (!topics || (message.action !== 'subscribe' && message.action !== 'unsubscribe')) {
+      socket.send(JSON.stringify({ type: 'error', message: 'Expected {"action":"subscribe"|"unsubscribe","topics":[...],"addresses":[...]}' }));
+      return;
+    }
+
+    // parseTopics defaults an empty request to "whales"; only apply what was actually named
+    const named = (message.topics?.length || 0) + (message.addresses?.length || 0) > 0;
+    if (named) {
+      topics.forEach(topic => message.action === 'subscribe' ? client.topics.add(topic) : client.topics.delete(topic));
+    }
+    socket.send(JSON.stringify({ type: 'subscriptions', topics: Array.from(client.topics) }));
+  }
+
+  // ===============================
+  // DELIVERY
+  // ===============================
+
+  private register(protocol: StreamClient['protocol'], topics: Set<string>, transport: StreamTransport): StreamClient {
+    const client: StreamClient = {
+      id: this.nextClientId++,
+      protocol,
+      topics,
+      transport,
+      queue: [],
+      congested: false,
+      connectedAt: new Date().toISOString()
+    };
+
+    transport.onDrain(() => this.drain(client));
+    this.clients.set(client.id, client);
+    logger.info(`📡 Stream client ${client.id} connected (${protocol}: ${Array.from(topics).join(', ')})`);
+    return client;
+  }
+
+  private unregister(clientId: number): void {
+    if (this.clients.delete(clientId)) {
+      logger.info(`📡 Stream client ${clientId} disconnected`);
+    }
+  }
+
+  // Send what the client missed since `lastEventId`, or tell it to resync when that is no longer buffered
+  private replay(client: StreamClient, lastEventId: number | null): void {
+    if (lastEventId === null || lastEventId === this.nextEventId - 1) return;
+
+    const oldest = this.buffer[0];
+    if (!oldest || lastEventId < oldest.id - 1 || lastEventId >= this.nextEventId) {
+      this.deliver(client, {
+        id: this.nextEventId - 1,
+        type: 'resync',
+        topics: [],
+        timestamp: new Date().toISOString(),
+        data: { reason: 'Requested events are no longer buffered - reload current state from the REST API' }
+      });
+      return;
+    }
+
+    this.buffer
+      .filter(event => event.id > lastEventId && this.wants(client, event))
+      .forEach(event => this.deliver(client, event));
+  }
+
+  private wants(client: StreamClient, event: StreamEvent): boolean {
+    return event.topics.some(topic => client.topics.has(topic));
+  }
+
+  // Queue while the socket is congested; a client that falls too far behind is disconnected and can resume
+  private deliver(client: StreamClient, event: StreamEvent): void {
+    if (client.congested) {
+      client.queue.push(event);
+      if (client.queue.length > this.MAX_QUEUE) {
+        logger.warn(`📡 Stream client ${client.id} too slow, disconnecting`);
+        this.droppedClients++;
+        this.unregister(client.id);
+        client.transport.close();
+      }
+      return;
+    }
+
+    if (!client.transport.write(event)) {
+      client.congested = true;
+    }
+  }
+
+  private drain(client: StreamClient): void {
+    client.congested = false;
+    while (client.queue.length > 0 && !client.congested) {
+      const event = client.queue.shift() as StreamEvent;
+      if (!client.transport.write(event)) {
+        client.congested = true;
+      }
+    }
+  }
+
+  getStatus(): any {
+    const clients = Array.from(this.clients.values());
+    return {
+      clients: clients.length,
+      sseClients: clients.filter(client => client.protocol === 'sse').length,
+      websocketClients: clients.filter(client => client.protocol === 'websocket').length,
+      congestedClients: clients.filter(client => client.congested).length,
+      droppedClients: this.droppedClients,
+      bufferedEvents: this.buffer.length,
+      lastEventId: this.nextEventId - 1
+    };
+  }
+
+  static splitList(value: any): string[] {
+    return typeof value === 'string' && value.trim() !== ''
+      ? value.split(',').map(item => item.trim()).filter(Boolean)
+      : [];
+  }
+
+  static parseEventId(value: any): number | null {
+    const id = Number(value);
+    return typeof value === 'string' && value.trim() !== '' && Number.isInteger(id) ? id : null;
+  }
+}
@@ -0,0 +1,372 @@
+// src/services/walletClustering.service.ts - GROUP WALLETS CONTROLLED BY THE SAME ENTITY
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  ClusterLink,
+  CounterpartyObservation,
+  TokenHolding,
+  WalletBalance,
+  WalletCluster,
+  WalletStatValues,
+  WhaleWallet
+} from '../types/whale.types';
+import { WhaleDiscoveryService } from './whaleDiscovery.service';
+import { logger } from '../utils/logger';
+import { Helpers } from '../utils/helpers';
+import { writeFileAtomic } from '../utils/atomic-file';
+
+export interface ClusteringConfig {
+  minTransfers: number;     // direct transfers between two wallets before they are linked
+  minCosigns: number;       // transactions signed by both wallets before they are linked
+  maxFunderFanout: number;  // a funder of more tracked wallets than this is an exchange, not an owner
+  scansPerCycle: number;
+  funderLookupPages: number;
+}
+
+interface ClusterState {
+  funders: Record<string, string | null>;     // null = looked up, not found
+  lastScanned: Record<string, number>;        // ms
+  transferCounts: Record<string, number>;     // "a|b" with a < b, at least one of them tracked
+  cosignCounts: Record<string, number>;
+  observedSignatures: string[];
+  clusters: WalletCluster[];
+}
+
+export class WalletClusteringService {
+  private dataDir = path.join(process.cwd(), 'data');
+  private clustersFile = path.join(this.dataDir, 'clusters.json');
+
+  private state: ClusterState = {
+    funders: {},
+    lastScanned: {},
+    transferCounts: {},
+    cosignCounts: {},
+    observedSignatures: [],
+    clusters: []
+  };
+  private observed = new Set<string>();
+  private clusterByAddress = new Map<string, WalletCluster>();
+  private scanning = false;
+  private dirty = false;
+
+  private readonly MAX_OBSERVED_SIGNATURES = 50000;
+
+  config: ClusteringConfig = {
+    minTransfers: parseInt(process.env.CLUSTER_MIN_TRANSFERS || '3'),
+    minCosigns: parseInt(process.env.CLUSTER_MIN_COSIGNS || '1'),
+    maxFunderFanout: parseInt(process.env.CLUSTER_MAX_FUNDER_FANOUT || '10'),
+    scansPerCycle: parseInt(process.env.CLUSTER_SCANS_PER_CYCLE || '10'),
+    funderLookupPages: parseInt(process.env.CLUSTER_FUNDER_LOOKUP_PAGES || '3')
+  };
+
+  constructor(private discovery: WhaleDiscoveryService = new WhaleDiscoveryService()) {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+
+    // Counters from webhook deliveries build up between rebuilds
+    setInterval(() => this.flush(), 60000).unref();
+  }
+
+  // ===============================
+  // EVIDENCE
+  // ===============================
+
+  // Scan the least recently scanned wallets over public RPC (no Helius credits), then regroup
+  async refresh(wallets: Map<string, WhaleWallet>): Promise<WalletCluster[]> {
+    if (this.scanning) return this.state.clusters;
+    this.scanning = true;
+
+    try {
+      const tracked = new Set(wallets.keys());
+      const due = Array.from(wallets.keys())
+        .sort((a, b) => (this.state.lastScanned[a] || 0) - (this.state.lastScanned[b] || 0))
+        .slice(0, this.config.scansPerCycle);
+
+      for (const address of due) {
+        this.recordObservations(await this.discovery.collectCounterparties(address), tracked);
+
+        if (!(address in this.state.funders)) {
+          this.state.funders[address] = await this.discovery.findFirstFunder(address, this.config.funderLookupPages);
+        }
+
+        this.state.lastScanned[address] = Date.now();
+        await Helpers.sleep(500);
+      }
+
+      return this.rebuild(wallets);
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  // Pairs between two untracked addresses can never link tracked wallets, so they are not counted
+  recordObservations(observations: CounterpartyObservation[], tracked: Set<string>): void {
+    for (const observation of observations) {
+      if (this.observed.has(observation.signature)) continue;
+      this.markObserved(observation.signature);
+
+      const signers = [...new Set(observation.signers)];
+      for (let i = 0; i < signers.length; i++) {
+        for (let j = i + 1; j < signers.length; j++) {
+          if (tracked.has(signers[i]) || tracked.has(signers[j])) {
+            this.increment(this.state.cosignCounts, signers[i], signers[j]);
+          }
+        }
+      }
+
+      const pairs = new Set(observation.transfers.map(transfer => WalletClusteringService.pairKey(transfer.from, transfer.to)));
+      pairs.forEach(pair => {
+        const [a, b] = pair.split('|');
+        if (a !== b && (tracked.has(a) || tracked.has(b))) this.increment(this.state.transferCounts, a, b);
+      });
+    }
+  }
+
+  // ===============================
+  // CLUSTERS
+  // ===============================
+
+  // Union-find over tracked wallets; IDs are carried over from the previous grouping
+  rebuild(wallets: Map<string, WhaleWallet>): WalletCluster[] {
+    const addresses = Array.from(wallets.keys());
+    const tracked = new Set(addresses);
+    const parent = new Map(addresses.map(address => [address, address]));
+
+    const find = (address: string): string => {
+      let root = address;
+      while (parent.get(root) !== root) root = parent.get(root) as string;
+      parent.set(address, root);
+      return root;
+    };
+
+    const links: ClusterLink[] = [];
+    const link = (edge: ClusterLink) => {
+      links.push(edge);
+      const rootA = find(edge.from);
+      const rootB = find(edge.to);
+      if (rootA !== rootB) parent.set(rootA, rootB);
+    };
+
+    // Shared first funder
+    const byFunder = new Map<string, string[]>();
+    for (const address of addresses) {
+      const funder = this.state.funders[address];
+      if (funder) byFunder.set(funder, [...(byFunder.get(funder) || []), address]);
+    }
+    byFunder.forEach((funded, funder) => {
+      if (funded.length < 2 || funded.length > this.config.maxFunderFanout) return;
+      for (let i = 1; i < funded.length; i++) {
+        link({ from: funded[0], to: funded[i], reason: 'SHARED_FUNDER', count: 1, funder });
+      }
+    });
+
+    // Frequent direct transfers and co-signing
+    const pairLinks: Array<[Record<string, number>, number, ClusterLink['reason']]> = [
+      [this.state.transferCounts, this.config.minTransfers, 'DIRECT_TRANSFERS'],
+      [this.state.cosignCounts, this.config.minCosigns, 'CO_SIGNER']
+    ];
+    for (const [counts, threshold, reason] of pairLinks) {
+      for (const [pair, count] of Object.entries(counts)) {
+        const [a, b] = pair.split('|');
+        if (count >= threshold && tracked.has(a) && tracked.has(b)) {
+          link({ from: a, to: b, reason, count });
+        }
+      }
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const address of addresses) {
+      const root = find(address);
+      groups.set(root, [...(groups.get(root) || []), address]);
+    }
+
+    const previous = this.state.clusters;
+    const usedIds = new Set<string>();
+    const now = new Date().toISOString();
+
+    const clusters: WalletCluster[] = Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => {
+        members.sort();
+        const memberSet = new Set(members);
+
+        // Keep the ID of the previous cluster that shares the most members
+        const predecessor = previous
+          .filter(cluster => !usedIds.has(cluster.id))
+          .map(cluster => ({ cluster, overlap: cluster.members.filter(member => memberSet.has(member)).length }))
+          .filter(candidate => candidate.overlap > 0)
+          .sort((a, b) => b.overlap - a.overlap || a.cluster.createdAt.localeCompare(b.cluster.createdAt))[0]?.cluster;
+
+        const id = predecessor?.id || WalletClusteringService.newId(members);
+        usedIds.add(id);
+
+        const memberWallets = members.map(member => wallets.get(member) as WhaleWallet);
+        const combinedBalance = WalletClusteringService.combineBalances(memberWallets);
+
+        return {
+          id,
+          members,
+          links: links.filter(edge => memberSet.has(edge.from)),
+          category: Helpers.determineCategory(combinedBalance.totalBalanceUsd),
+          combinedBalance,
+          combinedStats: WalletClusteringService.combineStats(memberWallets),
+          createdAt: predecessor?.createdAt || now,
+          updatedAt: now
+        };
+      })
+      .sort((a, b) => b.combinedBalance.totalBalanceUsd - a.combinedBalance.totalBalanceUsd);
+
+    this.state.clusters = clusters;
+    this.indexClusters();
+    this.pruneCounts(tracked);
+    this.save();
+
+    logger.info(`🔗 ${clusters.length} wallet clusters covering ${clusters.reduce((sum, cluster) => sum + cluster.members.length, 0)} wallets`);
+    return clusters;
+  }
+
+  flush(): void {
+    if (this.dirty) this.save();
+  }
+
+  getClusters(): WalletCluster[] {
+    return this.state.clusters;
+  }
+
+  getCluster(id: string): WalletCluster | null {
+    return this.state.clusters.find(cluster => cluster.id === id) || null;
+  }
+
+  clusterOf(address: string): WalletCluster | null {
+    return this.clusterByAddress.get(address) || null;
+  }
+
+  getStats(): any {
+    return {
+      clusters: this.state.clusters.length,
+      clusteredWallets: this.clusterByAddress.size,
+      walletsScanned: Object.keys(this.state.lastScanned).length,
+      fundersKnown: Object.values(this.state.funders).filter(Boolean).length,
+      transferPairs: Object.keys(this.state.transferCounts).length,
+      cosignPairs: Object.keys(this.state.cosignCounts).length,
+      config: this.config
+    };
+  }
+
+  private static combineBalances(wallets: WhaleWallet[]): WalletBalance {
+    const holdings = new Map<string, TokenHolding>();
+
+    for (const wallet of wallets) {
+      for (const holding of wallet.balance.holdings || []) {
+        const existing = holdings.get(holding.mint);
+        if (existing) {
+          existing.amount += holding.amount;
+          existing.valueUsd += holding.valueUsd;
+          existing.priceUsd = existing.priceUsd ?? holding.priceUsd;
+        } else {
+          holdings.set(holding.mint, { ...holding });
+        }
+      }
+    }
+
+    const sum = (pick: (balance: WalletBalance) => number) => wallets.reduce((total, wallet) => total + (pick(wallet.balance) || 0), 0);
+    const totalBalanceUsd = sum(balance => balance.totalBalanceUsd);
+
+    return {
+      sol: sum(balance => balance.sol),
+      usdc: sum(balance => balance.usdc),
+      totalTokensUsd: sum(balance => balance.totalTokensUsd),
+      totalBalanceUsd,
+      holdings: Array.from(holdings.values())
+        .map(holding => ({ ...holding, portfolioShare: totalBalanceUsd > 0 ? holding.valueUsd / totalBalanceUsd : 0 }))
+        .sort((a, b) => b.valueUsd - a.valueUsd)
+    };
+  }
+
+  private static combineStats(wallets: WhaleWallet[]): WalletStatValues {
+    const sum = (pick: (stats: WalletStatValues) => number) => wallets.reduce((total, wallet) => total + (pick(wallet.stats) || 0), 0);
+    const closedTrades = sum(stats => stats.closedTrades);
+    const profitableTrades = sum(stats => stats.profitableTrades);
+    const realizedPnl = sum(stats => stats.realizedPnl);
+    const totalBalance = wallets.reduce((total, wallet) => total + wallet.balance.totalBalanceUsd, 0);
+
+    return {
+      totalTransactions: sum(stats => stats.totalTransactions),
+      successfulTrades: sum(stats => stats.successfulTrades),
+      // Pooled over closed trades when there are any, otherwise balance-weighted
+      winRate: closedTrades > 0
+        ? (profitableTrades / closedTrades) * 100
+        : totalBalance > 0 ? wallets.reduce((total, wallet) => total + wallet.stats.winRate * wallet.balance.totalBalanceUsd, 0) / totalBalance : 0,
+      avgProfitLoss: closedTrades > 0 ? realizedPnl / closedTrades : 0,
+      lastActiveDate: wallets.map(wallet => wallet.stats.lastActiveDate).sort().reverse()[0],
+      profitableTrades,
+      totalVolume: sum(stats => stats.totalVolume),
+      closedTrades,
+      realizedPnl
+    };
+  }
+
+  private increment(counts: Record<string, number>, a: string, b: string): void {
+    const key = WalletClusteringService.pairKey(a, b);
+    counts[key] = (counts[key] || 0) + 1;
+  }
+
+  // Drops counters whose wallets have both left the tracked set
+  private pruneCounts(tracked: Set<string>): void {
+    for (const counts of [this.state.transferCounts, this.state.cosignCounts]) {
+      for (const pair of Object.keys(counts)) {
+        const [a, b] = pair.split('|');
+        if (!tracked.has(a) && !tracked.has(b)) delete counts[pair];
+      }
+    }
+  }
+
+  private markObserved(signature: string): void {
+    this.observed.add(signature);
+    this.state.observedSignatures.push(signature);
+    this.dirty = true;
+
+    if (this.state.observedSignatures.length > this.MAX_OBSERVED_SIGNATURES) {
+      const expired = this.state.observedSignatures.splice(0, this.state.observedSignatures.length - this.MAX_OBSERVED_SIGNATURES);
+      expired.forEach(expiredSignature => this.observed.delete(expiredSignature));
+    }
+  }
+
+  private indexClusters(): void {
+    this.clusterByAddress.clear();
+    this.state.clusters.forEach(cluster => cluster.members.forEach(member => this.clusterByAddress.set(member, cluster)));
+  }
+
+  private static pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  private static newId(members: string[]): string {
+    return 'cl_' + crypto.createHash('sha256').update(members.join(',')).digest('hex').substring(0, 12);
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.clustersFile)) {
+        this.state = { ...this.state, ...JSON.parse(fs.readFileSync(this.clustersFile, 'utf8')) };
+        this.observed = new Set(this.state.observedSignatures);
+        this.indexClusters();
+        logger.info(`📥 Loaded ${this.state.clusters.length} wallet clusters`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading wallet clusters:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileAtomic(this.clustersFile, JSON.stringify(this.state));
+      this.dirty = false;
+    } catch (error) {
+      logger.error('❌ Error saving wallet clusters:', error);
+    }
+  }
+}
@@ -1,12 +1,15 @@
 // src/services/whaleDetection.service.ts - REAL RPC VERSION
 import axios from 'axios';
 import { WhaleWallet, WalletBalance, WalletStats } from '../types/whale.types';
-import { SolPriceService } from './solPrice.service';
+import { PriceOracle } from './priceOracle.service';
 import { Helpers } from '../utils/helpers';
+import { Provenance } from '../utils/provenance';
+import { Holdings, RawTokenBalance } from '../utils/holdings';
+import { SOL_MINT } from '../config/tokens.config';
 import { logger } from '../utils/logger';
 
 export class WhaleDetectionService {
-  private solPriceService = SolPriceService.getInstance();
+  private priceOracle = PriceOracle.getInstance();
   
   private apiClient = axios.create({
     timeout: 20000,
@@ -129,41 +132,22 @@ export class WhaleDetectionService {
         }
       }
 
-      // Calculate token values
-      let usdcBalance = 0;
-      let totalTokensUsd = 0;
-
+      const tokens: RawTokenBalance[] = [];
       for (const account of tokenAccounts) {
-        try {
-          const tokenInfo = account.account?.data?.parsed?.info;
-          if (!tokenInfo) continue;
-
-          const mint = tokenInfo.mint;
-          const balance = parseFloat(tokenInfo.tokenAmount?.uiAmountString || '0');
-
-          // Known token mints
-          if (mint === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v') { // USDC
-            usdcBalance += balance;
-          } else if (mint === 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB') { // USDT
-            totalTokensUsd += balance;
-          } else {
-            // Estimate other tokens (conservative)
-            totalTokensUsd += balance * 0.1; // Very conservative estimate
-          }
-        } catch (error) {
-          continue;
-        }
+        const tokenInfo = account.account?.data?.parsed?.info;
+        if (!tokenInfo) continue;
+
+        tokens.push({
+          mint: tokenInfo.mint,
+          amount: parseFloat(tokenInfo.tokenAmount?.uiAmountString || '0'),
+          decimals: tokenInfo.tokenAmount?.decimals || 0
+        });
       }
 
-      const solPrice = this.solPriceService.getPrice();
-      const totalBalanceUsd = (solBalance * solPrice) + usdcBalance + totalTokensUsd;
+      const prices = await this.priceOracle.getPriceMap([SOL_MINT, ...tokens.map(token => token.mint)]);
 
-      const walletBalance: WalletBalance = {
-        sol: solBalance,
-        usdc: usdcBalance,
-        totalTokensUsd,
-        totalBalanceUsd
-      };
+      const walletBalance = Holdings.buildBalance(solBalance, tokens, prices);
+      const { usdc: usdcBalance, totalBalanceUsd } = walletBalance;
 
       logger.info(`💰 Balance: ${solBalance.toFixed(2)} SOL + ${usdcBalance.toFixed(0)} USDC = $${Helpers.formatNumber(totalBalanceUsd)}`);
       return walletBalance;
@@ -210,11 +194,16 @@ export class WhaleDetectionService {
     
     // Analyze transaction patterns
     let recentTransactions = 0;
+    let successfulTrades = 0;
     let lastActiveDate = new Date(0);
     const now = Date.now();
     const oneWeekAgo = now - (7 * 24 * 60 * 60 * 1000);
 
     for (const sig of signatures) {
+      if (!sig.err) {
+        successfulTrades++;
+      }
+
       if (sig.blockTime) {
         const txDate = new Date(sig.blockTime * 1000);
         
@@ -228,40 +217,47 @@ export class WhaleDetectionService {
       }
     }
 
-    // Calculate estimated performance based on activity
+    // Signatures carry no swap amounts, so performance can only be estimated from activity
     const activityScore = Math.min(recentTransactions / 10, 1); // Max score at 10+ recent tx
-    const baseWinRate = 40 + (activityScore * 40); // 40-80% based on activity
-    const winRate = baseWinRate + (Math.random() * 20 - 10); // ±10% randomization
-
-    const successfulTrades = Math.floor(totalTransactions * (winRate / 100));
+    const winRate = 40 + (activityScore * 40); // 40-80% based on activity
 
     return {
       totalTransactions,
       successfulTrades,
-      winRate: Math.max(20, Math.min(90, winRate)), // Clamp between 20-90%
-      avgProfitLoss: (winRate - 50) * 10, // Positive if good win rate
+      winRate,
+      avgProfitLoss: 0,
       lastActiveDate: lastActiveDate.toISOString(),
-      profitableTrades: successfulTrades,
-      totalVolume: totalTransactions * 500 // Estimate $500 per transaction
+      profitableTrades: 0,
+      totalVolume: 0,
+      closedTrades: 0,
+      realizedPnl: 0,
+      provenance: Provenance.build(Provenance.defaulted(), {
+        totalTransactions: Provenance.measured(),
+        successfulTrades: Provenance.measured(),
+        winRate: Provenance.estimated(0.2),
+        lastActiveDate: lastActiveDate.getTime() > 0 ? Provenance.measured() : Provenance.defaulted()
+      })
     };
   }
 
   private generateBasicStats(balance: WalletBalance): WalletStats {
-    // Generate reasonable stats based on balance
+    // No history available: only the win rate gets a (balance-based) estimate, nothing is invented
     const balanceScore = Math.min(balance.totalBalanceUsd / 100000, 1); // Score based on 100K
     const baseWinRate = 50 + (balanceScore * 30); // 50-80% based on balance
-    const totalTransactions = Math.floor(10 + (balanceScore * 40)); // 10-50 transactions
-
-    const successfulTrades = Math.floor(totalTransactions * (baseWinRate / 100));
 
     return {
-      totalTransactions,
-      successfulTrades,
+      totalTransactions: 0,
+      successfulTrades: 0,
       winRate: baseWinRate,
-      avgProfitLoss: (baseWinRate - 50) * 8,
-      lastActiveDate: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-      profitableTrades: successfulTrades,
-      totalVolume: balance.totalBalanceUsd * 0.1 // 10% of balance as volume estimate
+      avgProfitLoss: 0,
+      lastActiveDate: new Date(0).toISOString(),
+      profitableTrades: 0,
+      totalVolume: 0,
+      closedTrades: 0,
+      realizedPnl: 0,
+      provenance: Provenance.build(Provenance.defaulted(), {
+        winRate: Provenance.estimated(0.1)
+      })
     };
   }
 
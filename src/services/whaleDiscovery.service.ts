@@ -2,8 +2,12 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { Helpers } from '../utils/helpers';
+import { CounterpartyObservation } from '../types/whale.types';
+import { AddressClassifier } from './addressClassifier.service';
 
 export class WhaleDiscoveryService {
+  private observationListeners: Array<(observations: CounterpartyObservation[]) => void> = [];
+
   private apiClient = axios.create({
     timeout: 25000,
     headers: {
@@ -63,6 +67,9 @@ export class WhaleDiscoveryService {
     'AxFuniPo3Y7VBn9CeKfEZVr6E8pYJh58wE8dYHLWJXB2'  // Large SOL holder
   ];
 
+  // Without a classifier, program, PDA and exchange accounts pass straight through
+  constructor(private classifier: AddressClassifier | null = null) {}
+
   async discoverTopWallets(): Promise<string[]> {
     const allWallets: string[] = [];
     const walletBalances = new Map<string, number>();
@@ -99,9 +106,14 @@ export class WhaleDiscoveryService {
       allWallets.push(...richSOLWallets);
 
       // Remove duplicates and validate
-      const uniqueWallets = [...new Set(allWallets)]
+      let uniqueWallets = [...new Set(allWallets)]
         .filter(wallet => Helpers.isValidSolanaAddress(wallet));
 
+      // Program accounts and getLargestAccounts hits are mostly not people
+      if (this.classifier) {
+        uniqueWallets = (await this.classifier.filterAllowed(uniqueWallets)).allowed;
+      }
+
       logger.info(`🎯 Phase 5: Ranking ${uniqueWallets.length} candidates by SOL balance...`);
 
       // Batch balance checking for performance
@@ -247,6 +259,22 @@ export class WhaleDiscoveryService {
   }
 
   private async findTransactionPartners(walletAddress: string): Promise<string[]> {
+    const observations = await this.collectCounterparties(walletAddress);
+    const partners: string[] = [];
+
+    for (const observation of observations) {
+      for (const address of observation.accounts) {
+        if (Helpers.isValidSolanaAddress(address) && address !== walletAddress) {
+          partners.push(address);
+        }
+      }
+    }
+
+    return [...new Set(partners)].slice(0, 20); // Return unique partners
+  }
+
+  // Signers, SOL transfers and touched accounts of a wallet's recent transactions
+  async collectCounterparties(walletAddress: string, limit: number = 10): Promise<Array<CounterpartyObservation & { accounts: string[] }>> {
     try {
       for (const rpcUrl of this.RPC_ENDPOINTS) {
         try {
@@ -262,36 +290,22 @@ export class WhaleDiscoveryService {
 
           if (response.data?.result) {
             const signatures = response.data.result;
-            const partners: string[] = [];
+            const observations: Array<CounterpartyObservation & { accounts: string[] }> = [];
 
-            // Analyze first 10 transactions for partners
-            for (const sig of signatures.slice(0, 10)) {
+            // Analyze the most recent transactions for partners
+            for (const sig of signatures.slice(0, limit)) {
               try {
-                const txResponse = await this.apiClient.post(rpcUrl, {
-                  jsonrpc: '2.0',
-                  id: 1,
-                  method: 'getTransaction',
-                  params: [
-                    sig.signature,
-                    { encoding: 'jsonParsed' }
-                  ]
-                });
-
-                const tx = txResponse.data?.result;
+                const tx = await this.getParsedTransaction(rpcUrl, sig.signature);
                 if (tx?.transaction?.message?.accountKeys) {
-                  for (const key of tx.transaction.message.accountKeys) {
-                    const address = typeof key === 'string' ? key : key.pubkey;
-                    if (Helpers.isValidSolanaAddress(address) && address !== walletAddress) {
-                      partners.push(address);
-                    }
-                  }
+                  observations.push({ ...this.parseCounterparties(tx, sig.signature, walletAddress), accounts: this.accountKeysOf(tx) });
                 }
               } catch (error) {
                 continue;
               }
             }
 
-            return [...new Set(partners)].slice(0, 20); // Return unique partners
+            this.emitObservations(observations);
+            return observations;
           }
         } catch (error) {
           continue;
@@ -304,6 +318,125 @@ export class WhaleDiscoveryService {
     }
   }
 
+  // Who sent the SOL in the wallet's oldest transaction; null if history is too long or it wasn't a plain transfer
+  async findFirstFunder(walletAddress: string, maxPages: number = 3): Promise<string | null> {
+    for (const rpcUrl of this.RPC_ENDPOINTS) {
+      try {
+        let before: string | undefined;
+        let oldest: string | null = null;
+
+        for (let page = 0; page < maxPages; page++) {
+          const response = await this.apiClient.post(rpcUrl, {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'getSignaturesForAddress',
+            params: [walletAddress, { limit: 1000, before }]
+          });
+
+          const signatures = response.data?.result;
+          if (!Array.isArray(signatures)) throw new Error('Invalid RPC response');
+
+          if (signatures.length > 0) {
+            oldest = signatures[signatures.length - 1].signature as string;
+            before = oldest;
+          }
+
+          // A short page means we reached the start of the wallet's history
+          if (signatures.length < 1000) {
+            if (!oldest) return null;
+            const tx = await this.getParsedTransaction(rpcUrl, oldest);
+            const funding = tx ? this.parseCounterparties(tx, oldest, walletAddress).transfers.find(transfer => transfer.to === walletAddress) : null;
+            return funding?.from || null;
+          }
+        }
+
+        return null;
+      } catch (error) {
+        continue;
+      }
+    }
+
+    return null;
+  }
+
+  // Every batch of counterparties collected, so interaction edges aren't thrown away
+  onObservations(listener: (observations: CounterpartyObservation[]) => void): void {
+    this.observationListeners.push(listener);
+  }
+
+  private emitObservations(observations: CounterpartyObservation[]): void {
+    if (observations.length === 0) return;
+
+    for (const listener of this.observationListeners) {
+      try {
+        listener(observations);
+      } catch (error) {
+        logger.error('Observation listener failed:', error);
+      }
+    }
+  }
+
+  // Same shape from Helius enhanced transactions (webhook pushes), which carry transfers but not the signer list
+  static fromEnhancedTransactions(transactions: any[]): CounterpartyObservation[] {
+    return transactions
+      .filter(tx => tx?.signature)
+      .map(tx => ({
+        signature: tx.signature,
+        wallet: tx.feePayer,
+        timestamp: tx.timestamp ?? null,
+        signers: [],
+        transfers: [
+          ...(tx.nativeTransfers || []).map((transfer: any) => ({ from: transfer.fromUserAccount, to: transfer.toUserAccount, lamports: transfer.amount })),
+          ...(tx.tokenTransfers || []).map((transfer: any) => ({ from: transfer.fromUserAccount, to: transfer.toUserAccount }))
+        ].filter(transfer => transfer.from && transfer.to)
+      }));
+  }
+
+  private async getParsedTransaction(rpcUrl: string, signature: string): Promise<any> {
+    const response = await this.apiClient.post(rpcUrl, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getTransaction',
+      params: [
+        signature,
+        { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 }
+      ]
+    });
+    return response.data?.result;
+  }
+
+  private accountKeysOf(tx: any): string[] {
+    return (tx.transaction.message.accountKeys || []).map((key: any) => typeof key === 'string' ? key : key.pubkey);
+  }
+
+  private parseCounterparties(tx: any, signature: string, walletAddress: string): CounterpartyObservation {
+    const signers = (tx.transaction?.message?.accountKeys || [])
+      .filter((key: any) => typeof key !== 'string' && key.signer)
+      .map((key: any) => key.pubkey);
+
+    // System-program SOL transfers, top level and inner
+    const instructions = [
+      ...(tx.transaction?.message?.instructions || []),
+      ...(tx.meta?.innerInstructions || []).flatMap((inner: any) => inner.instructions || [])
+    ];
+    const transfers = instructions
+      .filter((ix: any) => ix.program === 'system' && (ix.parsed?.type === 'transfer' || ix.parsed?.type === 'createAccount'))
+      .map((ix: any) => ({
+        from: ix.parsed.info.source,
+        to: ix.parsed.info.destination || ix.parsed.info.newAccount,
+        lamports: ix.parsed.info.lamports
+      }))
+      .filter((transfer: any) => transfer.from && transfer.to);
+
+    return {
+      signature,
+      wallet: walletAddress,
+      timestamp: tx.blockTime ?? null,
+      signers,
+      transfers
+    };
+  }
+
   private async scanForRichSOLWallets(): Promise<string[]> {
     // Use a systematic approach to find large SOL holders
     const richWallets: string[] = [];
@@ -1,11 +1,29 @@
+export interface TokenHolding {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  amount: number;
+  priceUsd: number | null;
+  valueUsd: number;
+  portfolioShare: number; // 0-1 of totalBalanceUsd
+}
+
 export interface WalletBalance {
   sol: number;
   usdc: number;
   totalTokensUsd: number;
   totalBalanceUsd: number;
+  holdings: TokenHolding[];
+}
+
+export type StatProvenance = 'MEASURED' | 'ESTIMATED' | 'DEFAULTED';
+
+export interface StatSource {
+  provenance: StatProvenance;
+  confidence: number; // 0-1
 }
 
-export interface WalletStats {
+export interface WalletStatValues {
   totalTransactions: number;
   successfulTrades: number;
   winRate: number;
@@ -13,6 +31,52 @@ export interface WalletStats {
   lastActiveDate: string;
   profitableTrades: number;
   totalVolume: number;
+  closedTrades: number;
+  realizedPnl: number;
+}
+
+export interface WalletStats extends WalletStatValues {
+  provenance: Record<keyof WalletStatValues, StatSource>;
+}
+
+export interface WalletSnapshot {
+  timestamp: number;
+  balance: WalletBalance;
+  stats: WalletStatValues;
+}
+
+// One wallet's snapshots at each retention tier
+export interface WalletHistory {
+  address: string;
+  raw: WalletSnapshot[];
+  hourly: WalletSnapshot[];
+  daily: WalletSnapshot[];
+}
+
+export type TradeSide = 'BUY' | 'SELL' | 'SWAP';
+
+export interface SwapTrade {
+  signature: string;
+  slot: number;
+  timestamp: number;
+  wallet: string;
+  side: TradeSide;
+  inputMint: string;
+  inputAmount: number;
+  outputMint: string;
+  outputAmount: number;
+  valueUsd: number | null;
+}
+
+export interface ClosedPosition {
+  mint: string;
+  amount: number;
+  costBasisUsd: number;
+  proceedsUsd: number;
+  realizedPnlUsd: number;
+  openedAt: number;
+  closedAt: number;
+  signature: string;
 }
 
 export interface WhaleWallet {
@@ -25,10 +89,227 @@ export interface WhaleWallet {
   enabled: boolean;
   discoveredDate: string;
   lastUpdated: string;
-  source: 'SOLSCAN' | 'DEXSCREENER' | 'BIRDEYE' | 'MANUAL';
+  source: 'SOLSCAN' | 'DEXSCREENER' | 'BIRDEYE' | 'HELIUS_FREE' | 'MANUAL';
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
   category: 'WHALE' | 'SUPER_WHALE' | 'MEGA_WHALE';
   tags: string[];
+  score?: WhaleScore;
+  riskMetrics?: RiskMetrics;
+  accountType?: AccountType;
+  labels?: WalletLabel;       // merged in for responses, never stored with tracking data
+  disabled?: WalletControl;   // present while `enabled` is false
+}
+
+// An operator's disable; outlives refreshes until enabled again or expired
+export interface WalletControl {
+  address: string;
+  reason: string;
+  disabledBy: string;
+  disabledAt: string;
+  expiresAt: string | null;
+}
+
+export type WalletControlAction = 'DISABLE' | 'ENABLE' | 'EXPIRE';
+
+export interface WalletControlAudit {
+  id: string;
+  address: string;
+  action: WalletControlAction;
+  actor: string;
+  reason: string | null;
+  expiresAt: string | null;
+  timestamp: string;
+}
+
+// Analyst-maintained; refreshes never touch it
+export interface WalletLabel {
+  address: string;
+  displayName: string | null; // replaces the generated name when set
+  notes: string | null;
+  tags: string[];             // added to the wallet's own tags
+  ownerEntity: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// WALLET is a system-owned keypair; everything else is kept out of discovery by default
+export type AccountType =
+  | 'WALLET'
+  | 'PDA'            // off-curve, so no private key can sign for it
+  | 'PROGRAM'        // executable
+  | 'PROGRAM_OWNED'  // token, stake, vault and other accounts owned by a program
+  | 'EXCHANGE'
+  | 'TREASURY'
+  | 'BRIDGE'
+  | 'INVALID'        // not a 32-byte base58 key
+  | 'UNKNOWN';       // on-curve but the account lookup failed
+
+export interface AddressClassification {
+  address: string;
+  accountType: AccountType;
+  reason: string;
+  label: string | null;
+  owner: string | null;
+  executable: boolean | null;
+  classifiedAt: string;
+}
+
+// null = not enough history to say
+export interface RiskMetrics {
+  maxDrawdownPercent: number | null;     // worst peak-to-trough fall in total balance
+  pnlVolatility: number | null;          // std dev of per-position return, %
+  sharpeRatio: number | null;            // mean per-position return / std dev
+  sortinoRatio: number | null;           // mean per-position return / downside deviation
+  longestLosingStreak: number;           // consecutive losing closes
+  avgPositionSizePercent: number | null; // avg cost basis as % of current balance
+  holdingsHhi: number;                   // 0-1 concentration (1 = a single asset)
+  closedPositions: number;
+  balancePoints: number;
+  computedAt: string;
+}
+
+export type ScoreComponentName = 'balance' | 'realizedPnl' | 'consistency' | 'recency' | 'tradeCount' | 'risk';
+
+export interface ScoreComponent {
+  name: ScoreComponentName;
+  input: number | string | null; // raw value the component was computed from
+  value: number;                 // normalized 0-1
+  weight: number;                // share of the total, weights sum to 1
+  contribution: number;          // points added to the 0-100 total
+}
+
+export interface WhaleScore {
+  total: number; // 0-100
+  components: ScoreComponent[];
+  computedAt: string;
+}
+
+export type SignalDirection = 'BUY' | 'SELL';
+
+// One entity: a single wallet, or every wallet of a cluster that traded
+export interface SignalParticipant {
+  address: string;
+  clusterId?: string | null;
+  addresses?: string[];
+  category: WhaleWallet['category'] | null;
+  weight: number;
+  sizeUsd: number;
+  trades: number;
+  firstTradeAt: number; // unix seconds
+  lastTradeAt: number;
+}
+
+export interface ConsensusSignal {
+  id: string;
+  mint: string;
+  symbol: string;
+  direction: SignalDirection;
+  participants: SignalParticipant[];
+  walletCount: number;
+  weightedCount: number;
+  totalSizeUsd: number;
+  strength: number; // 0-100
+  firstTradeAt: number; // unix seconds
+  lastTradeAt: number;
+  detectedAt: string;
+  updatedAt: string;
+}
+
+// What one on-chain transaction says about who a wallet deals with
+export interface CounterpartyObservation {
+  signature: string;
+  wallet: string;
+  timestamp: number | null; // unix seconds
+  signers: string[];
+  transfers: Array<{ from: string; to: string; lamports?: number }>;
+}
+
+// Directed: `from` sent to (or co-signed with) `to`
+export interface GraphEdge {
+  from: string;
+  to: string;
+  txCount: number;
+  volumeSol: number;      // native SOL moved along the edge; token transfers add 0
+  lastSeen: number | null; // unix seconds
+}
+
+export type ClusterLinkReason = 'SHARED_FUNDER' | 'DIRECT_TRANSFERS' | 'CO_SIGNER';
+
+export interface ClusterLink {
+  from: string;
+  to: string;
+  reason: ClusterLinkReason;
+  count: number;       // transfers / co-signed transactions (1 for a shared funder)
+  funder?: string;
+}
+
+export interface WalletCluster {
+  id: string;
+  members: string[];
+  links: ClusterLink[];
+  category: WhaleWallet['category'];
+  combinedBalance: WalletBalance;
+  combinedStats: WalletStatValues;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertEventType = 'CATEGORY_CHANGED' | 'BALANCE_CHANGED' | 'TRADE' | 'WHALE_DISCOVERED' | 'WALLET_DROPPED';
+
+export interface AlertEvent {
+  id: string;
+  type: AlertEventType;
+  address: string;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+// An event type is only delivered when its rule is set; `wallets` narrows every rule
+export interface SubscriptionFilters {
+  wallets?: string[];
+  categoryChange?: boolean;
+  balanceChangePercent?: number; // absolute move, e.g. 20 = ±20%
+  tradeAboveUsd?: number;
+  newWhale?: boolean;
+  walletDropped?: boolean;
+}
+
+export interface Subscription {
+  id: string;
+  url: string;
+  secret: string;
+  description?: string;
+  filters: SubscriptionFilters;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DeliveryStatus = 'PENDING' | 'DELIVERED' | 'DEAD';
+
+export interface DeliveryRecord {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: AlertEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null; // ms
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// DISCOVERY/TRACKING/API draw on their own budgets; BUFFER is held back for estimation error
+export type CreditCategory = 'DISCOVERY' | 'TRACKING' | 'API' | 'BUFFER';
+
+export interface CreditLedgerEntry {
+  category: CreditCategory;
+  endpoint: string;
+  wallet: string | null;
+  credits: number;
+  timestamp: string;
 }
 
 export interface FetchResult {
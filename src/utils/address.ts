@@ -0,0 +1,89 @@
+// src/utils/address.ts - BASE58 DECODING AND ED25519 CURVE CHECK FOR SOLANA ADDRESSES
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const ALPHABET_MAP = new Map(Array.from(ALPHABET).map((char, index) => [char, index]));
+
+// Curve25519 field and the twisted Edwards constant d = -121665/121666
+const P = 2n ** 255n - 19n;
+const D = 37095705934669439343138083508754565189542113879843219016388785533085940283555n;
+const SQRT_M1 = 19681161376707505956807079304988542015446066515923890162744021073123829784752n;
+
+export class SolanaAddress {
+  // Public keys and program-derived addresses are both exactly 32 bytes
+  static decode(address: string): Uint8Array | null {
+    if (typeof address !== 'string' || address.length < 32 || address.length > 44) return null;
+
+    const bytes: number[] = [];
+    for (const char of address) {
+      let carry = ALPHABET_MAP.get(char);
+      if (carry === undefined) return null;
+
+      for (let i = 0; i < bytes.length; i++) {
+        carry += bytes[i] * 58;
+        bytes[i] = carry & 0xff;
+        carry >>= 8;
+      }
+      while (carry > 0) {
+        bytes.push(carry & 0xff);
+        carry >>= 8;
+      }
+    }
+
+    // Each leading '1' is a leading zero byte
+    for (let i = 0; i < address.length && address[i] === '1'; i++) {
+      bytes.push(0);
+    }
+
+    return bytes.length === 32 ? Uint8Array.from(bytes.reverse()) : null;
+  }
+
+  // A keypair's public key decodes to a point on ed25519; PDAs are derived to land off it
+  static isOnCurve(bytes: Uint8Array): boolean {
+    if (bytes.length !== 32) return false;
+
+    let y = 0n;
+    for (let i = 31; i >= 0; i--) {
+      y = (y << 8n) | BigInt(i === 31 ? bytes[i] & 0x7f : bytes[i]);
+    }
+    const xIsOdd = (bytes[31] & 0x80) !== 0;
+    if (y >= P) return false;
+
+    // x^2 = (y^2 - 1) / (d*y^2 + 1); the point exists only if that has a square root
+    const y2 = SolanaAddress.mod(y * y);
+    const u = SolanaAddress.mod(y2 - 1n);
+    const v = SolanaAddress.mod(D * y2 + 1n);
+
+    const v3 = SolanaAddress.mod(v * v * v);
+    const v7 = SolanaAddress.mod(v3 * v3 * v);
+    let x = SolanaAddress.mod(u * v3 * SolanaAddress.pow(SolanaAddress.mod(u * v7), (P - 5n) / 8n));
+
+    const vx2 = SolanaAddress.mod(v * x * x);
+    if (vx2 === u) {
+      // x is already a root
+    } else if (vx2 === SolanaAddress.mod(-u)) {
+      x = SolanaAddress.mod(x * SQRT_M1);
+    } else {
+      return false;
+    }
+
+    return !(x === 0n && xIsOdd);
+  }
+
+  private static mod(value: bigint): bigint {
+    const result = value % P;
+    return result >= 0n ? result : result + P;
+  }
+
+  private static pow(base: bigint, exponent: bigint): bigint {
+    let result = 1n;
+    let b = SolanaAddress.mod(base);
+    let e = exponent;
+
+    while (e > 0n) {
+      if (e & 1n) result = SolanaAddress.mod(result * b);
+      b = SolanaAddress.mod(b * b);
+      e >>= 1n;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,34 @@
+// src/utils/atomic-file.ts - CRASH-SAFE FILE REPLACEMENT
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Readers see either the old file or the new one, never a half-written mix
+export const writeFileAtomic = (file: string, data: string): void => {
+  const temp = path.join(path.dirname(file), `.${path.basename(file)}.${process.pid}.tmp`);
+
+  try {
+    const fd = fs.openSync(temp, 'w');
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(temp, file);
+  } catch (error) {
+    fs.rmSync(temp, { force: true });
+    throw error;
+  }
+
+  // Persist the rename itself; not every platform can open a directory
+  try {
+    const dirFd = fs.openSync(path.dirname(file), 'r');
+    try {
+      fs.fsyncSync(dirFd);
+    } finally {
+      fs.closeSync(dirFd);
+    }
+  } catch (error) {
+    // best effort
+  }
+};
@@ -0,0 +1,269 @@
+// src/utils/credit-ledger.ts - PERSISTENT HELIUS CREDIT LEDGER WITH CATEGORY BUDGETS
+import { CreditCategory, CreditLedgerEntry } from '../types/whale.types';
+import { CREDIT_BUDGET, CREDIT_CATEGORIES, CreditBudgetConfig } from '../config/credit-budget.config';
+import { HELIUS_METHOD_COSTS, HeliusMethod } from '../config/helius-costs.config';
+import { StorageBackend } from './storage-backend';
+import { logger } from './logger';
+
+export type LedgerPeriod = 'day' | 'month' | 'all';
+export type LedgerGroupBy = 'category' | 'endpoint' | 'wallet' | 'day';
+
+export const LEDGER_PERIODS: LedgerPeriod[] = ['day', 'month', 'all'];
+export const LEDGER_GROUP_BY: LedgerGroupBy[] = ['category', 'endpoint', 'wallet', 'day'];
+
+export interface CreditWindow {
+  used: number;
+  budget: number;
+  remaining: number;
+}
+
+export interface CreditLedgerUsage {
+  monthly: CreditWindow & { resetDate: string };
+  daily: CreditWindow & { resetDate: string };
+  categories: Record<CreditCategory, { share: number; monthly: CreditWindow; daily: CreditWindow }>;
+}
+
+export interface LedgerGroup {
+  key: string;
+  credits: number;
+  operations: number;
+}
+
+export interface LedgerSummary {
+  period: LedgerPeriod;
+  from: string | null;
+  groupBy: LedgerGroupBy;
+  totalCredits: number;
+  operations: number;
+  groups: LedgerGroup[];
+}
+
+export interface BurnForecast {
+  burnRatePerDay: number;
+  projectedMonthlyUsage: number;
+  budget: number;
+  exhaustionDate: string | null; // null while nothing is being spent
+  exhaustsBeforeReset: boolean;
+}
+
+export interface CreditForecast extends BurnForecast {
+  windowDays: number; // history the burn rate was measured over
+  resetDate: string;
+  categories: Record<CreditCategory, BurnForecast>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyTotals = (): Record<CreditCategory, number> => ({ DISCOVERY: 0, TRACKING: 0, API: 0, BUFFER: 0 });
+
+export class CreditLedger {
+  private entries: CreditLedgerEntry[] = [];
+
+  // Running totals for the current UTC day and month, rebuilt from the entries when either rolls over
+  private dayStart = 0;
+  private monthStart = 0;
+  private dailyTotals = emptyTotals();
+  private monthlyTotals = emptyTotals();
+
+  constructor(private backend: StorageBackend, private config: CreditBudgetConfig = CREDIT_BUDGET) {
+    this.load();
+    this.roll();
+
+    const shareTotal = CREDIT_CATEGORIES.reduce((sum, category) => sum + config.shares[category], 0);
+    if (Math.abs(shareTotal - 1) > 0.001) {
+      logger.warn(`⚠️ Credit budget shares add up to ${(shareTotal * 100).toFixed(0)}%, not 100%`);
+    }
+  }
+
+  // Every entry is appended as it happens, so a restart picks up exactly where the windows were
+  record(category: CreditCategory, endpoint: string, wallet: string | null, credits: number): CreditLedgerEntry {
+    this.roll();
+
+    const entry: CreditLedgerEntry = { category, endpoint, wallet, credits, timestamp: new Date().toISOString() };
+    this.entries.push(entry);
+    this.dailyTotals[category] += credits;
+    this.monthlyTotals[category] += credits;
+
+    try {
+      this.backend.appendLedger(entry);
+    } catch (error) {
+      logger.error('❌ Error appending credit ledger entry:', error);
+    }
+
+    return entry;
+  }
+
+  // Every Helius call goes through here: charged from the cost table, then sent. Failed calls are billed too
+  async spend<T>(category: CreditCategory, method: HeliusMethod, wallet: string | null, request: () => Promise<T>): Promise<T> {
+    const cost = HELIUS_METHOD_COSTS[method];
+    this.record(category, cost.endpoint, wallet, cost.credits);
+    return request();
+  }
+
+  // What the category may still spend today: its own daily and monthly budgets, capped by the plan's totals
+  remaining(category: CreditCategory): number {
+    const usage = this.getUsage();
+    const own = usage.categories[category];
+    return Math.max(0, Math.min(own.daily.remaining, own.monthly.remaining, usage.daily.remaining, usage.monthly.remaining));
+  }
+
+  canSpend(category: CreditCategory, credits: number): boolean {
+    return this.remaining(category) >= credits;
+  }
+
+  getUsage(): CreditLedgerUsage {
+    this.roll();
+
+    const monthlyUsed = CREDIT_CATEGORIES.reduce((sum, category) => sum + this.monthlyTotals[category], 0);
+    const dailyUsed = CREDIT_CATEGORIES.reduce((sum, category) => sum + this.dailyTotals[category], 0);
+    const nextMonth = new Date(this.monthStart);
+    nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+
+    const categories = {} as CreditLedgerUsage['categories'];
+    for (const category of CREDIT_CATEGORIES) {
+      const share = this.config.shares[category];
+      categories[category] = {
+        share,
+        monthly: CreditLedger.window(this.monthlyTotals[category], Math.floor(this.config.monthlyCredits * share)),
+        daily: CreditLedger.window(this.dailyTotals[category], Math.floor(this.config.dailyCredits * share))
+      };
+    }
+
+    return {
+      monthly: { ...CreditLedger.window(monthlyUsed, this.config.monthlyCredits), resetDate: nextMonth.toISOString() },
+      daily: { ...CreditLedger.window(dailyUsed, this.config.dailyCredits), resetDate: new Date(this.dayStart + DAY_MS).toISOString() },
+      categories
+    };
+  }
+
+  // Projects the month from the burn rate over the last `windowDays`; less history than a day counts as a day
+  forecast(windowDays: number = this.config.forecastWindowDays, now: number = Date.now()): CreditForecast {
+    const usage = this.getUsage();
+    const resetAt = new Date(usage.monthly.resetDate).getTime();
+
+    const firstEntry = this.entries.length > 0 ? new Date(this.entries[0].timestamp).getTime() : now;
+    const observedFrom = Math.max(now - windowDays * DAY_MS, firstEntry);
+    const observedDays = Math.max(1, (now - observedFrom) / DAY_MS);
+
+    const burned = emptyTotals();
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (new Date(entry.timestamp).getTime() < observedFrom) break;
+      burned[entry.category] += entry.credits;
+    }
+
+    const project = (burnedCredits: number, used: number, budget: number): BurnForecast => {
+      const burnRatePerDay = burnedCredits / observedDays;
+      const exhaustionAt = burnRatePerDay > 0 ? now + (Math.max(0, budget - used) / burnRatePerDay) * DAY_MS : null;
+      return {
+        burnRatePerDay: Math.round(burnRatePerDay),
+        projectedMonthlyUsage: Math.round(used + burnRatePerDay * Math.max(0, resetAt - now) / DAY_MS),
+        budget,
+        exhaustionDate: exhaustionAt === null ? null : new Date(exhaustionAt).toISOString(),
+        exhaustsBeforeReset: exhaustionAt !== null && exhaustionAt < resetAt
+      };
+    };
+
+    const categories = {} as CreditForecast['categories'];
+    for (const category of CREDIT_CATEGORIES) {
+      const { monthly } = usage.categories[category];
+      categories[category] = project(burned[category], monthly.used, monthly.budget);
+    }
+
+    const totalBurned = CREDIT_CATEGORIES.reduce((sum, category) => sum + burned[category], 0);
+
+    return {
+      ...project(totalBurned, usage.monthly.used, usage.monthly.budget),
+      windowDays: Math.round(observedDays * 10) / 10,
+      resetDate: usage.monthly.resetDate,
+      categories
+    };
+  }
+
+  summarize(groupBy: LedgerGroupBy = 'category', period: LedgerPeriod = 'month', category?: CreditCategory): LedgerSummary {
+    this.roll();
+
+    const from = period === 'day' ? this.dayStart : period === 'month' ? this.monthStart : null;
+    const groups = new Map<string, LedgerGroup>();
+    let totalCredits = 0;
+    let operations = 0;
+
+    for (const entry of this.entries) {
+      if (from !== null && new Date(entry.timestamp).getTime() < from) continue;
+      if (category && entry.category !== category) continue;
+
+      const key = groupBy === 'day' ? entry.timestamp.slice(0, 10) : entry[groupBy] || 'none';
+      const group = groups.get(key) || { key, credits: 0, operations: 0 };
+      group.credits += entry.credits;
+      group.operations++;
+      groups.set(key, group);
+
+      totalCredits += entry.credits;
+      operations++;
+    }
+
+    return {
+      period,
+      from: from === null ? null : new Date(from).toISOString(),
+      groupBy,
+      totalCredits,
+      operations,
+      groups: Array.from(groups.values()).sort((a, b) => groupBy === 'day' ? a.key.localeCompare(b.key) : b.credits - a.credits)
+    };
+  }
+
+  private static window(used: number, budget: number): CreditWindow {
+    return { used, budget, remaining: Math.max(0, budget - used) };
+  }
+
+  // Moves the windows to the current UTC day/month; a new month also prunes what is past retention
+  private roll(now: Date = new Date()): void {
+    const dayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    if (dayStart === this.dayStart && monthStart === this.monthStart) return;
+
+    const newMonth = monthStart !== this.monthStart;
+    this.dayStart = dayStart;
+    this.monthStart = monthStart;
+    this.dailyTotals = emptyTotals();
+    this.monthlyTotals = emptyTotals();
+
+    if (newMonth) {
+      this.prune();
+    }
+
+    for (const entry of this.entries) {
+      const time = new Date(entry.timestamp).getTime();
+      if (time >= monthStart) this.monthlyTotals[entry.category] += entry.credits;
+      if (time >= dayStart) this.dailyTotals[entry.category] += entry.credits;
+    }
+  }
+
+  // The current month is always kept, whatever the retention
+  private prune(): void {
+    const cutoff = Math.min(this.monthStart, Date.now() - this.config.retentionDays * DAY_MS);
+    const kept = this.entries.filter(entry => new Date(entry.timestamp).getTime() >= cutoff);
+    if (kept.length === this.entries.length) return;
+
+    logger.info(`🧹 Pruned ${this.entries.length - kept.length} credit ledger entries`);
+    this.entries = kept;
+
+    try {
+      this.backend.pruneLedger(new Date(cutoff).toISOString());
+    } catch (error) {
+      logger.error('❌ Error rewriting credit ledger:', error);
+    }
+  }
+
+  private load(): void {
+    try {
+      const entries = this.backend.loadLedger();
+      this.entries = entries.filter(entry => CREDIT_CATEGORIES.includes(entry.category) && typeof entry.credits === 'number');
+
+      const skipped = entries.length - this.entries.length;
+      logger.info(`📥 Loaded ${this.entries.length} credit ledger entries${skipped > 0 ? ` (${skipped} unreadable skipped)` : ''}`);
+    } catch (error) {
+      logger.error('❌ Error loading credit ledger:', error);
+    }
+  }
+}
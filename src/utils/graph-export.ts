@@ -0,0 +1,108 @@
+// src/utils/graph-export.ts - GRAPHML / GEXF SERIALIZATION FOR GEPHI AND FRIENDS
+import { GraphEdge } from '../types/whale.types';
+
+export interface ExportNode {
+  address: string;
+  depth: number;
+  tracked: boolean;
+  displayName: string | null;
+  category: string | null;
+  balanceUsd: number | null;
+  clusterId: string | null;
+}
+
+type AttributeType = 'int' | 'long' | 'double' | 'boolean' | 'string';
+
+const NODE_ATTRIBUTES: Array<[keyof ExportNode, AttributeType]> = [
+  ['depth', 'int'],
+  ['tracked', 'boolean'],
+  ['displayName', 'string'],
+  ['category', 'string'],
+  ['balanceUsd', 'double'],
+  ['clusterId', 'string']
+];
+
+const EDGE_ATTRIBUTES: Array<[keyof GraphEdge, AttributeType]> = [
+  ['txCount', 'int'],
+  ['volumeSol', 'double'],
+  ['lastSeen', 'long']
+];
+
+export class GraphExport {
+  static toGraphML(nodes: ExportNode[], edges: GraphEdge[]): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      ...NODE_ATTRIBUTES.map(([name, type]) => `  <key id="${name}" for="node" attr.name="${name}" attr.type="${type}"/>`),
+      ...EDGE_ATTRIBUTES.map(([name, type]) => `  <key id="${name}" for="edge" attr.name="${name}" attr.type="${type}"/>`),
+      '  <graph id="whales" edgedefault="directed">'
+    ];
+
+    for (const node of nodes) {
+      lines.push(`    <node id="${GraphExport.escape(node.address)}">`);
+      for (const [name] of NODE_ATTRIBUTES) {
+        if (node[name] !== null) lines.push(`      <data key="${name}">${GraphExport.escape(String(node[name]))}</data>`);
+      }
+      lines.push('    </node>');
+    }
+
+    edges.forEach((edge, index) => {
+      lines.push(`    <edge id="e${index}" source="${GraphExport.escape(edge.from)}" target="${GraphExport.escape(edge.to)}">`);
+      for (const [name] of EDGE_ATTRIBUTES) {
+        if (edge[name] !== null) lines.push(`      <data key="${name}">${GraphExport.escape(String(edge[name]))}</data>`);
+      }
+      lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n');
+  }
+
+  static toGexf(nodes: ExportNode[], edges: GraphEdge[]): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+      `  <meta lastmodifieddate="${new Date().toISOString().substring(0, 10)}"><creator>whale-fetcher-server</creator></meta>`,
+      '  <graph mode="static" defaultedgetype="directed">',
+      '    <attributes class="node">',
+      ...NODE_ATTRIBUTES.map(([name, type], index) => `      <attribute id="${index}" title="${name}" type="${type}"/>`),
+      '    </attributes>',
+      '    <attributes class="edge">',
+      ...EDGE_ATTRIBUTES.map(([name, type], index) => `      <attribute id="${index}" title="${name}" type="${type}"/>`),
+      '    </attributes>',
+      '    <nodes>'
+    ];
+
+    for (const node of nodes) {
+      lines.push(`      <node id="${GraphExport.escape(node.address)}" label="${GraphExport.escape(node.displayName || node.address.substring(0, 8))}">`);
+      lines.push('        <attvalues>');
+      NODE_ATTRIBUTES.forEach(([name], index) => {
+        if (node[name] !== null) lines.push(`          <attvalue for="${index}" value="${GraphExport.escape(String(node[name]))}"/>`);
+      });
+      lines.push('        </attvalues>', '      </node>');
+    }
+
+    lines.push('    </nodes>', '    <edges>');
+
+    edges.forEach((edge, index) => {
+      lines.push(`      <edge id="${index}" source="${GraphExport.escape(edge.from)}" target="${GraphExport.escape(edge.to)}" weight="${edge.txCount}">`);
+      lines.push('        <attvalues>');
+      EDGE_ATTRIBUTES.forEach(([name], attributeIndex) => {
+        if (edge[name] !== null) lines.push(`          <attvalue for="${attributeIndex}" value="${GraphExport.escape(String(edge[name]))}"/>`);
+      });
+      lines.push('        </attvalues>', '      </edge>');
+    });
+
+    lines.push('    </edges>', '  </graph>', '</gexf>');
+    return lines.join('\n');
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -1,3 +1,5 @@
+import { SolanaAddress } from './address';
+
 export class Helpers {
   static formatNumber(num: number): string {
     if (num >= 1000000000) {
@@ -16,8 +18,9 @@ export class Helpers {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  // Must decode to a 32-byte key; the character check alone passes strings that don't
   static isValidSolanaAddress(address: string): boolean {
-    return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
+    return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) && SolanaAddress.decode(address) !== null;
   }
 
   static sanitizeWalletName(address: string): string {
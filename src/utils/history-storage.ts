@@ -0,0 +1,129 @@
+// src/utils/history-storage.ts - PER-WALLET BALANCE/STATS TIME SERIES
+import { WhaleWallet, WalletSnapshot, WalletHistory } from '../types/whale.types';
+import { StorageBackend } from './storage-backend';
+import { logger } from './logger';
+
+export type HistoryResolution = 'raw' | 'hourly' | 'daily';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const BUCKET_MS: Record<HistoryResolution, number> = {
+  raw: 0,
+  hourly: HOUR_MS,
+  daily: DAY_MS
+};
+
+export class WalletHistoryStorage {
+  // Raw points roll into hourly, hourly into daily, daily points are dropped after the last window
+  private retention = {
+    raw: parseInt(process.env.HISTORY_RAW_RETENTION_HOURS || '48') * HOUR_MS,
+    hourly: parseInt(process.env.HISTORY_HOURLY_RETENTION_DAYS || '30') * DAY_MS,
+    daily: parseInt(process.env.HISTORY_DAILY_RETENTION_DAYS || '365') * DAY_MS
+  };
+
+  constructor(private backend: StorageBackend) {}
+
+  recordSnapshots(whales: WhaleWallet[], timestamp: number = Date.now()): void {
+    let recorded = 0;
+
+    for (const whale of whales) {
+      try {
+        const history = this.load(whale.address);
+        history.raw.push(this.toSnapshot(whale, timestamp));
+        this.compact(history, timestamp);
+        this.backend.saveHistory(history);
+        recorded++;
+      } catch (error) {
+        logger.error(`❌ Error recording history for ${whale.address}:`, error);
+      }
+    }
+
+    logger.info(`📈 Recorded ${recorded} wallet snapshots`);
+  }
+
+  getSeries(address: string, from: number, to: number, resolution: HistoryResolution): WalletSnapshot[] {
+    const history = this.load(address);
+    const inRange = (snapshot: WalletSnapshot) => snapshot.timestamp >= from && snapshot.timestamp <= to;
+
+    if (resolution === 'raw') {
+      return history.raw.filter(inRange);
+    }
+
+    // Finer tiers cover the recent past; bucket them to the requested resolution
+    const sources = resolution === 'hourly'
+      ? [history.hourly, history.raw]
+      : [history.daily, history.hourly, history.raw];
+
+    const points = sources.flat().filter(inRange);
+    return this.downsample(points, BUCKET_MS[resolution]);
+  }
+
+  // Pick the coarsest tier that still gives a useful number of points for the range
+  static defaultResolution(from: number, to: number): HistoryResolution {
+    const span = to - from;
+    if (span <= 2 * DAY_MS) return 'raw';
+    if (span <= 30 * DAY_MS) return 'hourly';
+    return 'daily';
+  }
+
+  getStats(): any {
+    return {
+      backend: this.backend.name,
+      walletsWithHistory: this.backend.listHistoryWallets().length,
+      retention: this.retention
+    };
+  }
+
+  private compact(history: WalletHistory, now: number): void {
+    const rawCutoff = now - this.retention.raw;
+    const hourlyCutoff = now - this.retention.hourly;
+    const dailyCutoff = now - this.retention.daily;
+
+    const expiredRaw = history.raw.filter(s => s.timestamp < rawCutoff);
+    if (expiredRaw.length > 0) {
+      history.raw = history.raw.filter(s => s.timestamp >= rawCutoff);
+      history.hourly = this.downsample([...history.hourly, ...expiredRaw], HOUR_MS);
+    }
+
+    const expiredHourly = history.hourly.filter(s => s.timestamp < hourlyCutoff);
+    if (expiredHourly.length > 0) {
+      history.hourly = history.hourly.filter(s => s.timestamp >= hourlyCutoff);
+      history.daily = this.downsample([...history.daily, ...expiredHourly], DAY_MS);
+    }
+
+    history.daily = history.daily.filter(s => s.timestamp >= dailyCutoff);
+  }
+
+  // Keep the last snapshot of each bucket (closing value), stamped at the bucket start
+  private downsample(points: WalletSnapshot[], bucketMs: number): WalletSnapshot[] {
+    const buckets = new Map<number, WalletSnapshot>();
+    const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const point of sorted) {
+      const bucket = Math.floor(point.timestamp / bucketMs) * bucketMs;
+      buckets.set(bucket, { ...point, timestamp: bucket });
+    }
+
+    return Array.from(buckets.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private toSnapshot(whale: WhaleWallet, timestamp: number): WalletSnapshot {
+    const { provenance, ...stats } = whale.stats;
+    return {
+      timestamp,
+      balance: { ...whale.balance },
+      stats
+    };
+  }
+
+  private load(address: string): WalletHistory {
+    try {
+      return this.backend.loadHistory(address);
+    } catch (error) {
+      logger.error(`❌ Error loading history for ${address}:`, error);
+    }
+
+    return { address, raw: [], hourly: [], daily: [] };
+  }
+}
@@ -0,0 +1,69 @@
+// src/utils/holdings.ts - PRICED TOKEN HOLDINGS
+import { TokenHolding, WalletBalance } from '../types/whale.types';
+import { KNOWN_TOKENS, SOL_MINT, USDC_MINT } from '../config/tokens.config';
+
+export interface RawTokenBalance {
+  mint: string;
+  amount: number; // UI amount (already divided by decimals)
+  decimals: number;
+}
+
+export class Holdings {
+  // Build a WalletBalance where every USD figure comes from a real price; unpriced tokens count as $0
+  static buildBalance(solBalance: number, tokens: RawTokenBalance[], prices: Map<string, number>): WalletBalance {
+    const amounts = new Map<string, RawTokenBalance>();
+
+    for (const token of tokens) {
+      if (!token.mint || !(token.amount > 0)) continue;
+
+      const existing = amounts.get(token.mint);
+      amounts.set(token.mint, existing
+        ? { ...existing, amount: existing.amount + token.amount }
+        : { ...token });
+    }
+
+    // Native SOL is reported alongside wrapped SOL as one position
+    if (solBalance > 0) {
+      const wrapped = amounts.get(SOL_MINT);
+      amounts.set(SOL_MINT, {
+        mint: SOL_MINT,
+        amount: solBalance + (wrapped?.amount || 0),
+        decimals: 9
+      });
+    }
+
+    const holdings: TokenHolding[] = Array.from(amounts.values()).map(token => {
+      const price = prices.get(token.mint);
+      return {
+        mint: token.mint,
+        symbol: Holdings.symbolFor(token.mint),
+        decimals: token.decimals,
+        amount: token.amount,
+        priceUsd: price ?? null,
+        valueUsd: price !== undefined ? token.amount * price : 0,
+        portfolioShare: 0
+      };
+    });
+
+    const totalBalanceUsd = holdings.reduce((sum, holding) => sum + holding.valueUsd, 0);
+    for (const holding of holdings) {
+      holding.portfolioShare = totalBalanceUsd > 0 ? holding.valueUsd / totalBalanceUsd : 0;
+    }
+    holdings.sort((a, b) => b.valueUsd - a.valueUsd);
+
+    const solHolding = holdings.find(holding => holding.mint === SOL_MINT);
+    const usdcHolding = holdings.find(holding => holding.mint === USDC_MINT);
+
+    return {
+      sol: solBalance,
+      usdc: usdcHolding?.amount || 0,
+      totalTokensUsd: totalBalanceUsd - (solHolding?.valueUsd || 0) - (usdcHolding?.valueUsd || 0),
+      totalBalanceUsd,
+      holdings
+    };
+  }
+
+  static symbolFor(mint: string): string {
+    return KNOWN_TOKENS[mint]?.symbol || `${mint.substring(0, 4)}...${mint.substring(mint.length - 4)}`;
+  }
+}
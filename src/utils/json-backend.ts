@@ -0,0 +1,181 @@
+// src/utils/json-backend.ts - FILE-PER-COLLECTION JSON PERSISTENCE
+import * as fs from 'fs';
+import * as path from 'path';
+import { WhaleWallet, WalletLabel, WalletHistory, SwapTrade, CreditLedgerEntry } from '../types/whale.types';
+import { StorageBackend } from './storage-backend';
+import { writeFileAtomic } from './atomic-file';
+import { logger } from './logger';
+
+const tradeKey = (trade: Pick<SwapTrade, 'signature' | 'wallet'>): string => `${trade.signature}:${trade.wallet}`;
+
+export class JsonStorageBackend implements StorageBackend {
+  readonly name = 'json' as const;
+
+  private whalesFile: string;
+  private labelsFile: string;
+  private historyDir: string;
+  private tradesFile: string;
+  private ledgerFile: string;
+
+  // Collections written as a whole file are mirrored here so single-record writes don't re-read it
+  private labels: Map<string, WalletLabel> | null = null;
+  private trades: SwapTrade[] | null = null;
+
+  constructor(private dataDir: string) {
+    this.whalesFile = path.join(dataDir, 'whales.json');
+    this.labelsFile = path.join(dataDir, 'labels.json');
+    this.historyDir = path.join(dataDir, 'history');
+    this.tradesFile = path.join(dataDir, 'trades.json');
+    this.ledgerFile = path.join(dataDir, 'credit-ledger.ndjson');
+
+    for (const dir of [dataDir, this.historyDir]) {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+        logger.info(`📁 Created ${dir}`);
+      }
+    }
+  }
+
+  loadWhales(): WhaleWallet[] {
+    if (!fs.existsSync(this.whalesFile)) return [];
+
+    const parsed = JSON.parse(fs.readFileSync(this.whalesFile, 'utf8'));
+    return parsed.whales || parsed;
+  }
+
+  saveWhales(whales: WhaleWallet[]): void {
+    writeFileAtomic(this.whalesFile, JSON.stringify({
+      lastUpdated: new Date().toISOString(),
+      totalWhales: whales.length,
+      whales
+    }, null, 2));
+  }
+
+  loadLabels(): WalletLabel[] {
+    return Array.from(this.labelMap().values());
+  }
+
+  saveLabel(label: WalletLabel): void {
+    this.labelMap().set(label.address, label);
+    this.writeLabels();
+  }
+
+  deleteLabel(address: string): void {
+    if (this.labelMap().delete(address)) {
+      this.writeLabels();
+    }
+  }
+
+  loadHistory(address: string): WalletHistory {
+    const file = this.historyFile(address);
+    if (!fs.existsSync(file)) {
+      return { address, raw: [], hourly: [], daily: [] };
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  saveHistory(history: WalletHistory): void {
+    writeFileAtomic(this.historyFile(history.address), JSON.stringify(history));
+  }
+
+  listHistoryWallets(): string[] {
+    return fs.readdirSync(this.historyDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+  }
+
+  loadTrades(): SwapTrade[] {
+    if (!this.trades) {
+      this.trades = fs.existsSync(this.tradesFile)
+        ? JSON.parse(fs.readFileSync(this.tradesFile, 'utf8')).trades || []
+        : [];
+    }
+    return [...(this.trades as SwapTrade[])];
+  }
+
+  updateTrades(added: SwapTrade[], removed: SwapTrade[]): void {
+    const removedKeys = new Set(removed.map(tradeKey));
+    const trades = this.loadTrades().filter(trade => !removedKeys.has(tradeKey(trade)));
+    trades.push(...added);
+    this.trades = trades;
+
+    writeFileAtomic(this.tradesFile, JSON.stringify({
+      lastUpdated: new Date().toISOString(),
+      totalTrades: trades.length,
+      trades
+    }));
+  }
+
+  loadLedger(): CreditLedgerEntry[] {
+    if (!fs.existsSync(this.ledgerFile)) return [];
+
+    const content = fs.readFileSync(this.ledgerFile, 'utf8');
+    const entries: CreditLedgerEntry[] = [];
+    let skipped = 0;
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        skipped++; // a line cut short by a crash mid-append
+      }
+    }
+
+    // Start the next entry on its own line rather than gluing it to a torn one
+    if (content.length > 0 && !content.endsWith('\n')) {
+      fs.appendFileSync(this.ledgerFile, '\n');
+    }
+
+    if (skipped > 0) {
+      logger.warn(`⚠️ Skipped ${skipped} unreadable credit ledger lines`);
+    }
+
+    return entries;
+  }
+
+  appendLedger(entry: CreditLedgerEntry): void {
+    fs.appendFileSync(this.ledgerFile, JSON.stringify(entry) + '\n');
+  }
+
+  pruneLedger(before: string): void {
+    const kept = this.loadLedger().filter(entry => entry.timestamp >= before);
+    writeFileAtomic(this.ledgerFile, kept.map(entry => JSON.stringify(entry)).join('\n') + (kept.length > 0 ? '\n' : ''));
+  }
+
+  getStats(): any {
+    return {
+      backend: this.name,
+      dataDirectory: this.dataDir,
+      files: {
+        whales: { exists: fs.existsSync(this.whalesFile) },
+        labels: { exists: fs.existsSync(this.labelsFile) },
+        trades: { exists: fs.existsSync(this.tradesFile) },
+        ledger: { exists: fs.existsSync(this.ledgerFile) }
+      },
+      walletsWithHistory: this.listHistoryWallets().length
+    };
+  }
+
+  private labelMap(): Map<string, WalletLabel> {
+    if (!this.labels) {
+      this.labels = new Map();
+      if (fs.existsSync(this.labelsFile)) {
+        const parsed = JSON.parse(fs.readFileSync(this.labelsFile, 'utf8'));
+        (parsed.labels || []).forEach((label: WalletLabel) => this.labels!.set(label.address, label));
+      }
+    }
+    return this.labels;
+  }
+
+  private writeLabels(): void {
+    writeFileAtomic(this.labelsFile, JSON.stringify({
+      lastUpdated: new Date().toISOString(),
+      labels: Array.from(this.labelMap().values())
+    }, null, 2));
+  }
+
+  private historyFile(address: string): string {
+    return path.join(this.historyDir, `${address}.json`);
+  }
+}
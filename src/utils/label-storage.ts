@@ -0,0 +1,132 @@
+// src/utils/label-storage.ts - ANALYST NAMES, NOTES AND TAGS PER WALLET
+import { WalletLabel, WhaleWallet } from '../types/whale.types';
+import { StorageBackend } from './storage-backend';
+import { logger } from './logger';
+
+export type WalletLabelPatch = Partial<Pick<WalletLabel, 'displayName' | 'notes' | 'tags' | 'ownerEntity'>>;
+
+const TEXT_LIMITS: Record<'displayName' | 'notes' | 'ownerEntity', number> = {
+  displayName: 100,
+  notes: 5000,
+  ownerEntity: 100
+};
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+export class WalletLabelStorage {
+  private labels = new Map<string, WalletLabel>();
+
+  constructor(private backend: StorageBackend) {
+    this.load();
+  }
+
+  // Returns a message describing the first problem, or null when the patch is usable
+  static validatePatch(patch: any): string | null {
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      return 'Body must be an object';
+    }
+
+    const fields = ['displayName', 'notes', 'tags', 'ownerEntity'];
+    if (!fields.some(field => patch[field] !== undefined)) {
+      return `At least one of ${fields.join(', ')} is required`;
+    }
+
+    for (const [field, limit] of Object.entries(TEXT_LIMITS)) {
+      const value = patch[field];
+      if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > limit)) {
+        return `${field} must be a string of at most ${limit} characters, or null`;
+      }
+    }
+
+    if (patch.tags !== undefined && patch.tags !== null) {
+      const valid = Array.isArray(patch.tags)
+        && patch.tags.length <= MAX_TAGS
+        && patch.tags.every((tag: any) => typeof tag === 'string' && tag.trim().length > 0 && tag.length <= MAX_TAG_LENGTH);
+      if (!valid) {
+        return `tags must be an array of at most ${MAX_TAGS} non-empty strings of up to ${MAX_TAG_LENGTH} characters, or null`;
+      }
+    }
+
+    return null;
+  }
+
+  get(address: string): WalletLabel | null {
+    return this.labels.get(address) || null;
+  }
+
+  getAll(): WalletLabel[] {
+    return Array.from(this.labels.values());
+  }
+
+  // Fields left out keep their value, null clears them; a label with nothing left is removed
+  update(address: string, patch: WalletLabelPatch): WalletLabel | null {
+    const now = new Date().toISOString();
+    const existing = this.labels.get(address);
+    const label: WalletLabel = existing ? { ...existing } : {
+      address,
+      displayName: null,
+      notes: null,
+      tags: [],
+      ownerEntity: null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    for (const field of ['displayName', 'notes', 'ownerEntity'] as const) {
+      if (patch[field] !== undefined) {
+        label[field] = patch[field]?.trim() || null;
+      }
+    }
+    if (patch.tags !== undefined) {
+      label.tags = [...new Set((patch.tags || []).map(tag => tag.trim()))];
+    }
+    label.updatedAt = now;
+
+    const empty = !label.displayName && !label.notes && !label.ownerEntity && label.tags.length === 0;
+    if (empty) {
+      this.labels.delete(address);
+    } else {
+      this.labels.set(address, label);
+    }
+
+    this.save(address, empty ? null : label);
+    return empty ? null : label;
+  }
+
+  // A copy of the wallet with its label applied; the tracked object is left alone
+  apply(whale: WhaleWallet): WhaleWallet {
+    const label = this.labels.get(whale.address);
+    if (!label) return whale;
+
+    return {
+      ...whale,
+      name: label.displayName || whale.name,
+      tags: [...new Set([...whale.tags, ...label.tags])],
+      labels: label
+    };
+  }
+
+  private load(): void {
+    try {
+      this.backend.loadLabels().forEach(label => this.labels.set(label.address, label));
+      if (this.labels.size > 0) {
+        logger.info(`📥 Loaded ${this.labels.size} wallet labels`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading wallet labels:', error);
+    }
+  }
+
+  private save(address: string, label: WalletLabel | null): void {
+    try {
+      if (label) {
+        this.backend.saveLabel(label);
+      } else {
+        this.backend.deleteLabel(address);
+      }
+    } catch (error) {
+      logger.error('❌ Error saving wallet labels:', error);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+// src/utils/outbound-url.ts - KEEP CALLER-SUPPLIED URLS OFF LOOPBACK, LINK-LOCAL AND PRIVATE NETWORKS
+import * as dns from 'dns';
+import * as net from 'net';
+
+// IPv4 ranges that are not reachable on the public internet, as [network, prefix length]
+const BLOCKED_V4: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],    // benchmarking
+  ['224.0.0.0', 3]       // multicast and reserved, up to 255.255.255.255
+];
+
+const toInt = (ip: string): number => ip.split('.').reduce((value, octet) => value * 256 + parseInt(octet), 0);
+
+export class OutboundUrl {
+  static isPrivateAddress(ip: string): boolean {
+    const family = net.isIP(ip);
+
+    if (family === 4) {
+      const value = toInt(ip);
+      return BLOCKED_V4.some(([network, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(toInt(network) / 2 ** (32 - bits)));
+    }
+
+    if (family === 6) {
+      const lower = ip.toLowerCase();
+      // IPv4-mapped, either dotted or as URL parsing normalizes it (::ffff:7f00:1)
+      const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+      if (mapped) return OutboundUrl.isPrivateAddress(mapped[1]);
+      const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+      if (mappedHex) {
+        const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+        return OutboundUrl.isPrivateAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+      }
+
+      return lower === '::' || lower === '::1'
+        || /^f[cd]/.test(lower)      // unique local fc00::/7
+        || /^fe[89ab]/.test(lower)   // link-local fe80::/10
+        || lower.startsWith('ff');   // multicast
+    }
+
+    return false;
+  }
+
+  // Reason the URL can't be a delivery target, or null; DNS names are checked again when connecting
+  static validate(value: any): string | null {
+    if (typeof value !== 'string') return 'url must be an http(s) URL';
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch (error) {
+      return 'url must be an http(s) URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'url must be an http(s) URL';
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || OutboundUrl.isPrivateAddress(hostname)) {
+      return 'url must not point at a loopback, link-local or private address';
+    }
+
+    return null;
+  }
+
+  // Drop-in for the socket's DNS lookup, so a name resolving (or rebinding) to a private address is refused at connect time
+  static async lookup(hostname: string, options: object): Promise<[dns.LookupAddress[]]> {
+    const addresses = await dns.promises.lookup(hostname, { ...(options as dns.LookupOptions), all: true });
+
+    const blocked = addresses.find(entry => OutboundUrl.isPrivateAddress(entry.address));
+    if (blocked) {
+      throw new Error(`${hostname} resolves to private address ${blocked.address}`);
+    }
+
+    return [addresses];
+  }
+}
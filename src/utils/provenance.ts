@@ -0,0 +1,59 @@
+// src/utils/provenance.ts - WHERE EACH WALLET STAT CAME FROM
+import { StatSource, WalletStats, WalletStatValues } from '../types/whale.types';
+
+const STAT_FIELDS: Array<keyof WalletStatValues> = [
+  'totalTransactions',
+  'successfulTrades',
+  'winRate',
+  'avgProfitLoss',
+  'lastActiveDate',
+  'profitableTrades',
+  'totalVolume',
+  'closedTrades',
+  'realizedPnl'
+];
+
+export class Provenance {
+  static measured(confidence: number = 1): StatSource {
+    return { provenance: 'MEASURED', confidence: Provenance.clamp(confidence) };
+  }
+
+  static estimated(confidence: number): StatSource {
+    return { provenance: 'ESTIMATED', confidence: Provenance.clamp(confidence) };
+  }
+
+  static defaulted(): StatSource {
+    return { provenance: 'DEFAULTED', confidence: 0 };
+  }
+
+  // Tag every field with `fallback`, then apply per-field overrides
+  static build(
+    fallback: StatSource,
+    overrides: Partial<Record<keyof WalletStatValues, StatSource>> = {}
+  ): Record<keyof WalletStatValues, StatSource> {
+    const result = {} as Record<keyof WalletStatValues, StatSource>;
+    for (const field of STAT_FIELDS) {
+      result[field] = overrides[field] || fallback;
+    }
+    return result;
+  }
+
+  // Demote measured fields to estimates, e.g. when some inputs had to be approximated
+  static downgrade(stats: WalletStats, fields: Array<keyof WalletStatValues>, confidenceFactor: number): void {
+    for (const field of fields) {
+      const source = stats.provenance[field];
+      if (source?.provenance === 'MEASURED') {
+        stats.provenance[field] = Provenance.estimated(source.confidence * confidenceFactor);
+      }
+    }
+  }
+
+  // Win rate drives bot selection, so it is the field that decides "real" vs "estimated"
+  static hasMeasuredStats(stats: WalletStats): boolean {
+    return stats.provenance?.winRate?.provenance === 'MEASURED';
+  }
+
+  private static clamp(confidence: number): number {
+    return Math.max(0, Math.min(1, confidence));
+  }
+}
@@ -0,0 +1,70 @@
+// src/utils/scoring.ts - COMPOSITE 0-100 WHALE SCORE
+import { ScoreComponent, ScoreComponentName, WhaleScore, WhaleWallet } from '../types/whale.types';
+import { SCORING_CONFIG, ScoringConfig } from '../config/scoring.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class WhaleScoring {
+  static score(whale: WhaleWallet, config: ScoringConfig = SCORING_CONFIG, now: number = Date.now()): WhaleScore {
+    const { balance, stats } = whale;
+
+    // Each component is normalized to 0-1 before weighting
+    const raw: Array<[ScoreComponentName, number | string | null, number]> = [
+      ['balance', balance.totalBalanceUsd, WhaleScoring.balanceValue(balance.totalBalanceUsd, config)],
+      ['realizedPnl', stats.realizedPnl ?? 0, 0.5 + 0.5 * Math.tanh((stats.realizedPnl ?? 0) / config.pnlScaleUsd)],
+      ['consistency', stats.winRate, WhaleScoring.consistencyValue(whale)],
+      ['recency', stats.lastActiveDate, WhaleScoring.recencyValue(stats.lastActiveDate, config, now)],
+      ['tradeCount', stats.totalTransactions, Math.log10(stats.totalTransactions + 1) / Math.log10(config.tradeCountCap + 1)],
+      ['risk', whale.riskLevel, config.riskLevelValues[whale.riskLevel] ?? 0]
+    ];
+
+    const totalWeight = raw.reduce((sum, [name]) => sum + (config.weights[name] || 0), 0) || 1;
+
+    const components: ScoreComponent[] = raw.map(([name, input, value]) => {
+      const clamped = WhaleScoring.clamp(value);
+      const weight = (config.weights[name] || 0) / totalWeight;
+      return {
+        name,
+        input,
+        value: WhaleScoring.round(clamped, 3),
+        weight: WhaleScoring.round(weight, 3),
+        contribution: WhaleScoring.round(clamped * weight * 100, 1)
+      };
+    });
+
+    return {
+      total: WhaleScoring.round(components.reduce((sum, component) => sum + component.contribution, 0), 1),
+      components,
+      computedAt: new Date(now).toISOString()
+    };
+  }
+
+  // Log scale so a $10M wallet doesn't dwarf everything between $25K and $1M
+  private static balanceValue(balanceUsd: number, config: ScoringConfig): number {
+    if (balanceUsd <= config.balanceFloorUsd) return 0;
+    return Math.log10(balanceUsd / config.balanceFloorUsd) / Math.log10(config.balanceCapUsd / config.balanceFloorUsd);
+  }
+
+  // Win rate pulled toward a coin flip by how much we trust it
+  private static consistencyValue(whale: WhaleWallet): number {
+    const confidence = whale.stats.provenance?.winRate?.confidence ?? 0;
+    return (50 + (whale.stats.winRate - 50) * confidence) / 100;
+  }
+
+  private static recencyValue(lastActiveDate: string, config: ScoringConfig, now: number): number {
+    const lastActive = new Date(lastActiveDate).getTime();
+    if (isNaN(lastActive)) return 0;
+
+    const days = Math.max(0, now - lastActive) / DAY_MS;
+    return Math.pow(0.5, days / config.recencyHalfLifeDays);
+  }
+
+  private static clamp(value: number): number {
+    return isNaN(value) ? 0 : Math.max(0, Math.min(1, value));
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,216 @@
+// src/utils/snapshot-storage.ts - ROTATING CHECKSUMMED WHALE SNAPSHOTS
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { WhaleWallet } from '../types/whale.types';
+import { STORAGE_CONFIG, StorageConfig } from '../config/storage.config';
+import { writeFileAtomic } from './atomic-file';
+import { logger } from './logger';
+
+export type WhaleSnapshotReason = 'save' | 'pre-restore';
+
+export interface WhaleSnapshotInfo {
+  id: string;
+  createdAt: string;
+  reason: WhaleSnapshotReason;
+  totalWhales: number;
+  checksum: string;
+  sizeBytes: number;
+  valid: boolean; // false when the file is unreadable or its whales no longer match the checksum
+}
+
+export interface WhaleSnapshot {
+  info: WhaleSnapshotInfo;
+  whales: WhaleWallet[];
+}
+
+export interface WhaleSnapshotChange {
+  address: string;
+  fields: string[];
+  balanceChangeUsd: number | null;
+}
+
+export interface WhaleSnapshotDiff {
+  from: string;
+  to: string;
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+  added: string[];
+  removed: string[];
+  changed: WhaleSnapshotChange[];
+}
+
+// Ids are the creation time with the characters filenames dislike swapped out
+const SNAPSHOT_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z(-\d+)?$/;
+const FILE_PREFIX = 'whales-';
+
+// Refreshed every save, so they would mark nearly every wallet as changed
+const VOLATILE_FIELDS = ['lastUpdated'];
+
+export class WhaleSnapshotStorage {
+  private lastSnapshotAt = 0;
+
+  constructor(private config: StorageConfig = STORAGE_CONFIG) {
+    if (!fs.existsSync(config.snapshotDir)) {
+      fs.mkdirSync(config.snapshotDir, { recursive: true });
+    }
+
+    const newest = this.ids()[0];
+    if (newest) {
+      this.lastSnapshotAt = fs.statSync(this.fileFor(newest)).mtimeMs;
+    }
+  }
+
+  static isValidId(id: string): boolean {
+    return SNAPSHOT_ID.test(id);
+  }
+
+  static checksum(whales: WhaleWallet[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(whales)).digest('hex');
+  }
+
+  // Skipped when the last snapshot is newer than the interval, unless forced
+  take(whales: WhaleWallet[], reason: WhaleSnapshotReason, force: boolean = false, now: Date = new Date()): WhaleSnapshotInfo | null {
+    if (!force && now.getTime() - this.lastSnapshotAt < this.config.snapshotIntervalMinutes * 60000) {
+      return null;
+    }
+
+    let id = now.toISOString().replace(/[:.]/g, '-');
+    for (let suffix = 1; fs.existsSync(this.fileFor(id)); suffix++) {
+      id = `${now.toISOString().replace(/[:.]/g, '-')}-${suffix}`;
+    }
+
+    const checksum = WhaleSnapshotStorage.checksum(whales);
+    const content = JSON.stringify({
+      id,
+      createdAt: now.toISOString(),
+      reason,
+      totalWhales: whales.length,
+      checksum,
+      whales
+    });
+
+    writeFileAtomic(this.fileFor(id), content);
+    this.lastSnapshotAt = now.getTime();
+    this.prune();
+
+    logger.info(`📸 Saved whale snapshot ${id} (${whales.length} whales, ${reason})`);
+
+    return {
+      id,
+      createdAt: now.toISOString(),
+      reason,
+      totalWhales: whales.length,
+      checksum,
+      sizeBytes: Buffer.byteLength(content),
+      valid: true
+    };
+  }
+
+  // Newest first
+  list(): WhaleSnapshotInfo[] {
+    return this.ids().map(id => this.read(id)!.info);
+  }
+
+  read(id: string): WhaleSnapshot | null {
+    if (!WhaleSnapshotStorage.isValidId(id)) return null;
+
+    const file = this.fileFor(id);
+    if (!fs.existsSync(file)) return null;
+
+    const content = fs.readFileSync(file, 'utf8');
+    const info: WhaleSnapshotInfo = {
+      id,
+      createdAt: '',
+      reason: 'save',
+      totalWhales: 0,
+      checksum: '',
+      sizeBytes: Buffer.byteLength(content),
+      valid: false
+    };
+
+    try {
+      const parsed = JSON.parse(content);
+      Object.assign(info, {
+        createdAt: parsed.createdAt,
+        reason: parsed.reason,
+        totalWhales: parsed.totalWhales,
+        checksum: parsed.checksum,
+        valid: Array.isArray(parsed.whales) && WhaleSnapshotStorage.checksum(parsed.whales) === parsed.checksum
+      });
+      return { info, whales: info.valid ? parsed.whales : [] };
+    } catch (error) {
+      return { info, whales: [] };
+    }
+  }
+
+  latestValid(): WhaleSnapshot | null {
+    for (const id of this.ids()) {
+      const snapshot = this.read(id);
+      if (snapshot?.info.valid) return snapshot;
+
+      logger.warn(`⚠️ Whale snapshot ${id} failed its checksum, trying an older one`);
+    }
+    return null;
+  }
+
+  static diff(from: string, fromWhales: WhaleWallet[], to: string, toWhales: WhaleWallet[]): WhaleSnapshotDiff {
+    const before = new Map(fromWhales.map(whale => [whale.address, whale]));
+    const after = new Map(toWhales.map(whale => [whale.address, whale]));
+
+    const added = toWhales.filter(whale => !before.has(whale.address)).map(whale => whale.address);
+    const removed = fromWhales.filter(whale => !after.has(whale.address)).map(whale => whale.address);
+    const changed: WhaleSnapshotChange[] = [];
+    let unchanged = 0;
+
+    for (const [address, next] of after) {
+      const previous = before.get(address);
+      if (!previous) continue;
+
+      const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+      const fields = [...keys].filter(key => !VOLATILE_FIELDS.includes(key)
+        && JSON.stringify((previous as any)[key]) !== JSON.stringify((next as any)[key]));
+
+      if (fields.length === 0) {
+        unchanged++;
+        continue;
+      }
+
+      const balanceBefore = previous.balance?.totalBalanceUsd;
+      const balanceAfter = next.balance?.totalBalanceUsd;
+      changed.push({
+        address,
+        fields,
+        balanceChangeUsd: balanceBefore !== undefined && balanceAfter !== undefined ? balanceAfter - balanceBefore : null
+      });
+    }
+
+    return {
+      from,
+      to,
+      summary: { added: added.length, removed: removed.length, changed: changed.length, unchanged },
+      added,
+      removed,
+      changed
+    };
+  }
+
+  private prune(): void {
+    for (const id of this.ids().slice(this.config.snapshotCount)) {
+      fs.rmSync(this.fileFor(id), { force: true });
+    }
+  }
+
+  // Newest first; the ids sort by time
+  private ids(): string[] {
+    return fs.readdirSync(this.config.snapshotDir)
+      .filter(file => file.startsWith(FILE_PREFIX) && file.endsWith('.json'))
+      .map(file => file.slice(FILE_PREFIX.length, -'.json'.length))
+      .filter(id => WhaleSnapshotStorage.isValidId(id))
+      .sort()
+      .reverse();
+  }
+
+  private fileFor(id: string): string {
+    return path.join(this.config.snapshotDir, `${FILE_PREFIX}${id}.json`);
+  }
+}
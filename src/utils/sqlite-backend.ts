@@ -0,0 +1,248 @@
+// src/utils/sqlite-backend.ts - EMBEDDED SQLITE PERSISTENCE WITH MIGRATIONS
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { WhaleWallet, WalletLabel, WalletHistory, WalletSnapshot, SwapTrade, CreditLedgerEntry } from '../types/whale.types';
+import { StorageBackend } from './storage-backend';
+import { JsonStorageBackend } from './json-backend';
+import { SQLITE_MIGRATIONS } from './sqlite-migrations';
+import { logger } from './logger';
+
+const RESOLUTIONS = ['raw', 'hourly', 'daily'] as const;
+
+export class SqliteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite' as const;
+
+  private db: Database.Database;
+
+  constructor(private dbPath: string, jsonDataDir: string) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    // WAL lets other processes read while the tracker writes
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+
+    this.migrate();
+    this.importJsonOnce(jsonDataDir);
+  }
+
+  loadWhales(): WhaleWallet[] {
+    return this.db.prepare('SELECT data FROM whales').all()
+      .map((row: any) => JSON.parse(row.data));
+  }
+
+  saveWhales(whales: WhaleWallet[]): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO whales (address, category, source, enabled, total_balance_usd, win_rate, last_updated, data)
+      VALUES (@address, @category, @source, @enabled, @totalBalanceUsd, @winRate, @lastUpdated, @data)
+      ON CONFLICT (address) DO UPDATE SET
+        category = excluded.category, source = excluded.source, enabled = excluded.enabled,
+        total_balance_usd = excluded.total_balance_usd, win_rate = excluded.win_rate,
+        last_updated = excluded.last_updated, data = excluded.data
+    `);
+    const removeOthers = this.db.prepare('DELETE FROM whales WHERE address NOT IN (SELECT value FROM json_each(?))');
+
+    this.db.transaction(() => {
+      for (const whale of whales) {
+        upsert.run({
+          address: whale.address,
+          category: whale.category,
+          source: whale.source,
+          enabled: whale.enabled ? 1 : 0,
+          totalBalanceUsd: whale.balance?.totalBalanceUsd ?? null,
+          winRate: whale.stats?.winRate ?? null,
+          lastUpdated: whale.lastUpdated,
+          data: JSON.stringify(whale)
+        });
+      }
+      removeOthers.run(JSON.stringify(whales.map(whale => whale.address)));
+    })();
+  }
+
+  loadLabels(): WalletLabel[] {
+    return this.db.prepare('SELECT * FROM labels').all().map((row: any) => ({
+      address: row.address,
+      displayName: row.display_name,
+      notes: row.notes,
+      tags: JSON.parse(row.tags),
+      ownerEntity: row.owner_entity,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  saveLabel(label: WalletLabel): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO labels (address, display_name, notes, tags, owner_entity, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(label.address, label.displayName, label.notes, JSON.stringify(label.tags), label.ownerEntity, label.createdAt, label.updatedAt);
+  }
+
+  deleteLabel(address: string): void {
+    this.db.prepare('DELETE FROM labels WHERE address = ?').run(address);
+  }
+
+  loadHistory(address: string): WalletHistory {
+    const history: WalletHistory = { address, raw: [], hourly: [], daily: [] };
+    const rows = this.db.prepare('SELECT resolution, timestamp, balance, stats FROM snapshots WHERE address = ? ORDER BY timestamp').all(address);
+
+    for (const row of rows as any[]) {
+      const tier = history[row.resolution as typeof RESOLUTIONS[number]];
+      tier?.push({ timestamp: row.timestamp, balance: JSON.parse(row.balance), stats: JSON.parse(row.stats) });
+    }
+
+    return history;
+  }
+
+  saveHistory(history: WalletHistory): void {
+    const clear = this.db.prepare('DELETE FROM snapshots WHERE address = ?');
+    const insert = this.db.prepare('INSERT INTO snapshots (address, resolution, timestamp, balance, stats) VALUES (?, ?, ?, ?, ?)');
+
+    this.db.transaction(() => {
+      clear.run(history.address);
+      for (const resolution of RESOLUTIONS) {
+        for (const snapshot of history[resolution] as WalletSnapshot[]) {
+          insert.run(history.address, resolution, snapshot.timestamp, JSON.stringify(snapshot.balance), JSON.stringify(snapshot.stats));
+        }
+      }
+    })();
+  }
+
+  listHistoryWallets(): string[] {
+    return this.db.prepare('SELECT DISTINCT address FROM snapshots').all().map((row: any) => row.address);
+  }
+
+  loadTrades(): SwapTrade[] {
+    return this.db.prepare('SELECT * FROM trades ORDER BY timestamp DESC, slot DESC').all().map((row: any) => ({
+      signature: row.signature,
+      slot: row.slot,
+      timestamp: row.timestamp,
+      wallet: row.wallet,
+      side: row.side,
+      inputMint: row.input_mint,
+      inputAmount: row.input_amount,
+      outputMint: row.output_mint,
+      outputAmount: row.output_amount,
+      valueUsd: row.value_usd
+    }));
+  }
+
+  updateTrades(added: SwapTrade[], removed: SwapTrade[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO trades (signature, wallet, slot, timestamp, side, input_mint, input_amount, output_mint, output_amount, value_usd)
+      VALUES (@signature, @wallet, @slot, @timestamp, @side, @inputMint, @inputAmount, @outputMint, @outputAmount, @valueUsd)
+    `);
+    const remove = this.db.prepare('DELETE FROM trades WHERE signature = ? AND wallet = ?');
+
+    this.db.transaction(() => {
+      removed.forEach(trade => remove.run(trade.signature, trade.wallet));
+      added.forEach(trade => insert.run(trade));
+    })();
+  }
+
+  loadLedger(): CreditLedgerEntry[] {
+    return this.db.prepare('SELECT category, endpoint, wallet, credits, timestamp FROM credit_ledger ORDER BY id').all() as CreditLedgerEntry[];
+  }
+
+  appendLedger(entry: CreditLedgerEntry): void {
+    this.db.prepare('INSERT INTO credit_ledger (category, endpoint, wallet, credits, timestamp) VALUES (?, ?, ?, ?, ?)')
+      .run(entry.category, entry.endpoint, entry.wallet, entry.credits, entry.timestamp);
+  }
+
+  pruneLedger(before: string): void {
+    this.db.prepare('DELETE FROM credit_ledger WHERE timestamp < ?').run(before);
+  }
+
+  getStats(): any {
+    const count = (table: string): number => (this.db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as any).count;
+
+    return {
+      backend: this.name,
+      path: this.dbPath,
+      schemaVersion: this.schemaVersion(),
+      rows: {
+        whales: count('whales'),
+        labels: count('labels'),
+        snapshots: count('snapshots'),
+        trades: count('trades'),
+        creditLedger: count('credit_ledger')
+      },
+      importedFromJson: this.getMeta('json_import')
+    };
+  }
+
+  private schemaVersion(): number {
+    return (this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as any).version || 0;
+  }
+
+  // Each pending migration runs in its own transaction, recorded with its version
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const current = this.schemaVersion();
+    const record = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+    for (const migration of SQLITE_MIGRATIONS.filter(migration => migration.version > current)) {
+      this.db.transaction(() => {
+        this.db.exec(migration.sql);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+      logger.info(`🗄️ Applied SQLite migration ${migration.version}: ${migration.name}`);
+    }
+  }
+
+  // The first start on SQLite copies whatever the JSON backend left in the data directory
+  private importJsonOnce(jsonDataDir: string): void {
+    if (this.getMeta('json_import')) return;
+
+    try {
+      const json = new JsonStorageBackend(jsonDataDir);
+      const whales = json.loadWhales();
+      const labels = json.loadLabels();
+      const trades = json.loadTrades();
+      const ledger = json.loadLedger();
+      const summary = { whales: whales.length, labels: labels.length, snapshots: 0, trades: trades.length, ledger: ledger.length };
+
+      this.db.transaction(() => {
+        this.saveWhales(whales);
+        labels.forEach(label => this.saveLabel(label));
+        this.updateTrades(trades, []);
+        ledger.forEach(entry => this.appendLedger(entry));
+
+        for (const address of json.listHistoryWallets()) {
+          const history = json.loadHistory(address);
+          this.saveHistory(history);
+          summary.snapshots += history.raw.length + history.hourly.length + history.daily.length;
+        }
+
+        this.setMeta('json_import', JSON.stringify({ importedAt: new Date().toISOString(), ...summary }));
+      })();
+
+      if (Object.values(summary).some(count => count > 0)) {
+        logger.success(`📦 Imported JSON data into SQLite: ${JSON.stringify(summary)}`);
+      }
+    } catch (error) {
+      // Nothing is marked imported, so the next start tries again
+      logger.error('❌ Error importing JSON data into SQLite:', error);
+    }
+  }
+
+  private getMeta(key: string): any {
+    const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as any;
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value);
+  }
+}
@@ -0,0 +1,79 @@
+// src/utils/sqlite-migrations.ts - VERSIONED SQLITE SCHEMA
+export interface SqliteMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Append only: an applied migration is never edited, a schema change is a new version
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    sql: `
+      CREATE TABLE whales (
+        address TEXT PRIMARY KEY,
+        category TEXT,
+        source TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        total_balance_usd REAL,
+        win_rate REAL,
+        last_updated TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_whales_category ON whales (category);
+      CREATE INDEX idx_whales_balance ON whales (total_balance_usd DESC);
+
+      CREATE TABLE labels (
+        address TEXT PRIMARY KEY,
+        display_name TEXT,
+        notes TEXT,
+        tags TEXT NOT NULL DEFAULT '[]',
+        owner_entity TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_labels_owner ON labels (owner_entity);
+
+      CREATE TABLE snapshots (
+        address TEXT NOT NULL,
+        resolution TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        balance TEXT NOT NULL,
+        stats TEXT NOT NULL,
+        PRIMARY KEY (address, resolution, timestamp)
+      );
+
+      CREATE TABLE trades (
+        signature TEXT NOT NULL,
+        wallet TEXT NOT NULL,
+        slot INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        side TEXT NOT NULL,
+        input_mint TEXT NOT NULL,
+        input_amount REAL NOT NULL,
+        output_mint TEXT NOT NULL,
+        output_amount REAL NOT NULL,
+        value_usd REAL,
+        PRIMARY KEY (signature, wallet)
+      );
+      CREATE INDEX idx_trades_time ON trades (timestamp DESC, slot DESC);
+      CREATE INDEX idx_trades_wallet ON trades (wallet, timestamp DESC);
+
+      CREATE TABLE credit_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        category TEXT NOT NULL,
+        endpoint TEXT NOT NULL,
+        wallet TEXT,
+        credits INTEGER NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+      CREATE INDEX idx_credit_ledger_time ON credit_ledger (timestamp);
+
+      CREATE TABLE meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `
+  }
+];
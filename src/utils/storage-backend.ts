@@ -0,0 +1,45 @@
+// src/utils/storage-backend.ts - PERSISTENCE INTERFACE SHARED BY THE JSON AND SQLITE BACKENDS
+import { WhaleWallet, WalletLabel, WalletHistory, SwapTrade, CreditLedgerEntry } from '../types/whale.types';
+import { STORAGE_CONFIG, StorageConfig, StorageBackendName } from '../config/storage.config';
+import { JsonStorageBackend } from './json-backend';
+import { SqliteStorageBackend } from './sqlite-backend';
+import { logger } from './logger';
+
+// Stores keep their working set in memory and write through here; every call is synchronous
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+
+  loadWhales(): WhaleWallet[];
+  saveWhales(whales: WhaleWallet[]): void; // replaces the whole set
+
+  loadLabels(): WalletLabel[];
+  saveLabel(label: WalletLabel): void;
+  deleteLabel(address: string): void;
+
+  loadHistory(address: string): WalletHistory;
+  saveHistory(history: WalletHistory): void;
+  listHistoryWallets(): string[];
+
+  loadTrades(): SwapTrade[];
+  updateTrades(added: SwapTrade[], removed: SwapTrade[]): void;
+
+  loadLedger(): CreditLedgerEntry[];
+  appendLedger(entry: CreditLedgerEntry): void;
+  pruneLedger(before: string): void; // drops entries with an earlier ISO timestamp
+
+  getStats(): any;
+}
+
+const BACKENDS: StorageBackendName[] = ['json', 'sqlite'];
+
+export const createStorageBackend = (config: StorageConfig = STORAGE_CONFIG): StorageBackend => {
+  if (!BACKENDS.includes(config.backend as StorageBackendName)) {
+    logger.warn(`⚠️ Unknown STORAGE_BACKEND "${config.backend}", using json`);
+  }
+
+  if (config.backend === 'sqlite') {
+    return new SqliteStorageBackend(config.sqlitePath, config.dataDir);
+  }
+
+  return new JsonStorageBackend(config.dataDir);
+};
@@ -1,69 +1,56 @@
 // src/utils/storage.ts
-import * as fs from 'fs';
-import * as path from 'path';
 import { WhaleWallet } from '../types/whale.types';
+import { StorageBackend } from './storage-backend';
+import { WhaleSnapshotStorage } from './snapshot-storage';
 import { logger } from './logger';
 
 export class WhaleStorage {
-  private dataDir = path.join(process.cwd(), 'data');
-  private whalesFile = path.join(this.dataDir, 'whales.json');
-  private backupFile = path.join(this.dataDir, 'whales-backup.json');
-  private botFile = path.join(this.dataDir, 'bot-wallets.json');
-
-  constructor() {
-    this.ensureDataDirectory();
-  }
-
-  private ensureDataDirectory(): void {
-    if (!fs.existsSync(this.dataDir)) {
-      fs.mkdirSync(this.dataDir, { recursive: true });
-      logger.info('📁 Data directory created');
-    }
-  }
+  constructor(private backend: StorageBackend, private snapshots: WhaleSnapshotStorage) {}
 
   loadWhales(): WhaleWallet[] {
     try {
-      if (fs.existsSync(this.whalesFile)) {
-        const data = fs.readFileSync(this.whalesFile, 'utf8');
-        const parsed = JSON.parse(data);
-        const whales = parsed.whales || parsed;
-        logger.success(`📥 Loaded ${whales.length} whales from storage`);
+      const whales = this.backend.loadWhales();
+      if (whales.length > 0) {
+        logger.success(`📥 Loaded ${whales.length} whales from ${this.backend.name} storage`);
         return whales;
       }
     } catch (error) {
       logger.error('❌ Error loading whales:', error);
     }
     
+    // A missing or unreadable store falls back to the newest snapshot that passes its checksum
+    const snapshot = this.snapshots.latestValid();
+    if (snapshot && snapshot.whales.length > 0) {
+      logger.warn(`⚠️ Recovered ${snapshot.whales.length} whales from snapshot ${snapshot.info.id}`);
+      try {
+        this.backend.saveWhales(snapshot.whales);
+      } catch (error) {
+        logger.error('❌ Error saving recovered whales:', error);
+      }
+      return snapshot.whales;
+    }
+    
     logger.info('📁 No existing whale data found, starting fresh');
     return [];
   }
 
   saveWhales(whales: WhaleWallet[]): void {
     try {
-      if (fs.existsSync(this.whalesFile)) {
-        fs.copyFileSync(this.whalesFile, this.backupFile);
-      }
-
-      const dataToSave = {
-        lastUpdated: new Date().toISOString(),
-        totalWhales: whales.length,
-        whales: whales
-      };
-
-      fs.writeFileSync(this.whalesFile, JSON.stringify(dataToSave, null, 2));
-      logger.success(`💾 Saved ${whales.length} whales to: ${this.whalesFile}`);
+      this.backend.saveWhales(whales);
+      logger.success(`💾 Saved ${whales.length} whales to ${this.backend.name} storage`);
     } catch (error) {
       logger.error('❌ Error saving whales:', error);
     }
+    
+    // Taken even if the backend write failed, so the set survives somewhere
+    try {
+      this.snapshots.take(whales, 'save');
+    } catch (error) {
+      logger.error('❌ Error saving whale snapshot:', error);
+    }
   }
 
   getStats(): any {
-    return {
-      dataDirectory: this.dataDir,
-      files: {
-        whales: { exists: fs.existsSync(this.whalesFile) },
-        backup: { exists: fs.existsSync(this.backupFile) }
-      }
-    };
+    return this.backend.getStats();
   }
 }
\ No newline at end of file
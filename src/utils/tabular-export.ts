@@ -0,0 +1,81 @@
+// src/utils/tabular-export.ts - CSV / NDJSON SERIALIZATION FOR SPREADSHEETS AND NOTEBOOKS
+export type ExportFormat = 'json' | 'csv' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'ndjson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson'
+};
+
+type Cell = string | number | boolean | null;
+export type FlatRow = Record<string, Cell>;
+
+export class TabularExport {
+  // Nested objects become dotted columns (`balance.totalBalanceUsd`); arrays of plain values are `;`-joined
+  static flatten(value: any, prefix: string = '', row: FlatRow = {}): FlatRow {
+    for (const [key, field] of Object.entries(value ?? {})) {
+      const column = prefix ? `${prefix}.${key}` : key;
+
+      if (field === undefined) continue;
+      if (field === null || ['string', 'number', 'boolean'].includes(typeof field)) {
+        row[column] = field as Cell;
+      } else if (Array.isArray(field)) {
+        row[column] = field.every(item => item === null || typeof item !== 'object')
+          ? field.join(';')
+          : JSON.stringify(field);
+      } else {
+        TabularExport.flatten(field, column, row);
+      }
+    }
+    return row;
+  }
+
+  // Every column any row has, in first-seen order
+  static columnsOf(rows: FlatRow[]): string[] {
+    const columns = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+    return Array.from(columns);
+  }
+
+  // Picks columns by name; a nested prefix such as `stats` takes all of its columns. Returns unknown names as `unknown`
+  static pickColumns(available: string[], requested: string[]): { columns: string[]; unknown: string[] } {
+    const columns: string[] = [];
+    const unknown: string[] = [];
+
+    for (const name of requested) {
+      const matches = available.filter(column => column === name || column.startsWith(`${name}.`));
+      if (matches.length === 0) unknown.push(name);
+      matches.forEach(column => {
+        if (!columns.includes(column)) columns.push(column);
+      });
+    }
+
+    return { columns, unknown };
+  }
+
+  // One chunk per line so large exports are written as they are produced
+  static *lines(format: Exclude<ExportFormat, 'json'>, rows: FlatRow[], columns: string[]): Generator<string> {
+    if (format === 'csv') {
+      yield columns.map(column => TabularExport.csvCell(column)).join(',') + '\r\n';
+      for (const row of rows) {
+        yield columns.map(column => TabularExport.csvCell(row[column] ?? null)).join(',') + '\r\n';
+      }
+      return;
+    }
+
+    for (const row of rows) {
+      yield JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))) + '\n';
+    }
+  }
+
+  private static csvCell(value: Cell): string {
+    if (value === null) return '';
+    if (typeof value !== 'string') return String(value);
+
+    // Text that a spreadsheet would run as a formula is prefixed with a quote
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
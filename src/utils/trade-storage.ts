@@ -0,0 +1,172 @@
+// src/utils/trade-storage.ts - NORMALIZED WHALE TRADE RECORDS
+import { SwapTrade, TradeSide } from '../types/whale.types';
+import { StorageBackend } from './storage-backend';
+import { logger } from './logger';
+
+export interface TradeQuery {
+  wallet?: string;
+  mint?: string;
+  side?: TradeSide;
+  minUsd?: number;
+  from?: number; // ms
+  to?: number;   // ms
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TradePage {
+  trades: SwapTrade[];
+  nextCursor: string | null;
+}
+
+export class TradeStorage {
+  // Newest first: timestamp desc, then slot desc, then key for a stable total order
+  private trades: SwapTrade[] = [];
+  private keys = new Set<string>();
+
+  // Written to the backend on the next flush
+  private pendingAdded = new Map<string, SwapTrade>();
+  private pendingRemoved = new Map<string, SwapTrade>();
+
+  private readonly MAX_TRADES = parseInt(process.env.MAX_STORED_TRADES || '100000');
+  private readonly MAX_PAGE_SIZE = 500;
+
+  constructor(private backend: StorageBackend) {
+    this.load();
+    setInterval(() => this.flush(), 60000).unref();
+  }
+
+  // Idempotent per (signature, wallet); returns the trades that were new
+  addTrades(trades: SwapTrade[]): SwapTrade[] {
+    const added = trades.filter(trade => {
+      const key = TradeStorage.keyOf(trade);
+      if (this.keys.has(key)) return false;
+      this.keys.add(key);
+      return true;
+    });
+
+    if (added.length === 0) return added;
+
+    this.trades.push(...added);
+    this.trades.sort(TradeStorage.compare);
+    added.forEach(trade => this.pendingAdded.set(TradeStorage.keyOf(trade), trade));
+
+    if (this.trades.length > this.MAX_TRADES) {
+      const dropped = this.trades.splice(this.MAX_TRADES);
+      for (const trade of dropped) {
+        const key = TradeStorage.keyOf(trade);
+        this.keys.delete(key);
+        // A trade dropped before it was ever written needs no delete
+        if (!this.pendingAdded.delete(key)) {
+          this.pendingRemoved.set(key, trade);
+        }
+      }
+    }
+
+    return added;
+  }
+
+  query(query: TradeQuery): TradePage {
+    const limit = Math.min(Math.max(query.limit || 50, 1), this.MAX_PAGE_SIZE);
+    const after = query.cursor ? TradeStorage.decodeCursor(query.cursor) : null;
+
+    const page: SwapTrade[] = [];
+    let hasMore = false;
+
+    for (const trade of this.trades) {
+      if (after && TradeStorage.compare(trade, after) <= 0) continue;
+      if (!this.matches(trade, query)) continue;
+
+      if (page.length === limit) {
+        hasMore = true;
+        break;
+      }
+      page.push(trade);
+    }
+
+    return {
+      trades: page,
+      nextCursor: hasMore ? TradeStorage.encodeCursor(page[page.length - 1]) : null
+    };
+  }
+
+  // Every match without paging (newest first), for analytics
+  find(query: Omit<TradeQuery, 'cursor' | 'limit'>): SwapTrade[] {
+    return this.trades.filter(trade => this.matches(trade, query));
+  }
+
+  flush(): void {
+    if (this.pendingAdded.size === 0 && this.pendingRemoved.size === 0) return;
+
+    try {
+      this.backend.updateTrades(Array.from(this.pendingAdded.values()), Array.from(this.pendingRemoved.values()));
+      this.pendingAdded.clear();
+      this.pendingRemoved.clear();
+    } catch (error) {
+      logger.error('❌ Error saving trades:', error);
+    }
+  }
+
+  getStats(): any {
+    return {
+      totalTrades: this.trades.length,
+      newest: this.trades[0] ? new Date(this.trades[0].timestamp * 1000).toISOString() : null,
+      oldest: this.trades.length > 0
+        ? new Date(this.trades[this.trades.length - 1].timestamp * 1000).toISOString()
+        : null
+    };
+  }
+
+  private matches(trade: SwapTrade, query: TradeQuery): boolean {
+    if (query.wallet && trade.wallet !== query.wallet) return false;
+    if (query.mint && trade.inputMint !== query.mint && trade.outputMint !== query.mint) return false;
+    if (query.side && trade.side !== query.side) return false;
+    if (query.minUsd !== undefined && (trade.valueUsd === null || trade.valueUsd < query.minUsd)) return false;
+    if (query.from !== undefined && trade.timestamp * 1000 < query.from) return false;
+    if (query.to !== undefined && trade.timestamp * 1000 > query.to) return false;
+    return true;
+  }
+
+  private load(): void {
+    try {
+      this.trades = this.backend.loadTrades().sort(TradeStorage.compare);
+      this.trades.forEach(trade => this.keys.add(TradeStorage.keyOf(trade)));
+      if (this.trades.length > 0) {
+        logger.info(`📥 Loaded ${this.trades.length} trades from storage`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading trades:', error);
+    }
+  }
+
+  private static keyOf(trade: Pick<SwapTrade, 'signature' | 'wallet'>): string {
+    return `${trade.signature}:${trade.wallet}`;
+  }
+
+  private static compare(a: Pick<SwapTrade, 'timestamp' | 'slot' | 'signature' | 'wallet'>, b: Pick<SwapTrade, 'timestamp' | 'slot' | 'signature' | 'wallet'>): number {
+    if (a.timestamp !== b.timestamp) return b.timestamp - a.timestamp;
+    if (a.slot !== b.slot) return b.slot - a.slot;
+    const keyA = TradeStorage.keyOf(a);
+    const keyB = TradeStorage.keyOf(b);
+    return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+  }
+
+  private static encodeCursor(trade: SwapTrade): string {
+    const { timestamp, slot, signature, wallet } = trade;
+    return Buffer.from(JSON.stringify([timestamp, slot, signature, wallet])).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): Pick<SwapTrade, 'timestamp' | 'slot' | 'signature' | 'wallet'> | null {
+    try {
+      const [timestamp, slot, signature, wallet] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof timestamp !== 'number' || typeof slot !== 'number') return null;
+      return { timestamp, slot, signature: String(signature), wallet: String(wallet) };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static isValidCursor(cursor: string): boolean {
+    return TradeStorage.decodeCursor(cursor) !== null;
+  }
+}
@@ -0,0 +1,141 @@
+// src/utils/wallet-control-storage.ts - OPERATOR DISABLES WITH AN AUDIT TRAIL
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { WalletControl, WalletControlAction, WalletControlAudit } from '../types/whale.types';
+import { logger } from './logger';
+
+export class WalletControlStorage {
+  private dataDir = path.join(process.cwd(), 'data');
+  private controlsFile = path.join(this.dataDir, 'wallet-controls.json');
+
+  private controls = new Map<string, WalletControl>();
+  private audit: WalletControlAudit[] = [];
+  private expiryListeners: Array<(control: WalletControl) => void> = [];
+
+  private readonly MAX_AUDIT_ENTRIES = 10000;
+
+  constructor() {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+
+    setInterval(() => this.expire(), 60000).unref();
+  }
+
+  // The active disable for an address, or null once it was lifted or has expired
+  get(address: string, now: number = Date.now()): WalletControl | null {
+    const control = this.controls.get(address);
+    if (!control) return null;
+    return control.expiresAt && new Date(control.expiresAt).getTime() <= now ? null : control;
+  }
+
+  getAll(): WalletControl[] {
+    const now = Date.now();
+    return Array.from(this.controls.keys())
+      .map(address => this.get(address, now))
+      .filter((control): control is WalletControl => control !== null);
+  }
+
+  getAudit(address?: string, limit: number = 100): WalletControlAudit[] {
+    return this.audit
+      .filter(entry => !address || entry.address === address)
+      .slice(-limit)
+      .reverse();
+  }
+
+  // Disabling an already-disabled wallet replaces its reason and expiry
+  disable(address: string, reason: string, actor: string, expiresAt: string | null = null): WalletControl {
+    const control: WalletControl = {
+      address,
+      reason,
+      disabledBy: actor,
+      disabledAt: new Date().toISOString(),
+      expiresAt
+    };
+
+    this.controls.set(address, control);
+    this.record(address, 'DISABLE', actor, reason, expiresAt);
+    this.save();
+    return control;
+  }
+
+  enable(address: string, actor: string, reason: string | null = null): WalletControl | null {
+    const control = this.get(address);
+    if (!control) return null;
+
+    this.controls.delete(address);
+    this.record(address, 'ENABLE', actor, reason, null);
+    this.save();
+    return control;
+  }
+
+  onExpired(listener: (control: WalletControl) => void): void {
+    this.expiryListeners.push(listener);
+  }
+
+  private expire(): void {
+    const now = Date.now();
+    const expired = Array.from(this.controls.values())
+      .filter(control => control.expiresAt && new Date(control.expiresAt).getTime() <= now);
+
+    if (expired.length === 0) return;
+
+    for (const control of expired) {
+      this.controls.delete(control.address);
+      this.record(control.address, 'EXPIRE', 'system', control.reason, control.expiresAt);
+
+      for (const listener of this.expiryListeners) {
+        try {
+          listener(control);
+        } catch (error) {
+          logger.error('Wallet control expiry listener failed:', error);
+        }
+      }
+    }
+
+    this.save();
+  }
+
+  private record(address: string, action: WalletControlAction, actor: string, reason: string | null, expiresAt: string | null): void {
+    this.audit.push({
+      id: `audit_${crypto.randomBytes(8).toString('hex')}`,
+      address,
+      action,
+      actor,
+      reason,
+      expiresAt,
+      timestamp: new Date().toISOString()
+    });
+
+    if (this.audit.length > this.MAX_AUDIT_ENTRIES) {
+      this.audit.splice(0, this.audit.length - this.MAX_AUDIT_ENTRIES);
+    }
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.controlsFile)) {
+        const parsed = JSON.parse(fs.readFileSync(this.controlsFile, 'utf8'));
+        (parsed.controls || []).forEach((control: WalletControl) => this.controls.set(control.address, control));
+        this.audit = parsed.audit || [];
+        logger.info(`📥 Loaded ${this.controls.size} wallet controls`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading wallet controls:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.controlsFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        controls: Array.from(this.controls.values()),
+        audit: this.audit
+      }, null, 2));
+    } catch (error) {
+      logger.error('❌ Error saving wallet controls:', error);
+    }
+  }
+}
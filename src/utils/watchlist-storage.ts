@@ -0,0 +1,89 @@
+// src/utils/watchlist-storage.ts - WALLETS ADDED BY HAND
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+export interface WatchlistEntry {
+  address: string;
+  note: string | null;
+  addedAt: string;
+}
+
+export class WatchlistStorage {
+  private dataDir = path.join(process.cwd(), 'data');
+  private watchlistFile = path.join(this.dataDir, 'watchlist.json');
+
+  private entries = new Map<string, WatchlistEntry>();
+
+  constructor() {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    this.load();
+  }
+
+  has(address: string): boolean {
+    return this.entries.has(address);
+  }
+
+  getAll(): WatchlistEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  getAddresses(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  // Already-watched addresses keep their original entry
+  add(addresses: string[], note: string | null = null): { added: WatchlistEntry[]; existing: string[] } {
+    const added: WatchlistEntry[] = [];
+    const existing: string[] = [];
+
+    for (const address of new Set(addresses)) {
+      if (this.entries.has(address)) {
+        existing.push(address);
+        continue;
+      }
+
+      const entry = { address, note, addedAt: new Date().toISOString() };
+      this.entries.set(address, entry);
+      added.push(entry);
+    }
+
+    if (added.length > 0) {
+      this.save();
+    }
+
+    return { added, existing };
+  }
+
+  remove(address: string): boolean {
+    if (!this.entries.delete(address)) return false;
+
+    this.save();
+    return true;
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.watchlistFile)) {
+        const parsed = JSON.parse(fs.readFileSync(this.watchlistFile, 'utf8'));
+        (parsed.wallets || []).forEach((entry: WatchlistEntry) => this.entries.set(entry.address, entry));
+        logger.info(`📥 Loaded ${this.entries.size} watchlist wallets`);
+      }
+    } catch (error) {
+      logger.error('❌ Error loading watchlist:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.watchlistFile, JSON.stringify({
+        lastUpdated: new Date().toISOString(),
+        wallets: Array.from(this.entries.values())
+      }, null, 2));
+    } catch (error) {
+      logger.error('❌ Error saving watchlist:', error);
+    }
+  }
+}
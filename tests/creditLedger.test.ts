@@ -0,0 +1,143 @@
+// tests/creditLedger.test.ts - CREDIT WINDOWS, CATEGORY BUDGETS, COST MODEL AND FORECAST
+import * as path from 'path';
+import { CreditLedger } from '../src/utils/credit-ledger';
+import { JsonStorageBackend } from '../src/utils/json-backend';
+import { CreditBudgetConfig } from '../src/config/credit-budget.config';
+import { useTempDir } from './helpers/temp-dir';
+
+// Small numbers so the category caps are easy to hit: DISCOVERY gets 10/day, TRACKING 70/day
+const BUDGET: CreditBudgetConfig = {
+  monthlyCredits: 1000,
+  dailyCredits: 100,
+  shares: { DISCOVERY: 0.1, TRACKING: 0.7, API: 0.1, BUFFER: 0.1 },
+  retentionDays: 45,
+  forecastWindowDays: 7
+};
+
+describe('CreditLedger', () => {
+  const workDir = useTempDir('ledger-test');
+  const createLedger = (config: CreditBudgetConfig = BUDGET): CreditLedger =>
+    new CreditLedger(new JsonStorageBackend(path.join(workDir(), 'data')), config);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-15T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('windows', () => {
+    it('rebuilds the day and month from the ledger after a restart', () => {
+      const ledger = createLedger();
+      ledger.record('TRACKING', 'GET /v0/addresses/:address/transactions', null, 40);
+      ledger.record('API', 'POST /v0/accounts', 'wallet1', 5);
+
+      const usage = createLedger().getUsage();
+
+      expect(usage.daily.used).toBe(45);
+      expect(usage.monthly.used).toBe(45);
+      expect(usage.categories.TRACKING.daily).toEqual({ used: 40, budget: 70, remaining: 30 });
+    });
+
+    it('starts a new day at UTC midnight but keeps the month', () => {
+      const ledger = createLedger();
+      ledger.record('TRACKING', 'POST /v0/accounts', null, 40);
+
+      jest.setSystemTime(new Date('2026-03-16T00:00:01Z'));
+      const usage = ledger.getUsage();
+
+      expect(usage.daily.used).toBe(0);
+      expect(usage.monthly.used).toBe(40);
+      expect(usage.daily.resetDate).toBe('2026-03-17T00:00:00.000Z');
+    });
+
+    it('starts a new month on the 1st and prunes entries past retention', () => {
+      const ledger = createLedger();
+      ledger.record('TRACKING', 'POST /v0/accounts', null, 40);
+
+      jest.setSystemTime(new Date('2026-04-01T00:00:01Z'));
+      expect(ledger.getUsage().monthly.used).toBe(0);
+      expect(ledger.summarize('category', 'all').totalCredits).toBe(40);
+
+      jest.setSystemTime(new Date('2026-05-01T00:00:01Z'));
+      expect(ledger.summarize('category', 'all').totalCredits).toBe(0);
+      expect(createLedger().summarize('category', 'all').totalCredits).toBe(0);
+    });
+  });
+
+  describe('category budgets', () => {
+    it('stops a category at its own share while the others carry on', () => {
+      const ledger = createLedger();
+      ledger.record('DISCOVERY', 'GET /v0/token/:mint/holders', null, 10);
+
+      expect(ledger.remaining('DISCOVERY')).toBe(0);
+      expect(ledger.canSpend('DISCOVERY', 1)).toBe(false);
+      expect(ledger.canSpend('TRACKING', 70)).toBe(true);
+    });
+
+    it('caps every category by what is left of the plan overall', () => {
+      const ledger = createLedger({ ...BUDGET, dailyCredits: 100, shares: { DISCOVERY: 0.5, TRACKING: 0.7, API: 0.1, BUFFER: 0.1 } });
+      ledger.record('TRACKING', 'POST /v0/accounts', null, 70);
+
+      // DISCOVERY's own daily share is 50, but only 30 of the day's 100 are left
+      expect(ledger.remaining('DISCOVERY')).toBe(30);
+    });
+  });
+
+  describe('cost model', () => {
+    const original = process.env.HELIUS_CREDIT_COSTS;
+
+    afterEach(() => {
+      if (original === undefined) delete process.env.HELIUS_CREDIT_COSTS;
+      else process.env.HELIUS_CREDIT_COSTS = original;
+    });
+
+    it('charges a call from the cost table even when it fails', async () => {
+      const ledger = createLedger();
+
+      await expect(ledger.spend('API', 'addressTransactions', 'wallet1', () => Promise.reject(new Error('429')))).rejects.toThrow('429');
+
+      expect(ledger.summarize('endpoint').groups).toEqual([
+        { key: 'GET /v0/addresses/:address/transactions', credits: 100, operations: 1 }
+      ]);
+    });
+
+    it('takes valid per-method overrides and ignores the rest', () => {
+      process.env.HELIUS_CREDIT_COSTS = 'addressTransactions=50, tokenHolders=-1,bogus=5,accounts=abc';
+
+      jest.isolateModules(() => {
+        const { HELIUS_METHOD_COSTS, creditCost } = require('../src/config/helius-costs.config');
+
+        expect(HELIUS_METHOD_COSTS.addressTransactions.credits).toBe(50);
+        expect(HELIUS_METHOD_COSTS.tokenHolders.credits).toBe(10);
+        expect(HELIUS_METHOD_COSTS.accounts.credits).toBe(1);
+        expect(HELIUS_METHOD_COSTS).not.toHaveProperty('bogus');
+        expect(creditCost(['accounts', 'tokenAccounts', 'addressTransactions'])).toBe(52);
+      });
+    });
+  });
+
+  describe('forecast', () => {
+    it('projects the month from the burn rate since the first entry', () => {
+      const ledger = createLedger();
+      jest.setSystemTime(new Date('2026-03-13T12:00:00Z'));
+      ledger.record('TRACKING', 'POST /v0/accounts', null, 100);
+      jest.setSystemTime(new Date('2026-03-15T12:00:00Z'));
+
+      const forecast = ledger.forecast();
+
+      // 100 credits over 2 days, 16.5 days left until April
+      expect(forecast).toMatchObject({ windowDays: 2, burnRatePerDay: 50, projectedMonthlyUsage: 925, budget: 1000 });
+      expect(forecast.exhaustionDate).toBe('2026-04-02T12:00:00.000Z');
+      expect(forecast.exhaustsBeforeReset).toBe(false);
+      expect(forecast.categories.TRACKING.exhaustsBeforeReset).toBe(true);
+    });
+
+    it('reports no exhaustion while nothing is spent', () => {
+      const forecast = createLedger().forecast();
+
+      expect(forecast).toMatchObject({ burnRatePerDay: 0, exhaustionDate: null, exhaustsBeforeReset: false });
+    });
+  });
+});
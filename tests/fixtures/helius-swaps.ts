@@ -0,0 +1,167 @@
+// tests/fixtures/helius-swaps.ts - RECORDED HELIUS ENHANCED SWAP TRANSACTIONS (TRIMMED)
+// Unused fields (instructions, accountData, events) are dropped; transfers are as Helius reported them
+
+export const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+export const POOL = '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2';
+export const FEE_ACCOUNT = '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5';
+
+export const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+export const WIF = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+export const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// 10 USDC -> 1,000,000 BONK
+export const BUY_BONK_WITH_USDC = {
+  description: `${WALLET} swapped 10 USDC for 1000000 Bonk`,
+  type: 'SWAP',
+  source: 'JUPITER',
+  fee: 5000,
+  feePayer: WALLET,
+  signature: '4Mq1Lv6XhCqGz8c9kR3Zp2VnYb7sWd5TfJ8aHeUoKiN1xQmErPyDtBgSwLcA6ZvFjHu9nX3kYp2VqRs7TdWe5fGh',
+  slot: 265012345,
+  timestamp: 1717000000,
+  tokenTransfers: [
+    {
+      fromTokenAccount: 'BQcdHdAQW1hczDbBi9hiegXAR7A98Q9jx3X3iBBBDiq4',
+      toTokenAccount: '6kWzrw6SvwEbMUhn6ZGLzpWLPA4vD4jz4gkwEVAtxw8k',
+      fromUserAccount: WALLET,
+      toUserAccount: POOL,
+      tokenAmount: 10,
+      mint: USDC,
+      tokenStandard: 'Fungible'
+    },
+    {
+      fromTokenAccount: '8fUvGsQAwYzNAmKrmpKzgb3STDqyXZcNYJAtQFbJ3Hqr',
+      toTokenAccount: 'GYPYrZ5zNVxPUhqAfJXURVNp7c2d7KpgYX9dGTtgM4NW',
+      fromUserAccount: POOL,
+      toUserAccount: WALLET,
+      tokenAmount: 1000000,
+      mint: BONK,
+      tokenStandard: 'Fungible'
+    }
+  ],
+  nativeTransfers: [],
+  transactionError: null
+};
+
+// 2 SOL (native, plus a platform fee) -> 1,000,000 BONK
+export const BUY_BONK_WITH_NATIVE_SOL = {
+  description: `${WALLET} swapped 2 SOL for 1000000 Bonk`,
+  type: 'SWAP',
+  source: 'RAYDIUM',
+  fee: 5000,
+  feePayer: WALLET,
+  signature: '2bNf7QwXkLpR9sTu3VyZa4Cd6Eg8Hj1Km5Np7Qr9St2Uv4Wx6Yz8Ab3Cd5Ef7Gh9Jk2Lm4Np6Qr8St1Uv3Wx5Yz',
+  slot: 265098765,
+  timestamp: 1717003600,
+  tokenTransfers: [
+    {
+      fromTokenAccount: '8fUvGsQAwYzNAmKrmpKzgb3STDqyXZcNYJAtQFbJ3Hqr',
+      toTokenAccount: 'GYPYrZ5zNVxPUhqAfJXURVNp7c2d7KpgYX9dGTtgM4NW',
+      fromUserAccount: POOL,
+      toUserAccount: WALLET,
+      tokenAmount: 1000000,
+      mint: BONK,
+      tokenStandard: 'Fungible'
+    }
+  ],
+  nativeTransfers: [
+    { fromUserAccount: WALLET, toUserAccount: POOL, amount: 2000000000 },
+    { fromUserAccount: WALLET, toUserAccount: FEE_ACCOUNT, amount: 2039280 }
+  ],
+  transactionError: null
+};
+
+// 1,500,000 BONK -> 30 USDC: closes the first lot and half of the second
+export const SELL_BONK_FOR_USDC = {
+  description: `${WALLET} swapped 1500000 Bonk for 30 USDC`,
+  type: 'SWAP',
+  source: 'JUPITER',
+  fee: 5000,
+  feePayer: WALLET,
+  signature: '5cRt8YuIoPa2SdFg4HjKl6ZxCv8BnMq1We3Rt5Yu7Io9Pa2Sd4Fg6Hj8Kl1Zx3Cv5Bn7Mq9We2Rt4Yu6Io8Pa1S',
+  slot: 265187654,
+  timestamp: 1717007200,
+  tokenTransfers: [
+    {
+      fromTokenAccount: 'GYPYrZ5zNVxPUhqAfJXURVNp7c2d7KpgYX9dGTtgM4NW',
+      toTokenAccount: '8fUvGsQAwYzNAmKrmpKzgb3STDqyXZcNYJAtQFbJ3Hqr',
+      fromUserAccount: WALLET,
+      toUserAccount: POOL,
+      tokenAmount: 1500000,
+      mint: BONK,
+      tokenStandard: 'Fungible'
+    },
+    {
+      fromTokenAccount: '6kWzrw6SvwEbMUhn6ZGLzpWLPA4vD4jz4gkwEVAtxw8k',
+      toTokenAccount: 'BQcdHdAQW1hczDbBi9hiegXAR7A98Q9jx3X3iBBBDiq4',
+      fromUserAccount: POOL,
+      toUserAccount: WALLET,
+      tokenAmount: 30,
+      mint: USDC,
+      tokenStandard: 'Fungible'
+    }
+  ],
+  nativeTransfers: [],
+  transactionError: null
+};
+
+// 500,000 BONK -> 3 SOL received natively: closes the rest of the second lot
+export const SELL_BONK_FOR_NATIVE_SOL = {
+  description: `${WALLET} swapped 500000 Bonk for 3 SOL`,
+  type: 'SWAP',
+  source: 'RAYDIUM',
+  fee: 5000,
+  feePayer: WALLET,
+  signature: '3dEf5GhIj7KlMn9OpQr2StUv4WxYz6AbCd8EfGh1IjKl3MnOp5QrSt7UvWx9YzAb2CdEf4GhIj6KlMn8OpQr1StU',
+  slot: 265276543,
+  timestamp: 1717010800,
+  tokenTransfers: [
+    {
+      fromTokenAccount: 'GYPYrZ5zNVxPUhqAfJXURVNp7c2d7KpgYX9dGTtgM4NW',
+      toTokenAccount: '8fUvGsQAwYzNAmKrmpKzgb3STDqyXZcNYJAtQFbJ3Hqr',
+      fromUserAccount: WALLET,
+      toUserAccount: POOL,
+      tokenAmount: 500000,
+      mint: BONK,
+      tokenStandard: 'Fungible'
+    }
+  ],
+  nativeTransfers: [
+    { fromUserAccount: POOL, toUserAccount: WALLET, amount: 3000000000 }
+  ],
+  transactionError: null
+};
+
+// 200 WIF -> 50 USDC with no earlier WIF buy in the window
+export const SELL_WIF_WITHOUT_BUY = {
+  description: `${WALLET} swapped 200 dogwifhat for 50 USDC`,
+  type: 'SWAP',
+  source: 'ORCA',
+  fee: 5000,
+  feePayer: WALLET,
+  signature: '6hJk8LmNo1PqRs3TuVw5XyZa7BcDe9FgHi2JkLm4NoPq6RsTu8VwXy1ZaBc3DeFg5HiJk7LmNo9PqRs2TuVw4XyZ',
+  slot: 265365432,
+  timestamp: 1717014400,
+  tokenTransfers: [
+    {
+      fromTokenAccount: 'Dp3TzLBC4hNh3Q8TkVvMGKJ6wqkHmdSRGbr7N4fGiZQa',
+      toTokenAccount: 'F8rNXTVDstdkVHhdPUNHNSuWF8shXbNYJY7EPhNMYXsM',
+      fromUserAccount: WALLET,
+      toUserAccount: POOL,
+      tokenAmount: 200,
+      mint: WIF,
+      tokenStandard: 'Fungible'
+    },
+    {
+      fromTokenAccount: '6kWzrw6SvwEbMUhn6ZGLzpWLPA4vD4jz4gkwEVAtxw8k',
+      toTokenAccount: 'BQcdHdAQW1hczDbBi9hiegXAR7A98Q9jx3X3iBBBDiq4',
+      fromUserAccount: POOL,
+      toUserAccount: WALLET,
+      tokenAmount: 50,
+      mint: USDC,
+      tokenStandard: 'Fungible'
+    }
+  ],
+  nativeTransfers: [],
+  transactionError: null
+};
@@ -0,0 +1,120 @@
+// tests/heliusWebhook.service.test.ts - WEBHOOK AUTH, REDELIVERY DEDUPLICATION AND ADDRESS MAPPING
+import * as fs from 'fs';
+import * as path from 'path';
+import { HeliusWebhookService } from '../src/services/heliusWebhook.service';
+import { CreditLedger } from '../src/utils/credit-ledger';
+import { WALLET, POOL, FEE_ACCOUNT, BUY_BONK_WITH_USDC, BUY_BONK_WITH_NATIVE_SOL, SELL_BONK_FOR_USDC } from './fixtures/helius-swaps';
+import { useTempDir } from './helpers/temp-dir';
+
+const SECRET = 'whsec-test-7f3a';
+const OTHER_WHALE = 'GThUX1Atko4tqhN2NaiTazWSeFWMuiUvfFnyJyUghFMJ';
+
+// One Helius delivery, as posted to /api/webhooks/helius
+const DELIVERY = [BUY_BONK_WITH_USDC, BUY_BONK_WITH_NATIVE_SOL, SELL_BONK_FOR_USDC];
+
+describe('HeliusWebhookService', () => {
+  const workDir = useTempDir('webhook-test');
+
+  const createService = (secret: string = SECRET): HeliusWebhookService =>
+    new HeliusWebhookService('test-key', {} as CreditLedger, secret, undefined);
+
+  describe('verifyAuth', () => {
+    it('accepts the configured Authorization header', () => {
+      expect(createService().verifyAuth(SECRET)).toBe(true);
+    });
+
+    it('rejects a wrong, missing or differently sized header', () => {
+      const service = createService();
+
+      expect(service.verifyAuth('whsec-test-0000')).toBe(false);
+      expect(service.verifyAuth(undefined)).toBe(false);
+      expect(service.verifyAuth(`Bearer ${SECRET}`)).toBe(false);
+    });
+
+    it('rejects everything when no secret is configured', () => {
+      const service = createService('');
+
+      expect(service.isConfigured()).toBe(false);
+      expect(service.verifyAuth('')).toBe(false);
+    });
+  });
+
+  describe('duplicate deliveries', () => {
+    it('drops a redelivery once its transactions were marked seen', () => {
+      const service = createService();
+
+      const first = service.filterNew(DELIVERY);
+      service.markSeen(first.map(tx => tx.signature));
+
+      expect(first).toHaveLength(3);
+      expect(service.filterNew(DELIVERY)).toEqual([]);
+    });
+
+    it('drops a redelivery that overlaps the first one still being ingested', () => {
+      const service = createService();
+
+      const first = service.filterNew(DELIVERY);
+      const overlapping = service.filterNew([...DELIVERY].reverse());
+
+      expect(first).toHaveLength(3);
+      expect(overlapping).toEqual([]);
+
+      service.markSeen(first.map(tx => tx.signature));
+      expect(service.filterNew(DELIVERY)).toEqual([]);
+    });
+
+    it('lets a redelivery through once a failed ingestion released it', () => {
+      const service = createService();
+
+      service.filterNew(DELIVERY);
+      service.markSeen([BUY_BONK_WITH_USDC.signature]);
+      service.release([BUY_BONK_WITH_NATIVE_SOL.signature, SELL_BONK_FOR_USDC.signature]);
+
+      // The other two failed to ingest, so Helius retrying them must get them processed
+      expect(service.filterNew(DELIVERY).map(tx => tx.signature)).toEqual([
+        BUY_BONK_WITH_NATIVE_SOL.signature,
+        SELL_BONK_FOR_USDC.signature
+      ]);
+    });
+
+    it('drops repeats within one delivery and entries without a signature', () => {
+      const service = createService();
+
+      const fresh = service.filterNew([BUY_BONK_WITH_USDC, BUY_BONK_WITH_USDC, { ...SELL_BONK_FOR_USDC, signature: undefined }]);
+
+      expect(fresh).toEqual([BUY_BONK_WITH_USDC]);
+    });
+
+    it('writes seen signatures on flush, not on every delivery', () => {
+      const service = createService();
+      const seenFile = path.join(workDir(), 'data', 'webhook-signatures.json');
+
+      service.markSeen(DELIVERY.map(tx => tx.signature));
+      expect(fs.existsSync(seenFile)).toBe(false);
+
+      service.flush();
+      expect(createService().filterNew(DELIVERY)).toEqual([]);
+    });
+  });
+
+  describe('affectedAddresses', () => {
+    it('maps a transaction to the tracked wallets in its transfers', () => {
+      const service = createService();
+      const tracked = new Set([WALLET, OTHER_WHALE]);
+
+      expect(service.affectedAddresses(BUY_BONK_WITH_USDC, tracked)).toEqual([WALLET]);
+      expect(service.affectedAddresses(BUY_BONK_WITH_NATIVE_SOL, new Set([FEE_ACCOUNT]))).toEqual([FEE_ACCOUNT]);
+    });
+
+    it('finds a tracked wallet that only shows up in accountData', () => {
+      const service = createService();
+      const tx = { ...SELL_BONK_FOR_USDC, accountData: [{ account: OTHER_WHALE, nativeBalanceChange: 0, tokenBalanceChanges: [] }] };
+
+      expect(service.affectedAddresses(tx, new Set([OTHER_WHALE, POOL]))).toEqual([POOL, OTHER_WHALE]);
+    });
+
+    it('returns nothing when no tracked wallet is involved', () => {
+      expect(createService().affectedAddresses(BUY_BONK_WITH_USDC, new Set([OTHER_WHALE]))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+// tests/helpers/temp-dir.ts - RUN EACH TEST IN A FRESH WORKING DIRECTORY
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Services keep their state under ./data, so every test gets its own empty cwd; returns the current one
+export const useTempDir = (prefix: string): (() => string) => {
+  const cwd = process.cwd();
+  let workDir = '';
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), `${prefix}-`));
+    process.chdir(workDir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  return () => workDir;
+};
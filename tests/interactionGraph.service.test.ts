@@ -0,0 +1,65 @@
+// tests/interactionGraph.service.test.ts - GRAPH EXPANSION BUDGET AND SERIALIZATION
+import { InteractionGraphService } from '../src/services/interactionGraph.service';
+import { WhaleDiscoveryService } from '../src/services/whaleDiscovery.service';
+import { ApiKeyService } from '../src/services/apiKeys.service';
+import { useTempDir } from './helpers/temp-dir';
+
+const ROOT = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+// Stands in for public RPC: counts scans and tracks how many overlap
+class FakeDiscovery {
+  scans: string[] = [];
+  active = 0;
+  maxActive = 0;
+
+  onObservations(): void {}
+
+  async collectCounterparties(address: string): Promise<[]> {
+    this.scans.push(address);
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    await new Promise(resolve => setImmediate(resolve));
+    this.active--;
+    return [];
+  }
+}
+
+describe('InteractionGraphService', () => {
+  useTempDir('graph-test');
+  let discovery: FakeDiscovery;
+  let service: InteractionGraphService;
+
+  beforeEach(() => {
+    discovery = new FakeDiscovery();
+    service = new InteractionGraphService(discovery as unknown as WhaleDiscoveryService);
+  });
+
+  it('runs concurrent expansions one after another, so a node is scanned once', async () => {
+    const [first, second] = await Promise.all([service.explore(ROOT, 1, 100), service.explore(ROOT, 1, 100)]);
+
+    expect(discovery.scans).toEqual([ROOT]);
+    expect(discovery.maxActive).toBe(1);
+    expect(first.requestsUsed).toBe(11);
+    expect(second.requestsUsed).toBe(0);
+  });
+
+  it('keeps serving after an expansion fails', async () => {
+    jest.spyOn(discovery, 'collectCounterparties').mockRejectedValueOnce(new Error('RPC down'));
+
+    await expect(service.explore(ROOT, 1, 100)).rejects.toThrow('RPC down');
+    await expect(service.explore(ROOT, 1, 100)).resolves.toMatchObject({ root: ROOT, requestsUsed: 11 });
+  });
+
+  it('answers from stored edges without scanning when the budget is 0', async () => {
+    const graph = await service.explore(ROOT, 1, 0);
+
+    expect(discovery.scans).toEqual([]);
+    expect(graph.truncated).toBe(true);
+  });
+
+  it('needs the refresh scope for a paid expansion', () => {
+    expect(ApiKeyService.requiredScope('GET', '/graph', { budget: '50' })).toBe('refresh');
+    expect(ApiKeyService.requiredScope('GET', '/graph', { budget: '0' })).toBe('read');
+    expect(ApiKeyService.requiredScope('GET', '/graph', {})).toBe('read');
+  });
+});
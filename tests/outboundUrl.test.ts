@@ -0,0 +1,48 @@
+// tests/outboundUrl.test.ts - ALERT TARGETS MUST NOT REACH INTERNAL SERVICES
+import { OutboundUrl } from '../src/utils/outbound-url';
+
+describe('OutboundUrl', () => {
+  describe('validate', () => {
+    it('accepts public http(s) URLs', () => {
+      expect(OutboundUrl.validate('https://hooks.example.com/whales')).toBeNull();
+      expect(OutboundUrl.validate('http://8.8.8.8:8080/alerts')).toBeNull();
+    });
+
+    it('rejects other protocols and non-URLs', () => {
+      expect(OutboundUrl.validate('ftp://example.com')).toBe('url must be an http(s) URL');
+      expect(OutboundUrl.validate('not a url')).toBe('url must be an http(s) URL');
+      expect(OutboundUrl.validate(42)).toBe('url must be an http(s) URL');
+    });
+
+    it.each([
+      'http://localhost:3000/api/keys',
+      'http://admin.localhost/',
+      'http://127.0.0.1/',
+      'http://2130706433/',           // 127.0.0.1 written as one number
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.1.2.3/',
+      'http://172.16.0.1/',
+      'http://172.31.255.255/',
+      'http://192.168.1.1/',
+      'http://0.0.0.0/',
+      'http://[::1]/',
+      'http://[fd00::1]/',
+      'http://[fe80::1]/',
+      'http://[::ffff:127.0.0.1]/'
+    ])('rejects %s', url => {
+      expect(OutboundUrl.validate(url)).toBe('url must not point at a loopback, link-local or private address');
+    });
+
+    it('does not block the public neighbours of private ranges', () => {
+      expect(OutboundUrl.validate('http://172.32.0.1/')).toBeNull();
+      expect(OutboundUrl.validate('http://11.0.0.1/')).toBeNull();
+      expect(OutboundUrl.validate('http://[2606:4700::1111]/')).toBeNull();
+    });
+  });
+
+  describe('lookup', () => {
+    it('refuses a name that resolves to a private address', async () => {
+      await expect(OutboundUrl.lookup('localhost', {})).rejects.toThrow(/resolves to private address/);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+// tests/pnlEngine.service.test.ts - SWAP PARSING + FIFO REALIZED PNL
+import { PnlEngine, PriceResolver } from '../src/services/pnlEngine.service';
+import { SOL_MINT } from '../src/config/tokens.config';
+import {
+  WALLET, BONK, WIF, USDC,
+  BUY_BONK_WITH_USDC, BUY_BONK_WITH_NATIVE_SOL, SELL_BONK_FOR_USDC, SELL_BONK_FOR_NATIVE_SOL, SELL_WIF_WITHOUT_BUY
+} from './fixtures/helius-swaps';
+
+// SOL at $100 and stables at $1; memecoins have no price, so their legs are valued by the quote side
+const PRICES: Record<string, number> = { [SOL_MINT]: 100, [USDC]: 1 };
+const resolvePrice: PriceResolver = mint => PRICES[mint] ?? null;
+
+// 2 SOL plus 0.00203928 SOL of fees, all native
+const NATIVE_BUY_COST = 2.00203928 * 100;
+
+describe('PnlEngine', () => {
+  const engine = new PnlEngine(resolvePrice);
+
+  describe('parseSwaps', () => {
+    it('returns trades oldest first, the way FIFO needs them', () => {
+      // Helius hands transactions back newest first
+      const trades = engine.parseSwaps([SELL_BONK_FOR_USDC, BUY_BONK_WITH_NATIVE_SOL, BUY_BONK_WITH_USDC], WALLET);
+
+      expect(trades.map(trade => trade.signature)).toEqual([
+        BUY_BONK_WITH_USDC.signature,
+        BUY_BONK_WITH_NATIVE_SOL.signature,
+        SELL_BONK_FOR_USDC.signature
+      ]);
+    });
+
+    it('reads a native SOL leg as wrapped SOL, fees included', () => {
+      const [trade] = engine.parseSwaps([BUY_BONK_WITH_NATIVE_SOL], WALLET);
+
+      expect(trade).toMatchObject({ side: 'BUY', inputMint: SOL_MINT, outputMint: BONK, outputAmount: 1000000 });
+      expect(trade.inputAmount).toBeCloseTo(2.00203928, 9);
+      expect(trade.valueUsd).toBeCloseTo(NATIVE_BUY_COST, 6);
+    });
+
+    it('values a sale by its quote leg', () => {
+      const [trade] = engine.parseSwaps([SELL_BONK_FOR_NATIVE_SOL], WALLET);
+
+      expect(trade).toMatchObject({ side: 'SELL', inputMint: BONK, inputAmount: 500000, outputMint: SOL_MINT });
+      expect(trade.valueUsd).toBeCloseTo(300, 6);
+    });
+
+    it('skips failed transactions and ones where the wallet is not a party', () => {
+      const failed = { ...BUY_BONK_WITH_USDC, transactionError: { InstructionError: [2, { Custom: 6001 }] } };
+
+      expect(engine.parseSwaps([failed], WALLET)).toEqual([]);
+      expect(engine.parseSwaps([BUY_BONK_WITH_USDC], 'Stranger1111111111111111111111111111111111')).toEqual([]);
+    });
+  });
+
+  describe('computeClosedPositions', () => {
+    const trades = engine.parseSwaps([BUY_BONK_WITH_USDC, BUY_BONK_WITH_NATIVE_SOL, SELL_BONK_FOR_USDC, SELL_BONK_FOR_NATIVE_SOL], WALLET);
+    const closed = engine.computeClosedPositions(trades);
+
+    it('closes a sale across several lots, oldest first', () => {
+      // 1,000,000 from the $10 lot and half of the native-SOL lot
+      const [partial] = closed;
+      const costBasis = 10 + NATIVE_BUY_COST / 2;
+
+      expect(partial.mint).toBe(BONK);
+      expect(partial.amount).toBe(1500000);
+      expect(partial.costBasisUsd).toBeCloseTo(costBasis, 6);
+      expect(partial.proceedsUsd).toBeCloseTo(30, 6);
+      expect(partial.realizedPnlUsd).toBeCloseTo(30 - costBasis, 6);
+      expect(partial.openedAt).toBe(BUY_BONK_WITH_USDC.timestamp);
+      expect(partial.closedAt).toBe(SELL_BONK_FOR_USDC.timestamp);
+    });
+
+    it('closes the remainder of a partly sold lot at its own cost', () => {
+      const [, remainder] = closed;
+
+      expect(closed).toHaveLength(2);
+      expect(remainder.amount).toBe(500000);
+      expect(remainder.costBasisUsd).toBeCloseTo(NATIVE_BUY_COST / 2, 6);
+      expect(remainder.realizedPnlUsd).toBeCloseTo(300 - NATIVE_BUY_COST / 2, 6);
+      expect(remainder.openedAt).toBe(BUY_BONK_WITH_NATIVE_SOL.timestamp);
+    });
+
+    it('ignores a sale with no matching buy, since its cost basis is unknown', () => {
+      const [sale] = engine.parseSwaps([SELL_WIF_WITHOUT_BUY], WALLET);
+
+      expect(sale).toMatchObject({ side: 'SELL', inputMint: WIF, valueUsd: 50 });
+      expect(engine.computeClosedPositions([sale])).toEqual([]);
+    });
+
+    it('only counts the matched share of a sale larger than the open lots', () => {
+      const [buy, , sale] = trades;
+      const [position] = engine.computeClosedPositions([buy, sale]);
+
+      // 1,000,000 of the 1,500,000 sold had a lot behind it
+      expect(position.amount).toBe(1000000);
+      expect(position.costBasisUsd).toBeCloseTo(10, 6);
+      expect(position.proceedsUsd).toBeCloseTo(20, 6);
+    });
+  });
+
+  describe('analyze', () => {
+    it('measures the win rate from closed positions', () => {
+      const { stats } = engine.analyze([SELL_BONK_FOR_NATIVE_SOL, SELL_BONK_FOR_USDC, BUY_BONK_WITH_NATIVE_SOL, BUY_BONK_WITH_USDC], WALLET);
+
+      expect(stats.closedTrades).toBe(2);
+      expect(stats.profitableTrades).toBe(1);
+      expect(stats.winRate).toBe(50);
+      expect(stats.provenance.winRate.provenance).toBe('MEASURED');
+      expect(stats.lastActiveDate).toBe(new Date(SELL_BONK_FOR_NATIVE_SOL.timestamp * 1000).toISOString());
+    });
+
+    it('defaults the win rate when nothing was closed', () => {
+      const { stats, closedPositions } = engine.analyze([BUY_BONK_WITH_NATIVE_SOL, BUY_BONK_WITH_USDC, SELL_WIF_WITHOUT_BUY], WALLET);
+
+      expect(closedPositions).toEqual([]);
+      expect(stats.successfulTrades).toBe(3);
+      expect(stats.winRate).toBe(0);
+      expect(stats.avgProfitLoss).toBe(0);
+      expect(stats.provenance.winRate).toEqual({ provenance: 'DEFAULTED', confidence: 0 });
+      expect(stats.provenance.avgProfitLoss.provenance).toBe('DEFAULTED');
+      expect(stats.provenance.successfulTrades.provenance).toBe('MEASURED');
+    });
+  });
+});
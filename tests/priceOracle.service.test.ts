@@ -0,0 +1,172 @@
+// tests/priceOracle.service.test.ts - MEDIAN AGGREGATION, OUTLIERS AND CACHING WITH FAKE PROVIDERS
+import { PriceOracle } from '../src/services/priceOracle.service';
+import { PriceProvider } from '../src/services/priceProviders';
+import { SOL_MINT, USDC_MINT } from '../src/config/tokens.config';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const JUNK = 'JunkMint11111111111111111111111111111111111';
+
+// Answers from a fixed table and records every lookup
+class FakePriceProvider implements PriceProvider {
+  calls: string[][] = [];
+
+  constructor(public name: string, public prices: Record<string, number>, private failure: Error | null = null) {}
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    this.calls.push(mints);
+    if (this.failure) throw this.failure;
+
+    const prices = new Map<string, number>();
+    mints.filter(mint => this.prices[mint] !== undefined).forEach(mint => prices.set(mint, this.prices[mint]));
+    return prices;
+  }
+}
+
+const MINUTE = 60000;
+
+describe('PriceOracle', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('aggregation', () => {
+    it('takes the median of every source', async () => {
+      const oracle = new PriceOracle([
+        new FakePriceProvider('a', { [SOL_MINT]: 150 }),
+        new FakePriceProvider('b', { [SOL_MINT]: 152 }),
+        new FakePriceProvider('c', { [SOL_MINT]: 151 })
+      ]);
+
+      const quote = (await oracle.getPrices([SOL_MINT])).get(SOL_MINT)!;
+
+      expect(quote.priceUsd).toBe(151);
+      expect(quote.sources).toEqual(['a', 'b', 'c']);
+      expect(quote.rejectedSources).toEqual([]);
+    });
+
+    it('averages the middle pair for an even number of sources', async () => {
+      const oracle = new PriceOracle([
+        new FakePriceProvider('a', { [SOL_MINT]: 150 }),
+        new FakePriceProvider('b', { [SOL_MINT]: 152 })
+      ]);
+
+      expect(await oracle.getPrice(SOL_MINT)).toBe(151);
+    });
+
+    it('rejects a source too far from the median and recomputes it', async () => {
+      const oracle = new PriceOracle([
+        new FakePriceProvider('a', { [SOL_MINT]: 150 }),
+        new FakePriceProvider('b', { [SOL_MINT]: 152 }),
+        new FakePriceProvider('c', { [SOL_MINT]: 151 }),
+        new FakePriceProvider('broken', { [SOL_MINT]: 15.1 })
+      ]);
+
+      const quote = (await oracle.getPrices([SOL_MINT])).get(SOL_MINT)!;
+
+      expect(quote.priceUsd).toBe(151);
+      expect(quote.sources).toEqual(['a', 'b', 'c']);
+      expect(quote.rejectedSources).toEqual(['broken']);
+    });
+
+    it('keeps every sample when no two sources agree', () => {
+      const result = PriceOracle.aggregate([{ source: 'a', price: 100 }, { source: 'b', price: 200 }], 0.1);
+
+      expect(result).toEqual({ price: 150, accepted: ['a', 'b'], rejected: [] });
+    });
+
+    it('prices from the remaining sources when one fails', async () => {
+      const oracle = new PriceOracle([
+        new FakePriceProvider('a', { [SOL_MINT]: 150 }),
+        new FakePriceProvider('down', {}, new Error('ECONNRESET'))
+      ]);
+
+      expect(await oracle.getPrice(SOL_MINT)).toBe(150);
+      expect(oracle.getStatus().providers.find((provider: any) => provider.name === 'down')).toMatchObject({
+        errorCount: 1,
+        lastErrorMessage: 'ECONNRESET'
+      });
+    });
+
+    it('falls back to the peg for a stablecoin nobody prices', async () => {
+      const oracle = new PriceOracle([new FakePriceProvider('down', {}, new Error('timeout'))]);
+
+      const quote = (await oracle.getPrices([USDC_MINT])).get(USDC_MINT)!;
+
+      expect(quote.priceUsd).toBe(1);
+      expect(quote.sources).toEqual(['peg']);
+    });
+  });
+
+  describe('caching', () => {
+    it('keeps a price for the TTL, per mint', async () => {
+      const provider = new FakePriceProvider('a', { [SOL_MINT]: 150, [BONK]: 0.00002 });
+      const oracle = new PriceOracle([provider]);
+
+      await oracle.getPrices([SOL_MINT]);
+      jest.advanceTimersByTime(3 * MINUTE);
+      await oracle.getPrices([SOL_MINT, BONK]);
+
+      // SOL was still fresh, so only BONK was looked up
+      expect(provider.calls).toEqual([[SOL_MINT], [BONK]]);
+
+      jest.advanceTimersByTime(3 * MINUTE);
+      await oracle.getPrices([SOL_MINT, BONK]);
+
+      // Six minutes in: SOL's 5-minute TTL has run out, BONK's has not
+      expect(provider.calls[2]).toEqual([SOL_MINT]);
+    });
+
+    it('marks a quote stale once it outlives PRICE_STALE_AFTER', async () => {
+      const provider = new FakePriceProvider('a', { [SOL_MINT]: 150 });
+      const oracle = new PriceOracle([provider]);
+
+      await oracle.getPrices([SOL_MINT]);
+      jest.advanceTimersByTime(14 * MINUTE);
+      expect(oracle.getQuote(SOL_MINT)).toMatchObject({ stale: false, ageMs: 14 * MINUTE });
+
+      jest.advanceTimersByTime(2 * MINUTE);
+      expect(oracle.getQuote(SOL_MINT)).toMatchObject({ priceUsd: 150, stale: true });
+    });
+
+    it('keeps the last price when a refresh finds nothing', async () => {
+      const provider = new FakePriceProvider('a', { [SOL_MINT]: 150 });
+      const oracle = new PriceOracle([provider]);
+
+      await oracle.getPrices([SOL_MINT]);
+      provider.prices = {};
+      jest.advanceTimersByTime(6 * MINUTE);
+
+      expect(await oracle.getPrice(SOL_MINT)).toBe(150);
+    });
+
+    it('does not ask again for a mint nobody could price until the miss expires', async () => {
+      const provider = new FakePriceProvider('a', { [SOL_MINT]: 150 });
+      const oracle = new PriceOracle([provider]);
+
+      expect(await oracle.getPrice(JUNK)).toBeNull();
+      jest.advanceTimersByTime(30000);
+      await oracle.getPrices([JUNK, SOL_MINT]);
+
+      expect(provider.calls).toEqual([[JUNK], [SOL_MINT]]);
+
+      jest.advanceTimersByTime(MINUTE);
+      await oracle.getPrices([JUNK]);
+
+      expect(provider.calls[2]).toEqual([JUNK]);
+    });
+
+    it('drops cached prices when the providers are swapped', async () => {
+      const oracle = new PriceOracle([new FakePriceProvider('a', { [SOL_MINT]: 150 })]);
+      await oracle.getPrices([SOL_MINT]);
+
+      oracle.setProviders([new FakePriceProvider('b', { [SOL_MINT]: 160 })]);
+
+      expect(oracle.getQuote(SOL_MINT)).toBeNull();
+      expect(await oracle.getPrice(SOL_MINT)).toBe(160);
+    });
+  });
+});
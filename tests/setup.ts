@@ -0,0 +1,5 @@
+// tests/setup.ts - SHARED JEST SETUP
+// The logger writes to logs/ on every call; tests don't need it
+jest.mock('../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
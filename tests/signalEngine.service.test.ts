@@ -0,0 +1,117 @@
+// tests/signalEngine.service.test.ts - CONSENSUS THRESHOLDS, WINDOW AND CLUSTER DEDUP
+import * as path from 'path';
+import { SignalEngine } from '../src/services/signalEngine.service';
+import { TradeStorage } from '../src/utils/trade-storage';
+import { JsonStorageBackend } from '../src/utils/json-backend';
+import { SwapTrade, WhaleWallet } from '../src/types/whale.types';
+import { useTempDir } from './helpers/temp-dir';
+
+const WHALES = [
+  '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+  'GThUX1Atko4tqhN2NaiTazWSeFWMuiUvfFnyJyUghFMJ',
+  '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+  '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2'
+];
+const STRANGER = '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const T0 = 1717000000;
+const MINUTE = 60;
+
+const buy = (wallet: string, timestamp: number, valueUsd: number = 5000): SwapTrade => ({
+  signature: `sig-${wallet.substring(0, 6)}-${timestamp}`,
+  slot: timestamp,
+  timestamp,
+  wallet,
+  side: 'BUY',
+  inputMint: USDC,
+  inputAmount: valueUsd,
+  outputMint: BONK,
+  outputAmount: valueUsd * 50000,
+  valueUsd
+});
+
+const tracking = (category: WhaleWallet['category'] = 'WHALE'): Map<string, WhaleWallet> =>
+  new Map(WHALES.map(address => [address, { address, category } as WhaleWallet]));
+
+describe('SignalEngine', () => {
+  const workDir = useTempDir('signals-test');
+  let trades: TradeStorage;
+
+  beforeEach(() => {
+    trades = new TradeStorage(new JsonStorageBackend(path.join(workDir(), 'data')));
+  });
+
+  // Stores the trades, then runs them through the engine the way the tracking cycle does
+  const feed = (engine: SignalEngine, batch: SwapTrade[], wallets: Map<string, WhaleWallet> = tracking()) =>
+    engine.processTrades(trades.addTrades(batch), wallets);
+
+  it('raises a signal once three whales buy the same token within the window', () => {
+    const engine = new SignalEngine(trades);
+
+    expect(feed(engine, [buy(WHALES[0], T0), buy(WHALES[1], T0 + 10 * MINUTE)])).toEqual([]);
+    const [signal] = feed(engine, [buy(WHALES[2], T0 + 20 * MINUTE)]);
+
+    expect(signal).toMatchObject({ mint: BONK, direction: 'BUY', walletCount: 3, weightedCount: 3, totalSizeUsd: 15000 });
+    expect(signal.firstTradeAt).toBe(T0);
+    expect(signal.lastTradeAt).toBe(T0 + 20 * MINUTE);
+  });
+
+  it('ignores trades outside the window, below the size floor or from untracked wallets', () => {
+    const engine = new SignalEngine(trades);
+
+    const changed = feed(engine, [
+      buy(WHALES[0], T0),
+      buy(WHALES[1], T0 + 61 * MINUTE),
+      buy(WHALES[2], T0 + 62 * MINUTE, 999),
+      buy(STRANGER, T0 + 63 * MINUTE)
+    ]);
+
+    expect(changed).toEqual([]);
+    expect(engine.getSignals()).toEqual([]);
+  });
+
+  it('extends an open signal instead of opening a second one', () => {
+    const engine = new SignalEngine(trades);
+    const [opened] = feed(engine, [buy(WHALES[0], T0), buy(WHALES[1], T0 + MINUTE), buy(WHALES[2], T0 + 2 * MINUTE)]);
+
+    const [extended] = feed(engine, [buy(WHALES[3], T0 + 30 * MINUTE)]);
+
+    expect(extended.id).toBe(opened.id);
+    expect(extended.walletCount).toBe(4);
+    expect(engine.getSignals()).toHaveLength(1);
+  });
+
+  it('counts wallets of one cluster as a single participant', () => {
+    const cluster = new Set([WHALES[0], WHALES[1]]);
+    const engine = new SignalEngine(trades, address => cluster.has(address) ? 'cluster_1' : null);
+
+    expect(feed(engine, [buy(WHALES[0], T0), buy(WHALES[1], T0 + MINUTE), buy(WHALES[2], T0 + 2 * MINUTE)])).toEqual([]);
+
+    const [signal] = feed(engine, [buy(WHALES[3], T0 + 3 * MINUTE)]);
+    const merged = signal.participants.find(participant => participant.clusterId === 'cluster_1');
+
+    expect(signal.walletCount).toBe(3);
+    expect(merged).toMatchObject({ trades: 2, sizeUsd: 10000 });
+    expect(merged?.addresses?.sort()).toEqual([WHALES[0], WHALES[1]].sort());
+  });
+
+  it('lets bigger whales count for more with category weighting', () => {
+    const engine = new SignalEngine(trades);
+    engine.config.weighting = 'category';
+
+    const [signal] = feed(engine, [buy(WHALES[0], T0), buy(WHALES[1], T0 + MINUTE)], tracking('MEGA_WHALE'));
+
+    expect(signal).toMatchObject({ walletCount: 2, weightedCount: 4 });
+  });
+
+  it('never forms a signal on a quote asset', () => {
+    const engine = new SignalEngine(trades);
+
+    const [signal] = feed(engine, WHALES.slice(0, 3).map((wallet, i) => buy(wallet, T0 + i * MINUTE)));
+
+    expect(signal.mint).toBe(BONK);
+    expect(engine.getSignals({ mint: USDC })).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+// tests/sqliteBackend.test.ts - SCHEMA MIGRATIONS AND THE ONE-TIME JSON IMPORT
+import * as path from 'path';
+import { SqliteStorageBackend } from '../src/utils/sqlite-backend';
+import { JsonStorageBackend } from '../src/utils/json-backend';
+import { SQLITE_MIGRATIONS } from '../src/utils/sqlite-migrations';
+import { SwapTrade, WhaleWallet } from '../src/types/whale.types';
+import { useTempDir } from './helpers/temp-dir';
+
+const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+const whale = { address: WALLET, category: 'WHALE', source: 'HELIUS_FREE', enabled: true, lastUpdated: '2026-01-01T00:00:00.000Z' } as WhaleWallet;
+const trade: SwapTrade = {
+  signature: 'sig1',
+  slot: 1,
+  timestamp: 1717000000,
+  wallet: WALLET,
+  side: 'BUY',
+  inputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  inputAmount: 10,
+  outputMint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+  outputAmount: 1000000,
+  valueUsd: 10
+};
+
+describe('SqliteStorageBackend', () => {
+  const workDir = useTempDir('sqlite-test');
+  const dataDir = () => path.join(workDir(), 'data');
+  const open = (): SqliteStorageBackend => new SqliteStorageBackend(path.join(dataDir(), 'whales.db'), dataDir());
+  const latest = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+
+  describe('migrations', () => {
+    // Appends a migration for one test; the list is append-only in the real code too
+    const withMigration = (sql: string, run: () => void): void => {
+      SQLITE_MIGRATIONS.push({ version: latest + 1, name: 'test migration', sql });
+      try {
+        run();
+      } finally {
+        SQLITE_MIGRATIONS.pop();
+      }
+    };
+
+    it('creates the schema on a new database', () => {
+      expect(open().getStats()).toMatchObject({
+        schemaVersion: latest,
+        rows: { whales: 0, labels: 0, snapshots: 0, trades: 0, creditLedger: 0 }
+      });
+    });
+
+    it('runs each migration once and keeps the data across restarts', () => {
+      open().saveWhales([whale]);
+
+      const reopened = open();
+
+      expect(reopened.getStats().schemaVersion).toBe(latest);
+      expect(reopened.loadWhales()).toEqual([whale]);
+    });
+
+    it('applies a new migration to an existing database', () => {
+      open().saveWhales([whale]);
+
+      withMigration('ALTER TABLE whales ADD COLUMN nickname TEXT;', () => {
+        const migrated = open();
+
+        expect(migrated.getStats().schemaVersion).toBe(latest + 1);
+        expect(migrated.loadWhales()).toEqual([whale]);
+      });
+    });
+
+    it('rolls a failing migration back and tries it again on the next start', () => {
+      open();
+
+      withMigration('CREATE TABLE partial (id INTEGER); INSERT INTO missing_table VALUES (1);', () => {
+        expect(() => open()).toThrow(/no such table: missing_table/);
+      });
+
+      // Nothing of the failed migration was kept, so the fixed one can create the same table
+      withMigration('CREATE TABLE partial (id INTEGER);', () => {
+        expect(open().getStats().schemaVersion).toBe(latest + 1);
+      });
+    });
+  });
+
+  describe('JSON import', () => {
+    it('copies what the JSON backend left behind, once', () => {
+      const json = new JsonStorageBackend(dataDir());
+      json.saveWhales([whale]);
+      json.updateTrades([trade], []);
+      json.appendLedger({ category: 'TRACKING', endpoint: 'POST /v0/accounts', wallet: WALLET, credits: 1, timestamp: '2026-01-01T00:00:00.000Z' });
+
+      const first = open();
+      expect(first.getStats()).toMatchObject({
+        rows: { whales: 1, trades: 1, creditLedger: 1 },
+        importedFromJson: { whales: 1, trades: 1, ledger: 1 }
+      });
+
+      // The JSON ledger still holds the entry, so a second import would bring it back
+      first.pruneLedger('2027-01-01T00:00:00.000Z');
+      expect(open().getStats().rows.creditLedger).toBe(0);
+    });
+  });
+
+  describe('trades', () => {
+    it('keeps one row per (signature, wallet)', () => {
+      const backend = open();
+      backend.updateTrades([trade, { ...trade, valueUsd: 99 }, { ...trade, wallet: 'GThUX1Atko4tqhN2NaiTazWSeFWMuiUvfFnyJyUghFMJ' }], []);
+
+      expect(backend.loadTrades().map(stored => [stored.wallet, stored.valueUsd])).toEqual([
+        [WALLET, 10],
+        ['GThUX1Atko4tqhN2NaiTazWSeFWMuiUvfFnyJyUghFMJ', 10]
+      ]);
+    });
+  });
+});
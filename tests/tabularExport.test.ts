@@ -0,0 +1,85 @@
+// tests/tabularExport.test.ts - FLATTENING, CSV ESCAPING AND NDJSON LINES
+import { TabularExport } from '../src/utils/tabular-export';
+
+const WALLET = {
+  address: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+  label: 'Fund "A", desk 2',
+  notes: 'line one\nline two',
+  tags: ['smart', 'early'],
+  balance: { totalBalanceUsd: 1250000.5, tokens: [{ mint: 'BONK', amount: 1 }] },
+  stats: { winRate: 0.61, lastTradeAt: null, pending: undefined }
+};
+
+describe('TabularExport', () => {
+  describe('flatten', () => {
+    it('turns nested objects into dotted columns and joins plain arrays', () => {
+      expect(TabularExport.flatten(WALLET)).toEqual({
+        address: WALLET.address,
+        label: 'Fund "A", desk 2',
+        notes: 'line one\nline two',
+        tags: 'smart;early',
+        'balance.totalBalanceUsd': 1250000.5,
+        'balance.tokens': '[{"mint":"BONK","amount":1}]',
+        'stats.winRate': 0.61,
+        'stats.lastTradeAt': null
+      });
+    });
+
+    it('collects the columns of every row and picks nested groups by prefix', () => {
+      const columns = TabularExport.columnsOf([{ a: 1 }, { b: 2, 'stats.winRate': 0.5, 'stats.pnl': 3 }]);
+
+      expect(columns).toEqual(['a', 'b', 'stats.winRate', 'stats.pnl']);
+      expect(TabularExport.pickColumns(columns, ['stats', 'a', 'missing'])).toEqual({
+        columns: ['stats.winRate', 'stats.pnl', 'a'],
+        unknown: ['missing']
+      });
+    });
+  });
+
+  describe('csv', () => {
+    const csv = (rows: object[], columns?: string[]): string => {
+      const flat = rows.map(row => TabularExport.flatten(row));
+      return [...TabularExport.lines('csv', flat, columns ?? TabularExport.columnsOf(flat))].join('');
+    };
+
+    it('quotes cells with commas, quotes and newlines', () => {
+      expect(csv([WALLET], ['label', 'notes', 'tags', 'stats.lastTradeAt'])).toBe(
+        'label,notes,tags,stats.lastTradeAt\r\n'
+        + '"Fund ""A"", desk 2","line one\nline two",smart;early,\r\n'
+      );
+    });
+
+    it('keeps nested arrays as a single quoted JSON cell', () => {
+      expect(csv([WALLET], ['balance.tokens'])).toBe('balance.tokens\r\n"[{""mint"":""BONK"",""amount"":1}]"\r\n');
+    });
+
+    it('defuses text a spreadsheet would run as a formula', () => {
+      expect(csv([{ label: '=HYPERLINK("x")' }, { label: '-5' }, { label: 5 }])).toBe(
+        'label\r\n"\'=HYPERLINK(""x"")"\r\n\'-5\r\n5\r\n'
+      );
+    });
+
+    it('leaves a cell empty where a row lacks the column', () => {
+      expect(csv([{ a: 1 }, { b: 2 }])).toBe('a,b\r\n1,\r\n,2\r\n');
+    });
+  });
+
+  describe('ndjson', () => {
+    it('yields one parseable line per row, with every column present', () => {
+      const rows = [{ a: 1, b: 'x\ny' }, { a: 2 }].map(row => TabularExport.flatten(row));
+
+      const lines = [...TabularExport.lines('ndjson', rows, ['a', 'b'])];
+
+      expect(lines).toEqual(['{"a":1,"b":"x\\ny"}\n', '{"a":2,"b":null}\n']);
+      expect(lines.map(line => JSON.parse(line))).toEqual([{ a: 1, b: 'x\ny' }, { a: 2, b: null }]);
+    });
+
+    it('produces lines lazily so large exports are written as they go', () => {
+      const rows = Array.from({ length: 3 }, (_, i) => ({ i }));
+      const generator = TabularExport.lines('ndjson', rows, ['i']);
+
+      expect(generator.next()).toEqual({ value: '{"i":0}\n', done: false });
+      expect([...generator]).toEqual(['{"i":1}\n', '{"i":2}\n']);
+    });
+  });
+});
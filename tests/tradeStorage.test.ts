@@ -0,0 +1,116 @@
+// tests/tradeStorage.test.ts - IDEMPOTENT TRADE WRITES AND CURSOR PAGING
+import * as path from 'path';
+import { TradeStorage } from '../src/utils/trade-storage';
+import { JsonStorageBackend } from '../src/utils/json-backend';
+import { SwapTrade } from '../src/types/whale.types';
+import { useTempDir } from './helpers/temp-dir';
+
+const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const OTHER_WALLET = 'GThUX1Atko4tqhN2NaiTazWSeFWMuiUvfFnyJyUghFMJ';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const trade = (signature: string, timestamp: number, overrides: Partial<SwapTrade> = {}): SwapTrade => ({
+  signature,
+  slot: timestamp,
+  timestamp,
+  wallet: WALLET,
+  side: 'BUY',
+  inputMint: USDC,
+  inputAmount: 10,
+  outputMint: BONK,
+  outputAmount: 1000000,
+  valueUsd: 10,
+  ...overrides
+});
+
+describe('TradeStorage', () => {
+  const workDir = useTempDir('trades-test');
+  const createStorage = (): TradeStorage => new TradeStorage(new JsonStorageBackend(path.join(workDir(), 'data')));
+
+  describe('addTrades', () => {
+    it('keeps one trade per (signature, wallet)', () => {
+      const storage = createStorage();
+
+      expect(storage.addTrades([trade('sig1', 100), trade('sig2', 200)])).toHaveLength(2);
+      expect(storage.addTrades([trade('sig1', 100, { valueUsd: 99 }), trade('sig3', 300)]).map(added => added.signature)).toEqual(['sig3']);
+      expect(storage.getStats().totalTrades).toBe(3);
+    });
+
+    it('stores the same signature once for each wallet it touched', () => {
+      const storage = createStorage();
+
+      const added = storage.addTrades([trade('sig1', 100), trade('sig1', 100, { wallet: OTHER_WALLET, side: 'SELL' })]);
+
+      expect(added).toHaveLength(2);
+      expect(storage.query({ wallet: OTHER_WALLET }).trades.map(stored => stored.side)).toEqual(['SELL']);
+    });
+
+    it('stays idempotent across a restart', () => {
+      const storage = createStorage();
+      storage.addTrades([trade('sig1', 100)]);
+      storage.flush();
+
+      const restarted = createStorage();
+
+      expect(restarted.addTrades([trade('sig1', 100)])).toEqual([]);
+      expect(restarted.getStats().totalTrades).toBe(1);
+    });
+  });
+
+  describe('query', () => {
+    it('pages newest first with a cursor, without gaps or repeats', () => {
+      const storage = createStorage();
+      storage.addTrades([1, 2, 3, 4, 5].map(n => trade(`sig${n}`, n * 100)));
+
+      const first = storage.query({ limit: 2 });
+      const second = storage.query({ limit: 2, cursor: first.nextCursor as string });
+      const last = storage.query({ limit: 2, cursor: second.nextCursor as string });
+
+      expect(first.trades.map(stored => stored.signature)).toEqual(['sig5', 'sig4']);
+      expect(second.trades.map(stored => stored.signature)).toEqual(['sig3', 'sig2']);
+      expect(last.trades.map(stored => stored.signature)).toEqual(['sig1']);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it('keeps a cursor stable when newer trades arrive between pages', () => {
+      const storage = createStorage();
+      storage.addTrades([1, 2, 3].map(n => trade(`sig${n}`, n * 100)));
+
+      const first = storage.query({ limit: 2 });
+      storage.addTrades([trade('sig9', 900)]);
+      const second = storage.query({ limit: 2, cursor: first.nextCursor as string });
+
+      expect(second.trades.map(stored => stored.signature)).toEqual(['sig1']);
+    });
+
+    it('orders trades in the same second by slot, then by key', () => {
+      const storage = createStorage();
+      storage.addTrades([trade('b', 100, { slot: 5 }), trade('a', 100, { slot: 5 }), trade('c', 100, { slot: 6 })]);
+
+      const pages = [storage.query({ limit: 1 })];
+      while (pages[pages.length - 1].nextCursor) {
+        pages.push(storage.query({ limit: 1, cursor: pages[pages.length - 1].nextCursor as string }));
+      }
+
+      expect(pages.map(page => page.trades[0].signature)).toEqual(['c', 'a', 'b']);
+    });
+  });
+
+  describe('cursors', () => {
+    it('accepts the cursors it hands out', () => {
+      const storage = createStorage();
+      storage.addTrades([trade('sig1', 100), trade('sig2', 200)]);
+
+      expect(TradeStorage.isValidCursor(storage.query({ limit: 1 }).nextCursor as string)).toBe(true);
+    });
+
+    it.each([
+      ['garbage', 'not-a-cursor'],
+      ['JSON that is not a cursor', Buffer.from('{"a":1}').toString('base64url')],
+      ['a non-numeric timestamp', Buffer.from('["100",1,"sig","wallet"]').toString('base64url')]
+    ])('rejects %s', (_, cursor) => {
+      expect(TradeStorage.isValidCursor(cursor)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+// tests/walletClustering.service.test.ts - PAIR COUNTERS STAY BOUNDED BY THE TRACKED SET
+import * as fs from 'fs';
+import * as path from 'path';
+import { WalletClusteringService } from '../src/services/walletClustering.service';
+import { WhaleDiscoveryService } from '../src/services/whaleDiscovery.service';
+import { CounterpartyObservation, WhaleWallet } from '../src/types/whale.types';
+import { useTempDir } from './helpers/temp-dir';
+
+const WHALE_A = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const WHALE_B = 'GThUX1Atko4tqhN2NaiTazWSeFWMuiUvfFnyJyUghFMJ';
+const WHALE_C = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const STRANGER = '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2';
+const OTHER_STRANGER = '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5';
+
+const whale = (address: string): WhaleWallet => ({
+  address,
+  balance: { sol: 1000, usdc: 0, totalTokensUsd: 0, totalBalanceUsd: 150000 },
+  stats: { winRate: 50, lastActiveDate: '2026-01-01T00:00:00.000Z' }
+} as WhaleWallet);
+
+const tracking = (...addresses: string[]): Map<string, WhaleWallet> => new Map(addresses.map(address => [address, whale(address)]));
+
+const transfer = (signature: string, from: string, to: string): CounterpartyObservation =>
+  ({ signature, wallet: from, timestamp: 1717000000, signers: [from], transfers: [{ from, to, lamports: 1000000000 }] });
+
+describe('WalletClusteringService', () => {
+  const workDir = useTempDir('clusters-test');
+  let service: WalletClusteringService;
+
+  beforeEach(() => {
+    service = new WalletClusteringService({} as WhaleDiscoveryService);
+  });
+
+  it('only counts pairs with a tracked side', () => {
+    const tracked = new Set([WHALE_A, WHALE_B]);
+
+    service.recordObservations([
+      transfer('sig1', WHALE_A, STRANGER),
+      transfer('sig2', STRANGER, OTHER_STRANGER),
+      { signature: 'sig3', wallet: STRANGER, timestamp: null, signers: [STRANGER, OTHER_STRANGER], transfers: [] }
+    ], tracked);
+
+    expect(service.getStats()).toMatchObject({ transferPairs: 1, cosignPairs: 0 });
+  });
+
+  it('links tracked wallets and prunes counters once both sides leave the tracked set', () => {
+    const tracked = new Set([WHALE_A, WHALE_B, WHALE_C]);
+    service.recordObservations([
+      { signature: 'sig1', wallet: WHALE_A, timestamp: null, signers: [WHALE_A, WHALE_B], transfers: [] },
+      transfer('sig2', WHALE_A, STRANGER),
+      transfer('sig3', WHALE_C, STRANGER)
+    ], tracked);
+
+    const [cluster] = service.rebuild(tracking(WHALE_A, WHALE_B, WHALE_C));
+    expect(cluster.members).toEqual([WHALE_A, WHALE_B].sort());
+
+    // A and B dropped out: their co-sign and A's transfer go, C's transfer stays
+    service.rebuild(tracking(WHALE_C));
+    expect(service.getStats()).toMatchObject({ clusters: 0, transferPairs: 1, cosignPairs: 0 });
+  });
+
+  it('keeps counters recorded between rebuilds once flushed', () => {
+    service.recordObservations([transfer('sig1', WHALE_A, STRANGER)], new Set([WHALE_A]));
+    service.flush();
+
+    const restarted = new WalletClusteringService({} as WhaleDiscoveryService);
+    expect(restarted.getStats()).toMatchObject({ transferPairs: 1 });
+  });
+
+  it('writes its state atomically', () => {
+    service.rebuild(tracking(WHALE_A));
+
+    expect(fs.readdirSync(path.join(workDir(), 'data'))).toEqual(['clusters.json']);
+  });
+});
@@ -0,0 +1,161 @@
+// tests/whaleSnapshots.test.ts - SNAPSHOT CHECKSUMS, ROTATION, DIFF AND RESTORE FALLBACK
+import * as fs from 'fs';
+import * as path from 'path';
+import { WhaleSnapshotStorage } from '../src/utils/snapshot-storage';
+import { WhaleStorage } from '../src/utils/storage';
+import { JsonStorageBackend } from '../src/utils/json-backend';
+import { StorageConfig } from '../src/config/storage.config';
+import { WhaleWallet } from '../src/types/whale.types';
+import { useTempDir } from './helpers/temp-dir';
+
+const WHALES = [
+  '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+  'GThUX1Atko4tqhN2NaiTazWSeFWMuiUvfFnyJyUghFMJ',
+  '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM'
+];
+
+const whale = (address: string, totalBalanceUsd: number = 1000000, overrides: Partial<WhaleWallet> = {}): WhaleWallet => ({
+  address,
+  category: 'WHALE',
+  enabled: true,
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  balance: { totalBalanceUsd },
+  ...overrides
+} as WhaleWallet);
+
+const at = (minutes: number): Date => new Date(Date.UTC(2026, 0, 1, 0, minutes));
+
+describe('WhaleSnapshotStorage', () => {
+  const workDir = useTempDir('snapshots-test');
+  const config = (): StorageConfig => ({
+    backend: 'json',
+    dataDir: path.join(workDir(), 'data'),
+    sqlitePath: path.join(workDir(), 'data', 'whales.db'),
+    snapshotDir: path.join(workDir(), 'data', 'snapshots'),
+    snapshotCount: 3,
+    snapshotIntervalMinutes: 60
+  });
+
+  // Rewrites a snapshot's whales without touching its recorded checksum
+  const tamper = (id: string): void => {
+    const file = path.join(config().snapshotDir, `whales-${id}.json`);
+    const content = JSON.parse(fs.readFileSync(file, 'utf8'));
+    content.whales[0].category = 'MEGA_WHALE';
+    fs.writeFileSync(file, JSON.stringify(content));
+  };
+
+  describe('take', () => {
+    it('writes a snapshot that reads back with a matching checksum', () => {
+      const storage = new WhaleSnapshotStorage(config());
+      const whales = [whale(WHALES[0])];
+
+      const info = storage.take(whales, 'save', false, at(0));
+      const snapshot = storage.read(info!.id);
+
+      expect(info).toMatchObject({ reason: 'save', totalWhales: 1, checksum: WhaleSnapshotStorage.checksum(whales), valid: true });
+      expect(snapshot?.info.valid).toBe(true);
+      expect(snapshot?.whales).toEqual(whales);
+    });
+
+    it('skips saves inside the interval unless forced', () => {
+      const storage = new WhaleSnapshotStorage(config());
+      storage.take([whale(WHALES[0])], 'save', false, at(0));
+
+      expect(storage.take([whale(WHALES[0])], 'save', false, at(30))).toBeNull();
+      expect(storage.take([whale(WHALES[0])], 'pre-restore', true, at(30))).not.toBeNull();
+      expect(storage.take([whale(WHALES[0])], 'save', false, at(90))).not.toBeNull();
+    });
+
+    it('keeps only the newest snapshotCount snapshots', () => {
+      const storage = new WhaleSnapshotStorage(config());
+      const ids = [0, 1, 2, 3, 4].map(minutes => storage.take([whale(WHALES[0])], 'save', true, at(minutes))!.id);
+
+      expect(storage.list().map(info => info.id)).toEqual(ids.slice(2).reverse());
+    });
+  });
+
+  describe('checksums', () => {
+    it('marks a snapshot whose whales were edited as invalid', () => {
+      const storage = new WhaleSnapshotStorage(config());
+      const { id } = storage.take([whale(WHALES[0])], 'save', true, at(0))!;
+
+      tamper(id);
+
+      expect(storage.read(id)).toMatchObject({ info: { valid: false }, whales: [] });
+    });
+
+    it('falls back past a corrupt newest snapshot to the last good one', () => {
+      const storage = new WhaleSnapshotStorage(config());
+      const good = storage.take([whale(WHALES[0])], 'save', true, at(0))!;
+      const tampered = storage.take([whale(WHALES[1])], 'save', true, at(1))!;
+      const truncated = storage.take([whale(WHALES[2])], 'save', true, at(2))!;
+
+      tamper(tampered.id);
+      fs.writeFileSync(path.join(config().snapshotDir, `whales-${truncated.id}.json`), '{"whales": [');
+
+      expect(storage.latestValid()?.info.id).toBe(good.id);
+    });
+
+    it('rejects ids that could escape the snapshot directory', () => {
+      const storage = new WhaleSnapshotStorage(config());
+
+      expect(WhaleSnapshotStorage.isValidId('../whales')).toBe(false);
+      expect(storage.read('../whales')).toBeNull();
+    });
+  });
+
+  describe('diff', () => {
+    it('reports added, removed and changed wallets, ignoring lastUpdated', () => {
+      const before = [whale(WHALES[0]), whale(WHALES[1], 500000)];
+      const after = [
+        whale(WHALES[0], 1000000, { lastUpdated: '2026-02-01T00:00:00.000Z' }),
+        whale(WHALES[1], 750000, { category: 'SUPER_WHALE' }),
+        whale(WHALES[2])
+      ];
+
+      const diff = WhaleSnapshotStorage.diff('a', before, 'b', after);
+
+      expect(diff.summary).toEqual({ added: 1, removed: 0, changed: 1, unchanged: 1 });
+      expect(diff.added).toEqual([WHALES[2]]);
+      expect(diff.changed).toEqual([{ address: WHALES[1], fields: ['category', 'balance'], balanceChangeUsd: 250000 }]);
+      expect(WhaleSnapshotStorage.diff('b', after, 'c', []).removed).toEqual(WHALES);
+    });
+  });
+
+  describe('WhaleStorage fallback', () => {
+    const createStorage = (backend: JsonStorageBackend): { storage: WhaleStorage; snapshots: WhaleSnapshotStorage } => {
+      const snapshots = new WhaleSnapshotStorage(config());
+      return { storage: new WhaleStorage(backend, snapshots), snapshots };
+    };
+
+    it('recovers the whales from the newest valid snapshot when the store is empty', () => {
+      const backend = new JsonStorageBackend(config().dataDir);
+      const { storage, snapshots } = createStorage(backend);
+      snapshots.take([whale(WHALES[0]), whale(WHALES[1])], 'save', true, at(0));
+
+      expect(storage.loadWhales().map(recovered => recovered.address)).toEqual(WHALES.slice(0, 2));
+      // Written back, so the next start reads the store again
+      expect(backend.loadWhales()).toHaveLength(2);
+    });
+
+    it('recovers when the store cannot be read', () => {
+      const backend = new JsonStorageBackend(config().dataDir);
+      const { storage, snapshots } = createStorage(backend);
+      snapshots.take([whale(WHALES[0])], 'save', true, at(0));
+      jest.spyOn(backend, 'loadWhales').mockImplementationOnce(() => {
+        throw new Error('corrupt store');
+      });
+
+      expect(storage.loadWhales().map(recovered => recovered.address)).toEqual([WHALES[0]]);
+    });
+
+    it('prefers the store over any snapshot', () => {
+      const backend = new JsonStorageBackend(config().dataDir);
+      backend.saveWhales([whale(WHALES[2])]);
+      const { storage, snapshots } = createStorage(backend);
+      snapshots.take([whale(WHALES[0])], 'save', true, at(0));
+
+      expect(storage.loadWhales().map(loaded => loaded.address)).toEqual([WHALES[2]]);
+    });
+  });
+});